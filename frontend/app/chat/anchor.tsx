@@ -0,0 +1,53 @@
+import { useState } from "react";
+import { Crosshair, MapPin, X } from "lucide-react";
+import { ChatAnchor } from "@/lib/protocol";
+
+function describeAnchor(anchor: ChatAnchor): string {
+  const zoom = `${Math.round(anchor.scale * 100)}%`;
+  return anchor.shapeId ? "Linked shape" : `Board view · ${zoom}`;
+}
+
+// Takes the reader to the spot on the board a message points at
+export function AnchorChip({
+  anchor,
+  onFocus,
+  inverted = false,
+}: {
+  anchor: ChatAnchor;
+  // Returns false when the linked shape is gone and only the view could be shown
+  onFocus?: (anchor: ChatAnchor) => boolean;
+  inverted?: boolean;
+}) {
+  const [missing, setMissing] = useState(false);
+  const Icon = anchor.shapeId ? Crosshair : MapPin;
+
+  return (
+    <button
+      type="button"
+      disabled={!onFocus}
+      onClick={() => setMissing(onFocus ? !onFocus(anchor) : false)}
+      title={missing ? "The shape was deleted; showing where it was" : "Show on the board"}
+      className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs border transition-colors disabled:cursor-default ${
+        inverted
+          ? "bg-gray-800 border-gray-600 text-cyan-100 hover:bg-gray-700"
+          : "bg-cyan-50 border-cyan-200 text-cyan-800 hover:bg-cyan-100"
+      }`}
+    >
+      <Icon className="w-3 h-3" />
+      {missing ? "Shape was deleted" : describeAnchor(anchor)}
+    </button>
+  );
+}
+
+// The anchor waiting to be sent with the next message
+export function DraftAnchor({ anchor, onRemove }: { anchor: ChatAnchor; onRemove: () => void }) {
+  return (
+    <div className="flex items-center gap-1 mb-2 text-xs text-gray-500">
+      <span>Attached:</span>
+      <AnchorChip anchor={anchor} />
+      <button type="button" onClick={onRemove} title="Remove" className="p-0.5 rounded hover:bg-gray-100">
+        <X className="w-3 h-3" />
+      </button>
+    </div>
+  );
+}
@@ -1,41 +1,151 @@
-import { X, Send } from "lucide-react";
-import { useEffect } from "react";
+import { X } from "lucide-react";
+import { useEffect, useLayoutEffect, useMemo, useRef } from "react";
 import { useState } from "react";
+import { RoomConnection } from "@/lib/connection";
+import { ChatAnchor, ChatMessage } from "@/lib/protocol";
+import { getChatHistory, getMentionablePeople, mergeMessages, replaceMessage } from "@/lib/chat";
+import { getCurrentUserId } from "@/lib/auth";
+import type { Participant } from "@/draw/presence";
+import type { Game } from "@/draw/Game";
+import { ChatComposer } from "./composer";
+import { ChatMessageItem, PendingMessages } from "./message";
+import { ChatActions, ChatThread } from "./thread";
 
 interface ChatInterfaceProps {
   isChatOpen: boolean;
   setIsChatOpen: (isOpen: boolean) => void;
-  socket: WebSocket,
+  connection: RoomConnection,
   roomId: string,
-  username: string
+  canModerate: boolean,
+  game?: Game
 }
 
-export default function ChatInterface({ setIsChatOpen, socket, roomId, username }:ChatInterfaceProps) {
-  const [messages, setMessages] = useState<{ status: string,username: string, message: string }[]>([]);
-  const [input, setInput] = useState<string>("");
+// Start fetching the previous page a little before the top is reached
+const LOAD_OLDER_THRESHOLD = 64;
+const STICK_TO_BOTTOM_THRESHOLD = 80;
+
+export default function ChatInterface({ setIsChatOpen, connection, roomId, canModerate, game }:ChatInterfaceProps) {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [roomPeople, setRoomPeople] = useState<Participant[]>([]);
+  const [threadId, setThreadId] = useState<number | null>(null);
+  // Sent while offline; the server echoes them back once they go out
+  const [pending, setPending] = useState<string[]>([]);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const stickToBottom = useRef(true);
+  // Distance from the bottom to keep while older messages are prepended
+  const restoreOffset = useRef<number | null>(null);
+
+  useEffect(() => {
+    setCurrentUserId(getCurrentUserId());
+  }, []);
+
+  useEffect(() => {
+    getMentionablePeople(roomId)
+      .then(setRoomPeople)
+      .catch(() => setRoomPeople([]));
+  }, [roomId]);
+
+  // Everyone who can be mentioned, including authors who joined after the list was loaded
+  const people = useMemo(() => {
+    const byId = new Map(roomPeople.map((person) => [person.userId, person]));
+    messages.forEach(({ userId, name }) => byId.set(userId, { userId, name }));
+    if (currentUserId) byId.delete(currentUserId);
+    return [...byId.values()];
+  }, [roomPeople, messages, currentUserId]);
 
   useEffect(() => {
-    const handleMessage = (m: MessageEvent) => {
-      const data = JSON.parse(m.data);
-      setMessages((prev) => [...prev, { status: data.status, username: data.username, message: data.msg }]);
-    };
-  
-    socket.addEventListener("message", handleMessage);
-  
-    return () => {
-      socket.removeEventListener("message", handleMessage);
-    };
-  }, [socket]);
-
-  const handleSendMessage = () => {
-    socket.send(JSON.stringify({
+    const loadLatest = () =>
+      getChatHistory(roomId)
+        .then((page) => {
+          setMessages((current) => mergeMessages(current, page.messages));
+          // Only the first load decides whether older pages exist
+          setHasMore((more) => more || page.hasMore);
+        })
+        .catch(() => setHistoryError("Couldn't load earlier messages."));
+
+    loadLatest();
+    // Catch up on whatever was said while we were disconnected
+    return connection.onResync(loadLatest);
+  }, [connection, roomId]);
+
+  useEffect(() => {
+    const unsubscribers = [
+      connection.on("messages", ({ message }) => {
+        if (message.parentId === null) setMessages((current) => mergeMessages(current, [message]));
+      }),
+      connection.on("chat_updated", ({ message }) => {
+        setMessages((current) => replaceMessage(current, message));
+      }),
+    ];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [connection]);
+
+  useEffect(() => {
+    return connection.onStatusChange(() => {
+      if (connection.getStatus() === "connected") setPending([]);
+    });
+  }, [connection]);
+
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    if (restoreOffset.current !== null) {
+      el.scrollTop = el.scrollHeight - restoreOffset.current;
+      restoreOffset.current = null;
+    } else if (stickToBottom.current) {
+      el.scrollTop = el.scrollHeight;
+    }
+  }, [messages, pending, threadId]);
+
+  const loadOlder = async () => {
+    const el = scrollRef.current;
+    if (!el || loadingOlder || !hasMore || messages.length === 0) return;
+    setLoadingOlder(true);
+    try {
+      const page = await getChatHistory(roomId, { before: messages[0].id });
+      restoreOffset.current = el.scrollHeight - el.scrollTop;
+      setMessages((current) => mergeMessages(current, page.messages));
+      setHasMore(page.hasMore);
+    } catch {
+      setHistoryError("Couldn't load earlier messages.");
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
+  const handleScroll = () => {
+    const el = scrollRef.current;
+    if (!el) return;
+    stickToBottom.current = el.scrollHeight - el.scrollTop - el.clientHeight < STICK_TO_BOTTOM_THRESHOLD;
+    if (el.scrollTop < LOAD_OLDER_THRESHOLD) loadOlder();
+  };
+
+  const handleSendMessage = (msg: string, anchor?: ChatAnchor) => {
+    const sent = connection.send({
         type: "messages",
         roomId: roomId,
-        username: username,
-        msg: input
-    }))
-    setInput("")
+        msg,
+        anchor
+    })
+    if (!sent) setPending((prev) => [...prev, msg]);
+    stickToBottom.current = true;
+  };
+
+  const actions: ChatActions = {
+    react: (messageId, emoji, active) => connection.send({ type: "chat_react", roomId, messageId, emoji, active }),
+    edit: (messageId, msg) => connection.send({ type: "chat_edit", roomId, messageId, msg }),
+    remove: (messageId) => connection.send({ type: "chat_delete", roomId, messageId }),
   };
+
+  const getAnchor = game ? () => game.getViewAnchor() : undefined;
+  const focusAnchor = game ? (anchor: ChatAnchor) => game.focusAnchor(anchor) : undefined;
+
+  const thread = threadId === null ? undefined : messages.find((message) => message.id === threadId);
+
   return (
     <div className="h-screen fixed top-0 right-0 w-1/4 flex flex-col bg-white/90 backdrop-blur-sm z-30 border border-gray-100">
       {/* Header */}
@@ -50,49 +160,61 @@ export default function ChatInterface({ setIsChatOpen, socket, roomId, username
           <X className="h-6 w-6" />
         </button>
       </div>
-      
-      {/* Messages Area */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-3 scrollbar-thin scrollbar-thumb-gray-200 bg-transparent">
-        {messages.map((message, index) => (
-          <div key={index} className={`animate-fadeIn ${message.status === "sent" ? "flex justify-end" : "flex justify-start"}`}>
-            <div className="max-w-[80%] space-y-1">
-              <p className="text-xs font-medium text-gray-500 px-2">
-                {message.username}
-              </p>
-              <div className={`
-                rounded-xl px-4 py-2
-                ${message.status === "sent" 
-                  ? "bg-black text-cyan-50" 
-                  : "bg-white text-black border border-rose-50"}
-              `}>
-                <p className="text-base leading-relaxed">{message.message}</p>
-              </div>
-            </div>
-          </div>
-        ))}
-      </div>
-      
-      {/* Input Area */}
-      <div className="p-4 bg-white border-t border-gray-100">
-        <form onSubmit={(e) => {
-          e.preventDefault();
-          handleSendMessage();
-        }} className="flex gap-2">
-          <input
-            type="text"
-            placeholder="Type your message..."
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            className="w-full px-4 py-2 rounded-xl border border-gray-200 bg-white text-gray-900 placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-cyan-200 transition-colors"
-          />
-          <button 
-            type="submit" 
-            className="p-3 rounded-xl bg-black text-white hover:bg-rose-200 focus:outline-none focus:ring-2 focus:ring-rose-200 transition-all duration-200"
+
+      {thread ? (
+        <ChatThread
+          key={thread.id}
+          roomId={roomId}
+          connection={connection}
+          parent={thread}
+          people={people}
+          currentUserId={currentUserId}
+          canModerate={canModerate}
+          actions={actions}
+          getAnchor={getAnchor}
+          onFocusAnchor={focusAnchor}
+          onBack={() => setThreadId(null)}
+        />
+      ) : (
+        <>
+          {/* Messages Area */}
+          <div
+            ref={scrollRef}
+            onScroll={handleScroll}
+            className="flex-1 overflow-y-auto p-4 space-y-3 scrollbar-thin scrollbar-thumb-gray-200 bg-transparent"
           >
-            <Send className="h-5 w-5" />
-          </button>
-        </form>
-      </div>
+            {loadingOlder && <p className="text-center text-xs text-gray-400">Loading earlier messages…</p>}
+            {historyError && <p className="text-center text-xs text-red-500">{historyError}</p>}
+            {!hasMore && messages.length > 0 && (
+              <p className="text-center text-xs text-gray-400">This is the start of the conversation</p>
+            )}
+            {messages.length === 0 && pending.length === 0 && !historyError && (
+              <p className="text-center text-sm text-gray-400">No messages yet. Say hi!</p>
+            )}
+            {messages.map((message) => (
+              <ChatMessageItem
+                key={message.id}
+                message={message}
+                currentUserId={currentUserId}
+                canModerate={canModerate}
+                people={people}
+                onReact={(emoji, active) => actions.react(message.id, emoji, active)}
+                onEdit={(body) => actions.edit(message.id, body)}
+                onDelete={() => actions.remove(message.id)}
+                onOpenThread={() => setThreadId(message.id)}
+                onFocusAnchor={focusAnchor}
+              />
+            ))}
+            <PendingMessages pending={pending} />
+          </div>
+
+          {/* Input Area */}
+          <div className="p-4 bg-white border-t border-gray-100">
+            <ChatComposer people={people} onSubmit={handleSendMessage} getAnchor={getAnchor} />
+            <p className="mt-1 text-[11px] text-gray-400">Markdown and ``` code blocks supported · @ to mention · 📍 to link the board</p>
+          </div>
+        </>
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,182 @@
+import { useLayoutEffect, useRef, useState } from "react";
+import { MapPin, Send } from "lucide-react";
+import { encodeMentions } from "@/lib/chat";
+import { ChatAnchor } from "@/lib/protocol";
+import { getInitials, getUserColor, Participant } from "@/draw/presence";
+import { DraftAnchor } from "./anchor";
+
+const MAX_SUGGESTIONS = 5;
+const MAX_HEIGHT = 160;
+
+// The @word being typed right before the caret, if any
+function getMentionQuery(text: string, caret: number): string | null {
+  const match = /(^|\s)@([^\s@]*)$/.exec(text.slice(0, caret));
+  return match ? match[2] : null;
+}
+
+export function ChatComposer({
+  people,
+  onSubmit,
+  placeholder = "Type your message...",
+  initialValue = "",
+  onCancel,
+  autoFocus = false,
+  getAnchor,
+}: {
+  people: Participant[];
+  onSubmit: (body: string, anchor?: ChatAnchor) => void;
+  placeholder?: string;
+  initialValue?: string;
+  onCancel?: () => void;
+  autoFocus?: boolean;
+  // Where the board is looking right now; left out where messages can't be anchored
+  getAnchor?: () => ChatAnchor | null;
+}) {
+  const [value, setValue] = useState(initialValue);
+  const [anchor, setAnchor] = useState<ChatAnchor | null>(null);
+  const [query, setQuery] = useState<string | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+
+  // Grow with the text up to a few lines, then scroll
+  useLayoutEffect(() => {
+    const el = inputRef.current;
+    if (!el) return;
+    el.style.height = "auto";
+    el.style.height = `${Math.min(el.scrollHeight, MAX_HEIGHT)}px`;
+  }, [value]);
+
+  const suggestions =
+    query === null
+      ? []
+      : people.filter((person) => person.name.toLowerCase().includes(query.toLowerCase())).slice(0, MAX_SUGGESTIONS);
+
+  const updateQuery = (text: string, caret: number) => {
+    setQuery(getMentionQuery(text, caret));
+    setHighlighted(0);
+  };
+
+  const insertMention = (person: Participant) => {
+    const el = inputRef.current;
+    const caret = el?.selectionStart ?? value.length;
+    const before = value.slice(0, caret).replace(/@[^\s@]*$/, `@${person.name} `);
+    const next = before + value.slice(caret);
+    setValue(next);
+    setQuery(null);
+    requestAnimationFrame(() => {
+      el?.focus();
+      el?.setSelectionRange(before.length, before.length);
+    });
+  };
+
+  const submit = () => {
+    const text = value.trim();
+    if (!text) return;
+    onSubmit(encodeMentions(text, people), anchor ?? undefined);
+    setValue("");
+    setAnchor(null);
+    setQuery(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setHighlighted((i) => (i + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === "Enter" || e.key === "Tab") {
+        e.preventDefault();
+        insertMention(suggestions[highlighted]);
+        return;
+      }
+    }
+    if (e.key === "Escape") {
+      if (query !== null) setQuery(null);
+      else onCancel?.();
+      return;
+    }
+    // Shift+Enter for new lines, e.g. in code blocks
+    if (e.key === "Enter" && !e.shiftKey) {
+      e.preventDefault();
+      submit();
+    }
+  };
+
+  return (
+    <>
+      {anchor && <DraftAnchor anchor={anchor} onRemove={() => setAnchor(null)} />}
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          submit();
+        }}
+        className="relative flex gap-2 items-end"
+      >
+        {suggestions.length > 0 && (
+          <ul className="absolute bottom-full left-0 mb-2 w-64 bg-white rounded-xl shadow-lg border border-gray-100 py-1 z-10">
+            {suggestions.map((person, i) => (
+              <li key={person.userId}>
+                <button
+                  type="button"
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    insertMention(person);
+                  }}
+                  className={`w-full flex items-center gap-2 px-3 py-1.5 text-sm text-left ${
+                    i === highlighted ? "bg-gray-100" : "hover:bg-gray-50"
+                  }`}
+                >
+                  <span
+                    className="w-6 h-6 rounded-full flex items-center justify-center text-[10px] font-semibold text-white"
+                    style={{ backgroundColor: getUserColor(person.userId) }}
+                  >
+                    {getInitials(person.name)}
+                  </span>
+                  <span className="text-gray-900">{person.name}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <textarea
+          ref={inputRef}
+          rows={1}
+          autoFocus={autoFocus}
+          placeholder={placeholder}
+          value={value}
+          onChange={(e) => {
+            setValue(e.target.value);
+            updateQuery(e.target.value, e.target.selectionStart);
+          }}
+          onSelect={(e) => updateQuery(e.currentTarget.value, e.currentTarget.selectionStart)}
+          onBlur={() => setQuery(null)}
+          onKeyDown={handleKeyDown}
+          className="w-full resize-none px-4 py-2 rounded-xl border border-gray-200 bg-white text-gray-900 placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-cyan-200 transition-colors"
+        />
+        {onCancel && (
+          <button type="button" onClick={onCancel} className="px-3 py-2 rounded-xl text-sm text-gray-600 hover:bg-gray-100">
+            Cancel
+          </button>
+        )}
+        {getAnchor && (
+          <button
+            type="button"
+            onClick={() => setAnchor(getAnchor())}
+            title="Link the selected shape, or the current view"
+            className="p-3 rounded-xl text-gray-600 hover:bg-gray-100 transition-colors"
+          >
+            <MapPin className="h-5 w-5" />
+          </button>
+        )}
+        <button
+          type="submit"
+          className="p-3 rounded-xl bg-black text-white hover:bg-rose-200 focus:outline-none focus:ring-2 focus:ring-rose-200 transition-all duration-200"
+        >
+          <Send className="h-5 w-5" />
+        </button>
+      </form>
+    </>
+  );
+}
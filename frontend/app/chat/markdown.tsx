@@ -0,0 +1,82 @@
+import ReactMarkdown, { Components, defaultUrlTransform } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import rehypeHighlight from "rehype-highlight";
+import "highlight.js/styles/github-dark.css";
+import { MENTION_PATTERN } from "@/lib/protocol";
+import type { Participant } from "@/draw/presence";
+
+// Mentions travel through markdown as links with this scheme and come out as badges
+const MENTION_SCHEME = "mention:";
+
+function toMarkdown(body: string, mentions: Participant[]): string {
+  const names = new Map(mentions.map((mention) => [mention.userId, mention.name]));
+  return body.replace(MENTION_PATTERN, (token, userId: string) => {
+    const name = names.get(userId);
+    return name ? `[@${name.replace(/[[\]\\]/g, "\\$&")}](${MENTION_SCHEME}${userId})` : token;
+  });
+}
+
+function urlTransform(url: string): string {
+  return url.startsWith(MENTION_SCHEME) ? url : defaultUrlTransform(url);
+}
+
+export function ChatMarkdown({
+  body,
+  mentions,
+  currentUserId,
+  inverted,
+}: {
+  body: string;
+  mentions: Participant[];
+  currentUserId: string | null;
+  inverted: boolean;
+}) {
+  const components: Components = {
+    a: ({ href, children }) => {
+      if (href?.startsWith(MENTION_SCHEME)) {
+        const isYou = href.slice(MENTION_SCHEME.length) === currentUserId;
+        return (
+          <span
+            className={`px-1 rounded font-medium ${
+              isYou ? "bg-amber-200 text-amber-900" : inverted ? "bg-cyan-900 text-cyan-100" : "bg-cyan-100 text-cyan-800"
+            }`}
+          >
+            {children}
+          </span>
+        );
+      }
+      return (
+        <a href={href} target="_blank" rel="noopener noreferrer" className="underline">
+          {children}
+        </a>
+      );
+    },
+    p: ({ children }) => <p className="leading-relaxed">{children}</p>,
+    ul: ({ children }) => <ul className="list-disc pl-5">{children}</ul>,
+    ol: ({ children }) => <ol className="list-decimal pl-5">{children}</ol>,
+    blockquote: ({ children }) => <blockquote className="border-l-2 border-gray-400 pl-2 opacity-80">{children}</blockquote>,
+    h1: ({ children }) => <p className="font-bold text-lg">{children}</p>,
+    h2: ({ children }) => <p className="font-bold">{children}</p>,
+    h3: ({ children }) => <p className="font-semibold">{children}</p>,
+    pre: ({ children }) => <pre className="my-1 rounded-lg overflow-x-auto text-sm [&>code]:rounded-lg">{children}</pre>,
+    code: ({ className, children }) =>
+      className?.includes("hljs") ? (
+        <code className={className}>{children}</code>
+      ) : (
+        <code className={`px-1 rounded font-mono text-sm ${inverted ? "bg-gray-700" : "bg-gray-100"}`}>{children}</code>
+      ),
+  };
+
+  return (
+    <div className="space-y-1 break-words">
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        rehypePlugins={[[rehypeHighlight, { detect: true }]]}
+        urlTransform={urlTransform}
+        components={components}
+      >
+        {toMarkdown(body, mentions)}
+      </ReactMarkdown>
+    </div>
+  );
+}
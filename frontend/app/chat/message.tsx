@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { MessageSquare, Pencil, SmilePlus, Trash2 } from "lucide-react";
+import { ChatAnchor, ChatMessage, REACTION_EMOJIS, ReactionEmoji } from "@/lib/protocol";
+import { decodeMentions, isMentioned } from "@/lib/chat";
+import type { Participant } from "@/draw/presence";
+import { ChatMarkdown } from "./markdown";
+import { ChatComposer } from "./composer";
+import { AnchorChip } from "./anchor";
+
+function formatTimestamp(createdAt: string): string {
+  const date = new Date(createdAt);
+  const time = date.toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" });
+  if (date.toDateString() === new Date().toDateString()) return time;
+  return `${date.toLocaleDateString(undefined, { month: "short", day: "numeric" })}, ${time}`;
+}
+
+export function ChatMessageItem({
+  message,
+  currentUserId,
+  canModerate,
+  people,
+  onReact,
+  onEdit,
+  onDelete,
+  onOpenThread,
+  onFocusAnchor,
+}: {
+  message: ChatMessage;
+  currentUserId: string | null;
+  canModerate: boolean;
+  people: Participant[];
+  onReact: (emoji: ReactionEmoji, active: boolean) => void;
+  onEdit: (body: string) => void;
+  onDelete: () => void;
+  // Left out for replies, which can't start threads of their own
+  onOpenThread?: () => void;
+  onFocusAnchor?: (anchor: ChatAnchor) => boolean;
+}) {
+  const [editing, setEditing] = useState(false);
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const [pickingReaction, setPickingReaction] = useState(false);
+
+  const isOwn = message.userId === currentUserId;
+  const mentionsYou = isMentioned(message, currentUserId);
+  const canDelete = !message.deleted && (isOwn || canModerate);
+
+  const toggleReaction = (emoji: ReactionEmoji) => {
+    const reaction = message.reactions.find((r) => r.emoji === emoji);
+    onReact(emoji, !reaction?.userIds.includes(currentUserId ?? ""));
+    setPickingReaction(false);
+  };
+
+  return (
+    <div className={`group animate-fadeIn ${isOwn ? "flex justify-end" : "flex justify-start"}`}>
+      <div className={`space-y-1 ${editing ? "w-full" : "max-w-[80%]"}`}>
+        <p className={`text-xs text-gray-500 px-2 ${isOwn ? "text-right" : ""}`}>
+          <span className="font-medium">{isOwn ? "You" : message.name}</span>
+          <span className="ml-2 text-gray-400" title={new Date(message.createdAt).toLocaleString()}>
+            {formatTimestamp(message.createdAt)}
+          </span>
+          {message.editedAt && !message.deleted && <span className="ml-1 text-gray-400">(edited)</span>}
+        </p>
+
+        {editing ? (
+          <ChatComposer
+            people={[...people, ...message.mentions]}
+            initialValue={decodeMentions(message.body, message.mentions)}
+            autoFocus
+            onCancel={() => setEditing(false)}
+            onSubmit={(body) => {
+              onEdit(body);
+              setEditing(false);
+            }}
+          />
+        ) : (
+          <div className="relative">
+            <div
+              className={`
+                rounded-xl px-4 py-2 text-base
+                ${message.deleted
+                  ? "bg-gray-50 text-gray-400 italic border border-gray-100"
+                  : isOwn
+                    ? "bg-black text-cyan-50"
+                    : "bg-white text-black border border-rose-50"}
+                ${mentionsYou ? "ring-2 ring-amber-300" : ""}
+              `}
+            >
+              {message.deleted ? (
+                <p>This message was deleted</p>
+              ) : (
+                <>
+                  <ChatMarkdown body={message.body} mentions={message.mentions} currentUserId={currentUserId} inverted={isOwn} />
+                  {message.anchor && (
+                    <div className="mt-1">
+                      <AnchorChip anchor={message.anchor} onFocus={onFocusAnchor} inverted={isOwn} />
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+
+            {/* Hover actions */}
+            {!message.deleted && (
+              <div
+                className={`absolute -top-3 ${isOwn ? "left-0 -translate-x-1/2" : "right-0 translate-x-1/2"} hidden group-hover:flex items-center gap-0.5 bg-white rounded-lg shadow border border-gray-100 p-0.5 text-gray-500`}
+              >
+                <button title="React" onClick={() => setPickingReaction((open) => !open)} className="p-1 rounded hover:bg-gray-100">
+                  <SmilePlus className="w-3.5 h-3.5" />
+                </button>
+                {onOpenThread && (
+                  <button title="Reply in thread" onClick={onOpenThread} className="p-1 rounded hover:bg-gray-100">
+                    <MessageSquare className="w-3.5 h-3.5" />
+                  </button>
+                )}
+                {isOwn && (
+                  <button title="Edit" onClick={() => setEditing(true)} className="p-1 rounded hover:bg-gray-100">
+                    <Pencil className="w-3.5 h-3.5" />
+                  </button>
+                )}
+                {canDelete && (
+                  <button title="Delete" onClick={() => setConfirmingDelete(true)} className="p-1 rounded hover:bg-red-50 text-red-500">
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </div>
+            )}
+
+            {pickingReaction && (
+              <div className={`absolute z-10 top-full mt-1 ${isOwn ? "right-0" : "left-0"} flex gap-1 bg-white rounded-xl shadow-lg border border-gray-100 p-1`}>
+                {REACTION_EMOJIS.map((emoji) => (
+                  <button key={emoji} onClick={() => toggleReaction(emoji)} className="px-1.5 py-0.5 rounded-lg hover:bg-gray-100 text-lg">
+                    {emoji}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {confirmingDelete && (
+          <div className={`flex items-center gap-2 text-xs px-2 ${isOwn ? "justify-end" : ""}`}>
+            <span className="text-gray-500">Delete this message?</span>
+            <button
+              onClick={() => {
+                onDelete();
+                setConfirmingDelete(false);
+              }}
+              className="text-red-500 font-medium hover:underline"
+            >
+              Delete
+            </button>
+            <button onClick={() => setConfirmingDelete(false)} className="text-gray-500 hover:underline">
+              Cancel
+            </button>
+          </div>
+        )}
+
+        {message.reactions.length > 0 && (
+          <div className={`flex flex-wrap gap-1 px-1 ${isOwn ? "justify-end" : ""}`}>
+            {message.reactions.map(({ emoji, userIds }) => {
+              const reacted = !!currentUserId && userIds.includes(currentUserId);
+              return (
+                <button
+                  key={emoji}
+                  onClick={() => toggleReaction(emoji as ReactionEmoji)}
+                  className={`px-1.5 py-0.5 rounded-full text-xs border transition-colors ${
+                    reacted ? "bg-cyan-50 border-cyan-300" : "bg-white border-gray-200 hover:bg-gray-50"
+                  }`}
+                >
+                  {emoji} {userIds.length}
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        {onOpenThread && message.replyCount > 0 && (
+          <button onClick={onOpenThread} className={`block text-xs text-cyan-700 hover:underline px-2 ${isOwn ? "ml-auto" : ""}`}>
+            {message.replyCount} {message.replyCount === 1 ? "reply" : "replies"}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function PendingMessages({ pending }: { pending: string[] }) {
+  return (
+    <>
+      {pending.map((message, index) => (
+        <div key={`pending-${index}`} className="flex justify-end opacity-60">
+          <div className="max-w-[80%] space-y-1">
+            <p className="text-xs font-medium text-gray-500 px-2">Sending when back online…</p>
+            <div className="rounded-xl px-4 py-2 bg-black text-cyan-50">
+              <p className="text-base leading-relaxed whitespace-pre-wrap break-words">{message}</p>
+            </div>
+          </div>
+        </div>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,170 @@
+import { ArrowLeft } from "lucide-react";
+import { useEffect, useLayoutEffect, useRef, useState } from "react";
+import { RoomConnection } from "@/lib/connection";
+import { ChatAnchor, ChatMessage, ReactionEmoji } from "@/lib/protocol";
+import { getChatHistory, mergeMessages, replaceMessage } from "@/lib/chat";
+import type { Participant } from "@/draw/presence";
+import { ChatComposer } from "./composer";
+import { ChatMessageItem, PendingMessages } from "./message";
+
+export interface ChatActions {
+  react: (messageId: number, emoji: ReactionEmoji, active: boolean) => boolean;
+  edit: (messageId: number, msg: string) => boolean;
+  remove: (messageId: number) => boolean;
+}
+
+// Replies to one top-level message, shown in place of the main conversation
+export function ChatThread({
+  roomId,
+  connection,
+  parent,
+  people,
+  currentUserId,
+  canModerate,
+  actions,
+  getAnchor,
+  onFocusAnchor,
+  onBack,
+}: {
+  roomId: string;
+  connection: RoomConnection;
+  parent: ChatMessage;
+  people: Participant[];
+  currentUserId: string | null;
+  canModerate: boolean;
+  actions: ChatActions;
+  getAnchor?: () => ChatAnchor | null;
+  onFocusAnchor?: (anchor: ChatAnchor) => boolean;
+  onBack: () => void;
+}) {
+  const [replies, setReplies] = useState<ChatMessage[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pending, setPending] = useState<string[]>([]);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const stickToBottom = useRef(true);
+
+  useEffect(() => {
+    const loadLatest = () =>
+      getChatHistory(roomId, { parentId: parent.id })
+        .then((page) => {
+          setReplies((current) => mergeMessages(current, page.messages));
+          setHasMore((more) => more || page.hasMore);
+        })
+        .catch(() => setError("Couldn't load replies."));
+
+    loadLatest();
+    return connection.onResync(loadLatest);
+  }, [connection, roomId, parent.id]);
+
+  useEffect(() => {
+    const unsubscribers = [
+      connection.on("messages", ({ message }) => {
+        if (message.parentId === parent.id) setReplies((current) => mergeMessages(current, [message]));
+      }),
+      connection.on("chat_updated", ({ message }) => {
+        setReplies((current) => replaceMessage(current, message));
+      }),
+      connection.onStatusChange(() => {
+        if (connection.getStatus() === "connected") setPending([]);
+      }),
+    ];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [connection, parent.id]);
+
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    if (el && stickToBottom.current) el.scrollTop = el.scrollHeight;
+  }, [replies, pending]);
+
+  const loadOlder = async () => {
+    if (loadingOlder || replies.length === 0) return;
+    setLoadingOlder(true);
+    stickToBottom.current = false;
+    try {
+      const page = await getChatHistory(roomId, { parentId: parent.id, before: replies[0].id });
+      setReplies((current) => mergeMessages(current, page.messages));
+      setHasMore(page.hasMore);
+    } catch {
+      setError("Couldn't load replies.");
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
+  const handleReply = (msg: string, anchor?: ChatAnchor) => {
+    const sent = connection.send({ type: "messages", roomId, msg, parentId: parent.id, anchor });
+    if (!sent) setPending((prev) => [...prev, msg]);
+    stickToBottom.current = true;
+  };
+
+  return (
+    <>
+      <div className="flex items-center gap-2 px-4 py-2 bg-white border-b border-gray-100 text-sm">
+        <button onClick={onBack} className="p-1 rounded hover:bg-gray-100 text-gray-600" title="Back to conversation">
+          <ArrowLeft className="w-4 h-4" />
+        </button>
+        <span className="font-medium text-gray-700">Thread</span>
+        <span className="text-gray-400">
+          {parent.replyCount} {parent.replyCount === 1 ? "reply" : "replies"}
+        </span>
+      </div>
+
+      <div
+        ref={scrollRef}
+        onScroll={() => {
+          const el = scrollRef.current;
+          if (el) stickToBottom.current = el.scrollHeight - el.scrollTop - el.clientHeight < 80;
+        }}
+        className="flex-1 overflow-y-auto p-4 space-y-3 scrollbar-thin scrollbar-thumb-gray-200 bg-transparent"
+      >
+        <ChatMessageItem
+          message={parent}
+          currentUserId={currentUserId}
+          canModerate={canModerate}
+          people={people}
+          onReact={(emoji, active) => actions.react(parent.id, emoji, active)}
+          onEdit={(body) => actions.edit(parent.id, body)}
+          onDelete={() => actions.remove(parent.id)}
+          onFocusAnchor={onFocusAnchor}
+        />
+        <div className="border-t border-gray-100" />
+        {hasMore && (
+          <button
+            onClick={loadOlder}
+            disabled={loadingOlder}
+            className="block mx-auto text-xs text-cyan-700 hover:underline disabled:text-gray-400"
+          >
+            {loadingOlder ? "Loading…" : "Load earlier replies"}
+          </button>
+        )}
+        {error && <p className="text-center text-xs text-red-500">{error}</p>}
+        {replies.map((message) => (
+          <ChatMessageItem
+            key={message.id}
+            message={message}
+            currentUserId={currentUserId}
+            canModerate={canModerate}
+            people={people}
+            onReact={(emoji, active) => actions.react(message.id, emoji, active)}
+            onEdit={(body) => actions.edit(message.id, body)}
+            onDelete={() => actions.remove(message.id)}
+            onFocusAnchor={onFocusAnchor}
+          />
+        ))}
+        <PendingMessages pending={pending} />
+      </div>
+
+      <div className="p-4 bg-white border-t border-gray-100">
+        <ChatComposer
+          people={people}
+          onSubmit={handleReply}
+          placeholder="Reply in thread..."
+          getAnchor={getAnchor}
+          autoFocus
+        />
+      </div>
+    </>
+  );
+}
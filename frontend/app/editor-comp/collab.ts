@@ -0,0 +1,426 @@
+import * as Y from "yjs";
+import type { Monaco } from "@monaco-editor/react";
+import type { editor, IDisposable } from "monaco-editor";
+import { RoomConnection } from "@/lib/connection";
+import { findLanguage, LanguageInfo, PLAIN_TEXT } from "@/lib/languages";
+import { CURSOR_THROTTLE_MS, getUserColor } from "@/draw/presence";
+import {
+  createFile,
+  createFolder,
+  deletePath,
+  getFileText,
+  getProjectFiles,
+  getProjectFolders,
+  ProjectFile,
+  renamePath,
+  setFileLanguage,
+} from "./project";
+
+// Transaction origins, so that each side only reacts to the other's changes
+const LOCAL_ORIGIN = "local";
+const REMOTE_ORIGIN = "remote";
+
+function toBase64(data: Uint8Array): string {
+  let binary = "";
+  // In chunks, since spreading a large array into one call overflows the stack
+  for (let i = 0; i < data.length; i += 0x8000) {
+    binary += String.fromCharCode(...data.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(data: string): Uint8Array {
+  return Uint8Array.from(atob(data), (char) => char.charCodeAt(0));
+}
+
+// Safe to use in a CSS class name and a CSS string
+function cssKey(userId: string): string {
+  return userId.replace(/[^\w-]/g, "");
+}
+
+function cssString(text: string): string {
+  return `"${text.replace(/["\\]/g, "\\$&").replace(/\s+/g, " ")}"`;
+}
+
+interface RemoteSelection {
+  name: string;
+  anchor: Y.RelativePosition;
+  head: Y.RelativePosition;
+}
+
+// A file that has been opened in a tab: its own Monaco model, kept in step with its
+// Y.Text, and its own undo history
+interface FileBinding {
+  text: Y.Text;
+  model: editor.ITextModel;
+  undoManager: Y.UndoManager;
+  observer: (event: Y.YTextEvent, transaction: Y.Transaction) => void;
+}
+
+// Binds a Monaco editor to the room's shared project. Typing becomes Yjs edits that
+// merge with everyone else's instead of replacing the whole buffer, and undo only
+// takes back what was typed here.
+export class CodeCollaboration {
+  private editor: editor.IStandaloneCodeEditor;
+  private monaco: Monaco;
+  private connection: RoomConnection;
+  private roomId: string;
+  private readOnly: boolean;
+  private doc = new Y.Doc();
+  private bindings = new Map<string, FileBinding>();
+  private languages: LanguageInfo[] = [PLAIN_TEXT];
+  private activeFileId: string | null = null;
+  private synced: boolean = false;
+  private remoteSelections = new Map<string, RemoteSelection>();
+  private decorations: editor.IEditorDecorationsCollection;
+  private styleElement: HTMLStyleElement;
+  private applyingRemote: boolean = false;
+  private cursorTimer: ReturnType<typeof setTimeout> | null = null;
+  private projectListeners = new Set<() => void>();
+  private disposables: IDisposable[] = [];
+  private unsubscribers: (() => void)[] = [];
+
+  constructor(
+    codeEditor: editor.IStandaloneCodeEditor,
+    monaco: Monaco,
+    connection: RoomConnection,
+    roomId: string,
+    readOnly: boolean
+  ) {
+    this.editor = codeEditor;
+    this.monaco = monaco;
+    this.connection = connection;
+    this.roomId = roomId;
+    this.readOnly = readOnly;
+    this.decorations = codeEditor.createDecorationsCollection();
+    this.styleElement = document.createElement("style");
+    document.head.appendChild(this.styleElement);
+
+    // Each file gets its own model once it's opened; nothing can be typed until then
+    codeEditor.getModel()?.dispose();
+    codeEditor.setModel(null);
+    codeEditor.updateOptions({ readOnly: true });
+
+    this.doc.getMap("files").observeDeep(this.handleProjectChange);
+    this.doc.getMap("folders").observe(this.handleProjectChange);
+    this.doc.on("update", this.handleDocUpdate);
+    this.disposables.push(
+      codeEditor.onDidChangeModelContent(this.handleModelChange),
+      codeEditor.onDidChangeCursorSelection(() => this.scheduleCursor())
+    );
+
+    const { KeyMod, KeyCode } = monaco;
+    const undo = () => this.activeBinding()?.undoManager.undo();
+    const redo = () => this.activeBinding()?.undoManager.redo();
+    codeEditor.addCommand(KeyMod.CtrlCmd | KeyCode.KeyZ, undo);
+    codeEditor.addCommand(KeyMod.CtrlCmd | KeyMod.Shift | KeyCode.KeyZ, redo);
+    codeEditor.addCommand(KeyMod.CtrlCmd | KeyCode.KeyY, redo);
+
+    this.unsubscribers.push(
+      this.connection.on("code_sync", ({ update, stateVector }) => {
+        Y.applyUpdate(this.doc, fromBase64(update), REMOTE_ORIGIN);
+        // Whatever we typed while offline; deletes don't show up in state vectors, so always send
+        if (!this.readOnly) {
+          const missing = Y.encodeStateAsUpdate(this.doc, fromBase64(stateVector));
+          this.connection.sendVolatile({ type: "code_update", roomId: this.roomId, update: toBase64(missing) });
+        }
+        this.synced = true;
+        this.editor.updateOptions({ readOnly: this.readOnly });
+        this.notifyProjectChange();
+        this.scheduleCursor();
+      }),
+      this.connection.on("code_update", ({ update }) => {
+        Y.applyUpdate(this.doc, fromBase64(update), REMOTE_ORIGIN);
+      }),
+      this.connection.on("code_cursor", ({ userId, name, selection }) => {
+        if (selection) {
+          this.remoteSelections.set(userId, {
+            name,
+            anchor: Y.decodeRelativePosition(fromBase64(selection.anchor)),
+            head: Y.decodeRelativePosition(fromBase64(selection.head)),
+          });
+        } else {
+          this.remoteSelections.delete(userId);
+        }
+        this.renderRemoteSelections();
+      }),
+      this.connection.on("presence", ({ users }) => {
+        const present = new Set(users.map((user) => user.userId));
+        [...this.remoteSelections.keys()].forEach((userId) => {
+          if (!present.has(userId)) this.remoteSelections.delete(userId);
+        });
+        this.renderRemoteSelections();
+      }),
+      // Edits made on either side while we were offline are exchanged by syncing again
+      this.connection.onResync(() => this.requestSync())
+    );
+    this.requestSync();
+  }
+
+  destroy() {
+    if (this.cursorTimer) clearTimeout(this.cursorTimer);
+    this.connection.sendVolatile({ type: "code_cursor", roomId: this.roomId, selection: null });
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.disposables.forEach((disposable) => disposable.dispose());
+    this.decorations.clear();
+    this.styleElement.remove();
+    this.editor.setModel(null);
+    [...this.bindings.keys()].forEach((id) => this.unbind(id));
+    this.projectListeners.clear();
+    this.doc.destroy();
+  }
+
+  // Empty until the first sync, so callers can tell a new room from one still loading
+  isSynced(): boolean {
+    return this.synced;
+  }
+
+  getFiles(): ProjectFile[] {
+    return getProjectFiles(this.doc);
+  }
+
+  getFolders(): string[] {
+    return getProjectFolders(this.doc);
+  }
+
+  // Called for any change to the file list, a path or a language, whoever made it
+  onProjectChange(listener: () => void): () => void {
+    this.projectListeners.add(listener);
+    return () => {
+      this.projectListeners.delete(listener);
+    };
+  }
+
+  // The registry decides how files are highlighted and what new ones start with
+  setLanguages(languages: LanguageInfo[]) {
+    this.languages = languages;
+    this.handleProjectChange();
+  }
+
+  // Shows a file in the editor, or nothing
+  openFile(id: string | null) {
+    if (id === this.activeFileId && (id === null || this.bindings.has(id))) return;
+    this.activeFileId = id;
+    const binding = id === null ? null : this.bind(id);
+    this.editor.setModel(binding?.model ?? null);
+    this.renderRemoteSelections();
+    this.scheduleCursor();
+  }
+
+  // The changes below return false for read-only users and for paths already taken
+  createFile(path: string): string | null {
+    if (this.readOnly) return null;
+    let id: string | null = null;
+    this.doc.transact(() => {
+      id = createFile(this.doc, path, this.languages);
+    }, LOCAL_ORIGIN);
+    return id;
+  }
+
+  createFolder(path: string): boolean {
+    return this.change(() => createFolder(this.doc, path));
+  }
+
+  renamePath(from: string, to: string): boolean {
+    return this.change(() => renamePath(this.doc, from, to, this.languages));
+  }
+
+  deletePath(path: string): boolean {
+    return this.change(() => {
+      deletePath(this.doc, path);
+      return true;
+    });
+  }
+
+  setFileLanguage(id: string, language: string): boolean {
+    return this.change(() => {
+      setFileLanguage(this.doc, id, language);
+      return true;
+    });
+  }
+
+  private change(apply: () => boolean): boolean {
+    if (this.readOnly) return false;
+    let changed = false;
+    this.doc.transact(() => {
+      changed = apply();
+    }, LOCAL_ORIGIN);
+    return changed;
+  }
+
+  private activeBinding(): FileBinding | undefined {
+    return this.activeFileId === null ? undefined : this.bindings.get(this.activeFileId);
+  }
+
+  private bind(id: string): FileBinding | null {
+    const existing = this.bindings.get(id);
+    if (existing) return existing;
+    const text = getFileText(this.doc, id);
+    const file = this.getFiles().find((f) => f.id === id);
+    if (!text || !file) return null;
+
+    const model = this.monaco.editor.createModel(text.toString(), findLanguage(this.languages, file.language).monacoId);
+    const observer = (event: Y.YTextEvent, transaction: Y.Transaction) => {
+      if (transaction.origin !== LOCAL_ORIGIN) this.applyRemoteDelta(model, event);
+    };
+    text.observe(observer);
+    const binding: FileBinding = {
+      text,
+      model,
+      undoManager: new Y.UndoManager(text, { trackedOrigins: new Set([LOCAL_ORIGIN]) }),
+      observer,
+    };
+    this.bindings.set(id, binding);
+    return binding;
+  }
+
+  private unbind(id: string) {
+    const binding = this.bindings.get(id);
+    if (!binding) return;
+    binding.text.unobserve(binding.observer);
+    binding.undoManager.destroy();
+    binding.model.dispose();
+    this.bindings.delete(id);
+  }
+
+  private notifyProjectChange() {
+    this.projectListeners.forEach((listener) => listener());
+  }
+
+  // Keeps open models in step with renames, language changes and deletes
+  private handleProjectChange = () => {
+    const files = new Map(this.getFiles().map((file) => [file.id, file]));
+    [...this.bindings.entries()].forEach(([id, binding]) => {
+      const file = files.get(id);
+      if (!file) {
+        if (id === this.activeFileId) this.openFile(null);
+        this.unbind(id);
+      } else {
+        const { monacoId } = findLanguage(this.languages, file.language);
+        if (binding.model.getLanguageId() !== monacoId) this.monaco.editor.setModelLanguage(binding.model, monacoId);
+      }
+    });
+    this.notifyProjectChange();
+  };
+
+  private requestSync() {
+    const stateVector = toBase64(Y.encodeStateVector(this.doc));
+    this.connection.send({ type: "code_sync", roomId: this.roomId, stateVector }, "code_sync");
+  }
+
+  // Offline updates are dropped rather than queued; the sync after reconnecting sends them all at once
+  private handleDocUpdate = (update: Uint8Array, origin: unknown) => {
+    if (origin === REMOTE_ORIGIN || this.readOnly) return;
+    this.connection.sendVolatile({ type: "code_update", roomId: this.roomId, update: toBase64(update) });
+  };
+
+  private handleModelChange = (event: editor.IModelContentChangedEvent) => {
+    const binding = this.activeBinding();
+    if (this.applyingRemote || !binding) return;
+    // Offsets in one event all refer to the text before it, so apply from the end
+    const changes = [...event.changes].sort((a, b) => b.rangeOffset - a.rangeOffset);
+    this.doc.transact(() => {
+      changes.forEach((change) => {
+        if (change.rangeLength > 0) binding.text.delete(change.rangeOffset, change.rangeLength);
+        if (change.text) binding.text.insert(change.rangeOffset, change.text);
+      });
+    }, LOCAL_ORIGIN);
+  };
+
+  // Remote edits and undo/redo reach Monaco here, without touching its own undo stack
+  private applyRemoteDelta(model: editor.ITextModel, event: Y.YTextEvent) {
+    this.applyingRemote = true;
+    try {
+      let index = 0;
+      event.delta.forEach((op) => {
+        if (op.retain !== undefined) {
+          index += op.retain;
+        } else if (typeof op.insert === "string") {
+          const position = model.getPositionAt(index);
+          model.applyEdits([{ range: this.monaco.Range.fromPositions(position), text: op.insert }]);
+          index += op.insert.length;
+        } else if (op.delete !== undefined) {
+          const start = model.getPositionAt(index);
+          const end = model.getPositionAt(index + op.delete);
+          model.applyEdits([{ range: this.monaco.Range.fromPositions(start, end), text: "" }]);
+        }
+      });
+    } finally {
+      this.applyingRemote = false;
+    }
+    if (model === this.activeBinding()?.model) this.renderRemoteSelections();
+  }
+
+  private scheduleCursor() {
+    if (this.cursorTimer) return;
+    this.cursorTimer = setTimeout(() => {
+      this.cursorTimer = null;
+      this.sendCursor();
+    }, CURSOR_THROTTLE_MS);
+  }
+
+  // Positions are relative to the open file's text, so others only see the cursor in that file
+  private sendCursor() {
+    const binding = this.activeBinding();
+    const selection = binding ? this.editor.getSelection() : null;
+    const encode = (lineNumber: number, column: number) => {
+      const index = binding!.model.getOffsetAt({ lineNumber, column });
+      return toBase64(Y.encodeRelativePosition(Y.createRelativePositionFromTypeIndex(binding!.text, index)));
+    };
+
+    this.connection.sendVolatile({
+      type: "code_cursor",
+      roomId: this.roomId,
+      selection: selection && {
+        anchor: encode(selection.selectionStartLineNumber, selection.selectionStartColumn),
+        head: encode(selection.positionLineNumber, selection.positionColumn),
+      },
+    });
+  }
+
+  private renderRemoteSelections() {
+    const binding = this.activeBinding();
+    const decorations: editor.IModelDeltaDecoration[] = [];
+    const styles: string[] = [];
+
+    this.remoteSelections.forEach(({ name, anchor, head }, userId) => {
+      if (!binding) return;
+      const anchorPosition = Y.createAbsolutePositionFromRelativePosition(anchor, this.doc);
+      const headPosition = Y.createAbsolutePositionFromRelativePosition(head, this.doc);
+      // Someone in another file
+      if (!anchorPosition || !headPosition || headPosition.type !== binding.text) return;
+
+      const key = cssKey(userId);
+      const color = getUserColor(userId);
+      const start = binding.model.getPositionAt(anchorPosition.index);
+      const end = binding.model.getPositionAt(headPosition.index);
+
+      if (anchorPosition.index !== headPosition.index) {
+        decorations.push({
+          range: this.monaco.Range.fromPositions(start, end),
+          options: { className: `remote-selection-${key}` },
+        });
+      }
+      decorations.push({
+        range: this.monaco.Range.fromPositions(end),
+        options: {
+          beforeContentClassName: `remote-cursor remote-cursor-${key}`,
+          hoverMessage: { value: name },
+          stickiness: this.monaco.editor.TrackedRangeStickiness.NeverGrowsWhenTypingAtEdges,
+        },
+      });
+      styles.push(
+        `.remote-selection-${key} { background-color: ${color}33; }`,
+        `.remote-cursor-${key} { border-left: 2px solid ${color}; }`,
+        `.remote-cursor-${key}::after { content: ${cssString(name)}; background-color: ${color}; }`
+      );
+    });
+
+    this.styleElement.textContent = [
+      ".remote-cursor { position: absolute; height: 100%; margin-left: -1px; }",
+      ".remote-cursor::after { position: absolute; top: -1.3em; left: -2px; padding: 0 4px; border-radius: 3px; color: white; font-size: 10px; line-height: 1.3em; white-space: nowrap; pointer-events: none; z-index: 10; }",
+      ...styles,
+    ].join("\n");
+    this.decorations.set(decorations);
+  }
+}
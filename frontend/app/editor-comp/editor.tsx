@@ -1,167 +1,207 @@
 import React, { useEffect, useRef, useState } from "react";
-import Editor from "@monaco-editor/react";
+import Editor, { Monaco } from "@monaco-editor/react";
 import { editor } from 'monaco-editor';
+import { RoomConnection } from "@/lib/connection";
+import { findLanguage, getLanguages, LanguageInfo, PLAIN_TEXT } from "@/lib/languages";
+import { CodeCollaboration } from "./collab";
+import { EditorTabs, FileTree } from "./files";
+import { InterviewPanel } from "./interview";
+import { RunOutput } from "./output";
+import { ProjectFile } from "./project";
 
 
 interface MonacoEditorProps {
   roomId: string;
-  socket: WebSocket;
-  language: "javascript" | "python" | "cpp";
-  onLanguageChange: (lang: "javascript" | "python" | "cpp") => void;
+  connection: RoomConnection;
+  readOnly?: boolean;
+  // Whether this user runs the room's interview
+  isInterviewer?: boolean;
 }
 
 export const MonacoEditor: React.FC<MonacoEditorProps> = ({
   roomId,
-  socket,
-  language,
-  onLanguageChange,
+  connection,
+  readOnly = false,
+  isInterviewer = false,
 }) => {
-  const editorRef = useRef<editor.IStandaloneCodeEditor | null>(null);
-  const [output, setOutput] = useState<string>("");
-  const isLocalChange = useRef<boolean>(false);
+  const collaborationRef = useRef<CodeCollaboration | null>(null);
+  const [languages, setLanguages] = useState<LanguageInfo[]>([PLAIN_TEXT]);
+  // Monaco can finish loading before or after the registry does
+  const languagesRef = useRef(languages);
+  const [files, setFiles] = useState<ProjectFile[]>([]);
+  const [folders, setFolders] = useState<string[]>([]);
+  // Tabs are this user's own; the files in them are the room's
+  const [openFileIds, setOpenFileIds] = useState<string[]>([]);
+  const [activeFileId, setActiveFileId] = useState<string | null>(null);
+  const [stdin, setStdin] = useState("");
+  const [runError, setRunError] = useState<string | null>(null);
 
-  const languages = [
-    { id: "javascript", label: "JavaScript" },
-    { id: "python", label: "Python" },
-    { id: "cpp", label: "C++" }
-  ] as const;
-
-  // Get default code based on language
-  const getDefaultCode = (lang: string): string => {
-    switch (lang) {
-      case "javascript":
-        return 'console.log("Hello, World!");';
-      case "python":
-        return 'print("Hello, World!")';
-      case "cpp":
-        return '#include <iostream>\n\nint main() {\n    std::cout << "Hello, World!" << std::endl;\n    return 0;\n}';
-      default:
-        return "";
-    }
-  };
-
-  // Handle editor mount
-  const handleEditorDidMount = (editor: editor.IStandaloneCodeEditor) => {
-    editorRef.current = editor;
-    
-    editor.onDidChangeModelContent(() => {
-      const code = editor.getValue();
-      if (code !== undefined && !isLocalChange.current) {
-        socket.send(
-          JSON.stringify({
-            type: "code_change",
-            code,
-            roomId,
-          })
-        );
-      }
-      isLocalChange.current = false;
+  // The project is shared through a Yjs document, so there's no template to start from
+  const handleEditorDidMount = (editor: editor.IStandaloneCodeEditor, monaco: Monaco) => {
+    collaborationRef.current?.destroy();
+    const collaboration = new CodeCollaboration(editor, monaco, connection, roomId, readOnly);
+    collaborationRef.current = collaboration;
+    collaboration.setLanguages(languagesRef.current);
+    collaboration.onProjectChange(() => {
+      setFiles(collaboration.getFiles());
+      setFolders(collaboration.getFolders());
     });
   };
 
-  // Handle WebSocket messages
   useEffect(() => {
-    const handleMessage = (event: MessageEvent) => {
-      const message = JSON.parse(event.data);
-      if (message.type === "code_change" && message.roomId === roomId) {
-        const code = message.code;
-        if (editorRef.current && code !== editorRef.current.getValue()) {
-          isLocalChange.current = true;
-          editorRef.current.setValue(code);
-        }
-      }     
+    let cancelled = false;
+    getLanguages().then((loaded) => {
+      if (cancelled) return;
+      languagesRef.current = loaded;
+      setLanguages(loaded);
+      collaborationRef.current?.setLanguages(loaded);
+    });
+    return () => {
+      cancelled = true;
     };
+  }, []);
 
-    socket.addEventListener("message", handleMessage);
-
+  useEffect(() => {
     return () => {
-      socket.removeEventListener("message", handleMessage);
+      collaborationRef.current?.destroy();
+      collaborationRef.current = null;
     };
-  }, [roomId, socket]);
+  }, []);
+
+  // Tabs of deleted files close; with nothing open, the first file opens
+  useEffect(() => {
+    if (files.length === 0) return;
+    const remaining = openFileIds.filter((id) => files.some((file) => file.id === id));
+    if (remaining.length === 0) remaining.push(files[0].id);
+    if (remaining.length !== openFileIds.length || remaining.some((id, i) => id !== openFileIds[i])) {
+      setOpenFileIds(remaining);
+    }
+    if (activeFileId === null || !remaining.includes(activeFileId)) setActiveFileId(remaining[0]);
+  }, [files, openFileIds, activeFileId]);
 
-  // Execute code using Piston API
-  const runCode = async () => {
-    const code = editorRef.current?.getValue();
-    if (!code) return;
+  useEffect(() => {
+    collaborationRef.current?.openFile(activeFileId);
+  }, [activeFileId, files]);
 
-    const languageMap = {
-      javascript: { id: "js", version: "18.15.0" },
-      python: { id: "python", version: "3.10.0" },
-      cpp: { id: "cpp", version: "10.2.0" },
-    };
+  const openFile = (id: string) => {
+    setOpenFileIds((ids) => (ids.includes(id) ? ids : [...ids, id]));
+    setActiveFileId(id);
+  };
 
-    const langConfig = languageMap[language];
+  const closeFile = (id: string) => {
+    const index = openFileIds.indexOf(id);
+    const remaining = openFileIds.filter((openId) => openId !== id);
+    setOpenFileIds(remaining);
+    if (id === activeFileId) setActiveFileId(remaining[Math.min(index, remaining.length - 1)] ?? null);
+  };
 
-    try {
-      setOutput("Running code...");
-      const response = await fetch("https://emkc.org/api/v2/piston/execute", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          language: langConfig.id,
-          version: langConfig.version,
-          files: [
-            {
-              content: code,
-            },
-          ],
-        }),
-      });
+  const activeFile = files.find((file) => file.id === activeFileId);
+  const activeLanguage = activeFile ? findLanguage(languages, activeFile.language) : null;
+  // A file can be set to a language this server doesn't list, which stays selectable
+  const languageOptions =
+    activeLanguage && !languages.includes(activeLanguage) ? [...languages, activeLanguage] : languages;
+  const openFiles = openFileIds
+    .map((id) => files.find((file) => file.id === id))
+    .filter((file): file is ProjectFile => !!file);
 
-      const data = await response.json();
-      if (data.run) {
-        setOutput(
-          `${data.run.stdout || ""}${data.run.stderr ? "\nError: " + data.run.stderr : ""}`
-        );
-      } else {
-        setOutput("Error: Unable to execute code.");
-      }
-    } catch (error) {
-      setOutput("Error: Failed to execute code. Please try again.");
-      console.error(error);
-    }
+  // Runs the room's project as it is on the server, starting from the open file, so everyone sees the same run
+  const runCode = () => {
+    if (!activeFile) return;
+    const sent = connection.sendVolatile({ type: "code_run", roomId, fileId: activeFile.id, stdin });
+    setRunError(sent ? null : "You're offline; reconnect to run code.");
   };
 
+  const taken = "Something with that name already exists";
+
   return (
     <div className="h-full flex flex-col overflow-hidden">
       <div className="bg-[#1e1e1e] p-2 flex justify-between items-center">
         <div className="flex items-center space-x-4">
           <span className="text-white text-sm">Code Editor</span>
-          <select value={language} onChange={(e) => onLanguageChange(e.target.value as "javascript" | "python" | "cpp")} className="bg-[#2d2d2d] text-white text-sm px-2 py-1 rounded border border-[#3d3d3d] focus:outline-none focus:border-[#007acc] cursor-pointer">
-            {languages.map((lang) => (
-              <option key={lang.id} value={lang.id}>
-                {lang.label}
-              </option>
-            ))}
-          </select>
+          {activeFile && (
+            <select
+              value={activeFile.language}
+              disabled={readOnly}
+              onChange={(e) => collaborationRef.current?.setFileLanguage(activeFile.id, e.target.value)}
+              title="Language of this file, for everyone in the room"
+              className="bg-[#2d2d2d] text-white text-sm px-2 py-1 rounded border border-[#3d3d3d] focus:outline-none focus:border-[#007acc] cursor-pointer"
+            >
+              {languageOptions.map((language) => (
+                <option key={language.id} value={language.id}>
+                  {language.label}
+                </option>
+              ))}
+            </select>
+          )}
+        </div>
+        <div className="flex items-center space-x-3">
+          {runError && <span className="text-amber-400 text-xs">{runError}</span>}
+          <button
+            onClick={runCode}
+            disabled={readOnly || !activeFile || !activeLanguage?.version}
+            title={
+              readOnly
+                ? "You can only view this room"
+                : activeFile && activeLanguage
+                  ? activeLanguage.version
+                    ? `Run ${activeFile.path} with ${activeLanguage.version}`
+                    : `${activeLanguage.label} can't be run here`
+                  : undefined
+            }
+            className="px-4 py-1.5 bg-[#007acc] text-white rounded hover:bg-[#005999] transition-colors disabled:opacity-60"
+          >
+            Run Code
+          </button>
         </div>
-        <button onClick={runCode} className="px-4 py-1.5 bg-[#007acc] text-white rounded hover:bg-[#005999] transition-colors">Run Code</button>
-      </div>
-      <div className="flex-grow min-h-0">
-        <Editor
-          height="100%"
-          defaultValue={getDefaultCode(language)}
-          language={language}
-          theme="vs-dark"
-          options={{
-            minimap: { enabled: false },
-            fontSize: 14,
-            scrollBeyondLastLine: false,
-            lineNumbers: "on",
-            roundedSelection: true,
-            automaticLayout: true,
-          }}
-          onMount={handleEditorDidMount}
-        />
       </div>
-      <div className="h-48 bg-[#1e1e1e] text-white p-2 font-mono text-sm">
-        <div className="mb-2 text-gray-400">Output:</div>
-        <div className="whitespace-pre-wrap overflow-y-auto max-h-36">
-          {output}
+      <InterviewPanel
+        roomId={roomId}
+        connection={connection}
+        isInterviewer={isInterviewer}
+        activeFile={activeFile}
+        languages={languages}
+      />
+      <div className="flex-grow min-h-0 flex">
+        <div className="w-40 shrink-0 border-r border-[#1e1e1e]">
+          <FileTree
+            files={files}
+            folders={folders}
+            activeFileId={activeFileId}
+            readOnly={readOnly}
+            onOpen={openFile}
+            onCreateFile={(path) => {
+              const id = collaborationRef.current?.createFile(path);
+              if (!id) return taken;
+              openFile(id);
+              return null;
+            }}
+            onCreateFolder={(path) => (collaborationRef.current?.createFolder(path) ? null : taken)}
+            onRename={(from, to) => (collaborationRef.current?.renamePath(from, to) ? null : taken)}
+            onDelete={(path) => collaborationRef.current?.deletePath(path)}
+          />
+        </div>
+        <div className="flex-1 min-w-0 flex flex-col">
+          <EditorTabs files={openFiles} activeFileId={activeFileId} onSelect={setActiveFileId} onClose={closeFile} />
+          <div className="flex-1 min-h-0">
+            <Editor
+              height="100%"
+              theme="vs-dark"
+              // The models are the project's files, which CodeCollaboration owns and disposes
+              keepCurrentModel
+              options={{
+                minimap: { enabled: false },
+                fontSize: 14,
+                scrollBeyondLastLine: false,
+                lineNumbers: "on",
+                roundedSelection: true,
+                automaticLayout: true,
+              }}
+              onMount={handleEditorDidMount}
+            />
+          </div>
         </div>
       </div>
+      <RunOutput roomId={roomId} connection={connection} languages={languages} stdin={stdin} onStdinChange={setStdin} />
     </div>
   );
-};
\ No newline at end of file
+};
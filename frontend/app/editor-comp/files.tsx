@@ -0,0 +1,247 @@
+import React, { useState } from "react";
+import { ChevronDown, ChevronRight, FilePlus, FileText, Folder, FolderPlus, Pencil, Trash2, X } from "lucide-react";
+import { baseName, normalizePath, parentFolder, ProjectFile } from "./project";
+
+// A name being typed in the tree: a new file or folder inside a folder, or a new path for an entry
+type Draft =
+  | { type: "file" | "folder"; folder: string }
+  | { type: "rename"; path: string };
+
+function NameInput({
+  initial,
+  depth,
+  onSubmit,
+  onCancel,
+}: {
+  initial: string;
+  depth: number;
+  onSubmit: (value: string) => void;
+  onCancel: () => void;
+}) {
+  const [value, setValue] = useState(initial);
+
+  return (
+    <input
+      autoFocus
+      value={value}
+      onChange={(e) => setValue(e.target.value)}
+      onBlur={onCancel}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") onSubmit(value);
+        if (e.key === "Escape") onCancel();
+      }}
+      style={{ marginLeft: depth * 12 + 8 }}
+      className="w-[calc(100%-16px)] my-0.5 bg-[#3c3c3c] text-white text-xs px-1.5 py-0.5 rounded border border-[#007acc] focus:outline-none"
+    />
+  );
+}
+
+interface FileTreeProps {
+  files: ProjectFile[];
+  folders: string[];
+  activeFileId: string | null;
+  readOnly: boolean;
+  onOpen: (id: string) => void;
+  onCreateFile: (path: string) => string | null;
+  onCreateFolder: (path: string) => string | null;
+  onRename: (from: string, to: string) => string | null;
+  onDelete: (path: string) => void;
+}
+
+// The room's files and folders. The create and rename callbacks return an error to
+// show, or null when they worked.
+export const FileTree: React.FC<FileTreeProps> = ({
+  files,
+  folders,
+  activeFileId,
+  readOnly,
+  onOpen,
+  onCreateFile,
+  onCreateFolder,
+  onRename,
+  onDelete,
+}) => {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // New entries go next to the open file
+  const activePath = files.find((file) => file.id === activeFileId)?.path;
+  const currentFolder = activePath ? parentFolder(activePath) : "";
+
+  const submitDraft = (value: string) => {
+    if (!draft) return;
+    const typed = draft.type === "rename" ? value : [draft.folder, value].filter(Boolean).join("/");
+    const path = normalizePath(typed);
+    if (!path) {
+      setError("Use letters, numbers, spaces, dots, dashes and underscores");
+      return;
+    }
+    const failure =
+      draft.type === "rename" ? onRename(draft.path, path) : draft.type === "file" ? onCreateFile(path) : onCreateFolder(path);
+    setError(failure);
+    if (!failure) setDraft(null);
+  };
+
+  const cancelDraft = () => {
+    setDraft(null);
+    setError(null);
+  };
+
+  // Opens the folder a new entry goes into, so its name box can be seen
+  const startCreating = (type: "file" | "folder") => {
+    setError(null);
+    setDraft({ type, folder: currentFolder });
+    setCollapsed((current) => new Set([...current].filter((f) => f !== currentFolder && !currentFolder.startsWith(`${f}/`))));
+  };
+
+  const toggle = (folder: string) => {
+    setCollapsed((current) => {
+      const next = new Set(current);
+      if (next.has(folder)) next.delete(folder);
+      else next.add(folder);
+      return next;
+    });
+  };
+
+  const renderActions = (path: string) =>
+    !readOnly && (
+      <span className="hidden group-hover:flex items-center gap-1 shrink-0">
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            setError(null);
+            setDraft({ type: "rename", path });
+          }}
+          title="Rename or move"
+          className="text-gray-400 hover:text-white"
+        >
+          <Pencil className="w-3 h-3" />
+        </button>
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            if (window.confirm(`Delete ${path} for everyone in the room?`)) onDelete(path);
+          }}
+          title="Delete"
+          className="text-gray-400 hover:text-red-400"
+        >
+          <Trash2 className="w-3 h-3" />
+        </button>
+      </span>
+    );
+
+  const renderDraft = (folder: string, depth: number) =>
+    draft &&
+    draft.type !== "rename" &&
+    draft.folder === folder && (
+      <NameInput initial="" depth={depth} onSubmit={submitDraft} onCancel={cancelDraft} />
+    );
+
+  const renderFolder = (folder: string, depth: number): React.ReactNode => {
+    const childFolders = folders.filter((f) => parentFolder(f) === folder);
+    const childFiles = files.filter((f) => parentFolder(f.path) === folder);
+
+    return (
+      <>
+        {renderDraft(folder, depth)}
+        {childFolders.map((path) =>
+          draft?.type === "rename" && draft.path === path ? (
+            <NameInput key={path} initial={path} depth={depth} onSubmit={submitDraft} onCancel={cancelDraft} />
+          ) : (
+            <React.Fragment key={path}>
+              <div
+                onClick={() => toggle(path)}
+                style={{ paddingLeft: depth * 12 + 8 }}
+                className="group flex items-center gap-1 pr-2 py-0.5 cursor-pointer text-gray-300 hover:bg-[#2a2d2e]"
+              >
+                {collapsed.has(path) ? <ChevronRight className="w-3 h-3 shrink-0" /> : <ChevronDown className="w-3 h-3 shrink-0" />}
+                <Folder className="w-3.5 h-3.5 shrink-0 text-[#dcb67a]" />
+                <span className="flex-1 truncate">{baseName(path)}</span>
+                {renderActions(path)}
+              </div>
+              {!collapsed.has(path) && renderFolder(path, depth + 1)}
+            </React.Fragment>
+          )
+        )}
+        {childFiles.map((file) =>
+          draft?.type === "rename" && draft.path === file.path ? (
+            <NameInput key={file.id} initial={file.path} depth={depth} onSubmit={submitDraft} onCancel={cancelDraft} />
+          ) : (
+            <div
+              key={file.id}
+              onClick={() => onOpen(file.id)}
+              style={{ paddingLeft: depth * 12 + 20 }}
+              className={`group flex items-center gap-1 pr-2 py-0.5 cursor-pointer hover:bg-[#2a2d2e] ${
+                file.id === activeFileId ? "bg-[#37373d] text-white" : "text-gray-300"
+              }`}
+            >
+              <FileText className="w-3.5 h-3.5 shrink-0 text-gray-400" />
+              <span className="flex-1 truncate">{baseName(file.path)}</span>
+              {renderActions(file.path)}
+            </div>
+          )
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className="h-full flex flex-col bg-[#252526] text-xs select-none">
+      <div className="flex items-center justify-between px-2 py-1.5 text-gray-400 uppercase tracking-wide text-[10px]">
+        <span>Files</span>
+        {!readOnly && (
+          <span className="flex items-center gap-1">
+            <button
+              onClick={() => startCreating("file")}
+              title="New file"
+              className="hover:text-white"
+            >
+              <FilePlus className="w-3.5 h-3.5" />
+            </button>
+            <button
+              onClick={() => startCreating("folder")}
+              title="New folder"
+              className="hover:text-white"
+            >
+              <FolderPlus className="w-3.5 h-3.5" />
+            </button>
+          </span>
+        )}
+      </div>
+      <div className="flex-1 overflow-y-auto">{renderFolder("", 0)}</div>
+      {error && <p className="px-2 py-1 text-amber-400">{error}</p>}
+    </div>
+  );
+};
+
+export const EditorTabs: React.FC<{
+  files: ProjectFile[];
+  activeFileId: string | null;
+  onSelect: (id: string) => void;
+  onClose: (id: string) => void;
+}> = ({ files, activeFileId, onSelect, onClose }) => (
+  <div className="flex bg-[#252526] overflow-x-auto shrink-0">
+    {files.map((file) => (
+      <div
+        key={file.id}
+        onClick={() => onSelect(file.id)}
+        title={file.path}
+        className={`group flex items-center gap-2 pl-3 pr-1 py-1.5 text-xs cursor-pointer border-r border-[#1e1e1e] ${
+          file.id === activeFileId ? "bg-[#1e1e1e] text-white" : "text-gray-400 hover:text-gray-200"
+        }`}
+      >
+        <span className="whitespace-nowrap">{baseName(file.path)}</span>
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onClose(file.id);
+          }}
+          className={`p-0.5 rounded hover:bg-[#3d3d3d] ${file.id === activeFileId ? "" : "invisible group-hover:visible"}`}
+        >
+          <X className="w-3 h-3" />
+        </button>
+      </div>
+    ))}
+  </div>
+);
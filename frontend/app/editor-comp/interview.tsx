@@ -0,0 +1,384 @@
+import React, { useEffect, useState } from "react";
+import { AlertTriangle, CheckCircle2, ChevronDown, ChevronRight, Clock, Loader2, Plus, Trash2, XCircle } from "lucide-react";
+import { RoomConnection } from "@/lib/connection";
+import { describeReport, getInterviewProblem, getInterviewReports, upsertInterviewReport } from "@/lib/interview";
+import { findLanguage, LanguageInfo } from "@/lib/languages";
+import { InterviewProblem, InterviewProblemInput, InterviewReport, InterviewResult } from "@/lib/protocol";
+import { ProjectFile } from "./project";
+
+const inputClass =
+  "w-full bg-[#2d2d2d] text-white text-xs p-1.5 rounded border border-[#3d3d3d] focus:outline-none focus:border-[#007acc]";
+const buttonClass = "text-xs px-2 py-1 rounded border border-[#3d3d3d] hover:bg-[#2d2d2d] disabled:opacity-50";
+
+function Block({ label, text }: { label: string; text: string }) {
+  return (
+    <div className="min-w-0 flex-1">
+      <div className="text-gray-500 mb-0.5">{label}</div>
+      <pre className="bg-[#2d2d2d] rounded p-1.5 whitespace-pre-wrap break-words max-h-32 overflow-y-auto">{text || " "}</pre>
+    </div>
+  );
+}
+
+// What candidates see: the statement and the visible tests as examples
+function ProblemView({ problem }: { problem: InterviewProblem }) {
+  return (
+    <div className="space-y-2">
+      <div className="text-sm font-semibold">{problem.title}</div>
+      {problem.description && <p className="whitespace-pre-wrap text-gray-300">{problem.description}</p>}
+      {problem.tests.map((test, i) => (
+        <div key={test.id}>
+          <div className="text-gray-400 mb-0.5">
+            Test {i + 1}
+            {test.hidden && <span className="ml-1 text-amber-400">(hidden)</span>}
+          </div>
+          <div className="flex gap-2">
+            <Block label="Input" text={test.input} />
+            <Block label="Expected output" text={test.expectedOutput} />
+          </div>
+        </div>
+      ))}
+      {problem.hiddenTestCount > 0 && (
+        <p className="text-gray-500">Plus {problem.hiddenTestCount} hidden test{problem.hiddenTestCount === 1 ? "" : "s"}.</p>
+      )}
+    </div>
+  );
+}
+
+function ProblemForm({
+  initial,
+  onSave,
+  onCancel,
+}: {
+  initial: InterviewProblem | null;
+  onSave: (problem: InterviewProblemInput) => void;
+  onCancel?: () => void;
+}) {
+  const [title, setTitle] = useState(initial?.title ?? "");
+  const [description, setDescription] = useState(initial?.description ?? "");
+  const [tests, setTests] = useState<InterviewProblemInput["tests"]>(
+    initial?.tests.map(({ input, expectedOutput, hidden }) => ({ input, expectedOutput, hidden })) ?? []
+  );
+
+  const updateTest = (index: number, change: Partial<InterviewProblemInput["tests"][number]>) => {
+    setTests((current) => current.map((test, i) => (i === index ? { ...test, ...change } : test)));
+  };
+
+  return (
+    <div className="space-y-2">
+      <input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Problem title" className={inputClass} />
+      <textarea
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        placeholder="Problem statement, shown to everyone in the room"
+        rows={4}
+        className={`${inputClass} resize-y`}
+      />
+      {tests.map((test, i) => (
+        <div key={i} className="space-y-1">
+          <div className="flex items-center justify-between text-gray-400">
+            <span>Test {i + 1}</span>
+            <span className="flex items-center gap-2">
+              <label className="flex items-center gap-1 cursor-pointer" title="Hidden tests are only shown to you">
+                <input type="checkbox" checked={test.hidden} onChange={(e) => updateTest(i, { hidden: e.target.checked })} />
+                Hidden
+              </label>
+              <button
+                onClick={() => setTests((current) => current.filter((_, j) => j !== i))}
+                title="Remove test"
+                className="hover:text-red-400"
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </span>
+          </div>
+          <div className="flex gap-2">
+            <textarea
+              value={test.input}
+              onChange={(e) => updateTest(i, { input: e.target.value })}
+              placeholder="Input"
+              rows={2}
+              className={`${inputClass} font-mono resize-y`}
+            />
+            <textarea
+              value={test.expectedOutput}
+              onChange={(e) => updateTest(i, { expectedOutput: e.target.value })}
+              placeholder="Expected output"
+              rows={2}
+              className={`${inputClass} font-mono resize-y`}
+            />
+          </div>
+        </div>
+      ))}
+      <div className="flex items-center justify-between">
+        <button
+          onClick={() => setTests((current) => [...current, { input: "", expectedOutput: "", hidden: false }])}
+          className={`${buttonClass} flex items-center gap-1`}
+        >
+          <Plus className="w-3 h-3" /> Add test
+        </button>
+        <span className="flex gap-2">
+          {onCancel && (
+            <button onClick={onCancel} className={buttonClass}>
+              Cancel
+            </button>
+          )}
+          <button
+            onClick={() => onSave({ title: title.trim(), description, tests })}
+            disabled={!title.trim()}
+            className="text-xs px-3 py-1 rounded bg-[#007acc] text-white hover:bg-[#005999] disabled:opacity-50"
+          >
+            Save for the room
+          </button>
+        </span>
+      </div>
+    </div>
+  );
+}
+
+function ResultIcon({ status }: { status: InterviewResult["status"] }) {
+  if (status === "passed") return <CheckCircle2 className="w-3.5 h-3.5 shrink-0 text-green-400" />;
+  if (status === "failed") return <XCircle className="w-3.5 h-3.5 shrink-0 text-red-400" />;
+  if (status === "timeout") return <Clock className="w-3.5 h-3.5 shrink-0 text-amber-400" />;
+  if (status === "error") return <AlertTriangle className="w-3.5 h-3.5 shrink-0 text-red-400" />;
+  return <Loader2 className="w-3.5 h-3.5 shrink-0 text-gray-400 animate-spin" />;
+}
+
+const RESULT_LABELS: Record<InterviewResult["status"], string> = {
+  pending: "Waiting",
+  passed: "Passed",
+  failed: "Wrong output",
+  timeout: "Timed out",
+  error: "Error",
+};
+
+function ReportView({ report, languages }: { report: InterviewReport; languages: LanguageInfo[] }) {
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  return (
+    <div className="space-y-1">
+      <div className="text-gray-400">
+        {report.title} · {report.entry} ({findLanguage(languages, report.language).label}) · judged by {report.name}
+      </div>
+      {report.error && <div className="text-red-400">{report.error}</div>}
+      {report.results.map((result, i) => (
+        <div key={result.testId}>
+          <div
+            onClick={() => setExpanded(expanded === i ? null : i)}
+            className="flex items-center gap-2 px-1 py-0.5 rounded cursor-pointer hover:bg-[#2a2d2e]"
+          >
+            {expanded === i ? <ChevronDown className="w-3 h-3 shrink-0" /> : <ChevronRight className="w-3 h-3 shrink-0" />}
+            <ResultIcon status={result.status} />
+            <span className="flex-1">
+              Test {i + 1}
+              {result.hidden && <span className="ml-1 text-amber-400">(hidden)</span>}
+            </span>
+            <span className="text-gray-400">{RESULT_LABELS[result.status]}</span>
+            {result.durationMs !== null && <span className="w-14 text-right text-gray-500">{result.durationMs} ms</span>}
+          </div>
+          {expanded === i && (
+            <div className="pl-6 py-1 space-y-1">
+              {result.error && <div className="text-red-400">{result.error}</div>}
+              <div className="flex gap-2">
+                <Block label="Input" text={result.input} />
+                <Block label="Expected output" text={result.expectedOutput} />
+              </div>
+              <div className="flex gap-2">
+                <Block label="Output" text={result.output} />
+                {result.stderr && <Block label="Errors" text={result.stderr} />}
+              </div>
+            </div>
+          )}
+        </div>
+      ))}
+      <details className="pt-1">
+        <summary className="cursor-pointer text-gray-400">Code that was judged</summary>
+        {report.files.map((file) => (
+          <Block key={file.path} label={file.path} text={file.content} />
+        ))}
+      </details>
+    </div>
+  );
+}
+
+interface InterviewPanelProps {
+  roomId: string;
+  connection: RoomConnection;
+  // The room's owner sets the problem, sees the hidden tests and judges
+  isInterviewer: boolean;
+  activeFile: ProjectFile | undefined;
+  languages: LanguageInfo[];
+}
+
+// The room's interview problem above the code. Candidates only see it once the
+// interviewer has set one.
+export const InterviewPanel: React.FC<InterviewPanelProps> = ({
+  roomId,
+  connection,
+  isInterviewer,
+  activeFile,
+  languages,
+}) => {
+  const [problem, setProblem] = useState<InterviewProblem | null>(null);
+  const [reports, setReports] = useState<InterviewReport[]>([]);
+  const [open, setOpen] = useState(true);
+  const [tab, setTab] = useState<"problem" | "reports">("problem");
+  const [editing, setEditing] = useState(false);
+  // null follows whichever report is newest
+  const [selectedReportId, setSelectedReportId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = () => {
+      getInterviewProblem(roomId)
+        .then(setProblem)
+        .catch((e) => console.error("Failed to load the interview problem:", e));
+      if (isInterviewer) {
+        getInterviewReports(roomId)
+          .then((history) => setReports((current) => history.reduce(upsertInterviewReport, current)))
+          .catch((e) => console.error("Failed to load interview reports:", e));
+      }
+    };
+    load();
+
+    const unsubscribers = [
+      connection.on("interview_updated", ({ problem }) => setProblem(problem)),
+      connection.on("interview_report_updated", ({ report }) =>
+        setReports((current) => upsertInterviewReport(current, report))
+      ),
+      connection.onResync(load),
+    ];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [connection, roomId, isInterviewer]);
+
+  if (!problem && !isInterviewer) return null;
+
+  const save = (input: InterviewProblemInput) => {
+    const sent = connection.send({ type: "interview_save", roomId, problem: input }, "interview_save");
+    setError(sent ? null : "You're offline; the problem will be saved when you reconnect.");
+    setEditing(false);
+  };
+
+  const remove = () => {
+    if (!window.confirm("Remove the problem and its tests for everyone? Reports are kept.")) return;
+    connection.send({ type: "interview_delete", roomId }, "interview_save");
+  };
+
+  // Judges the room's project as it is on the server, starting from the open file
+  const judge = () => {
+    if (!activeFile) return;
+    const sent = connection.sendVolatile({ type: "interview_judge", roomId, fileId: activeFile.id });
+    setError(sent ? null : "You're offline; reconnect to judge the code.");
+    setSelectedReportId(null);
+  };
+
+  const report = reports.find((r) => r.id === selectedReportId) ?? reports[0];
+  const judging = reports.some((r) => r.status === "running");
+  const activeLanguage = activeFile && findLanguage(languages, activeFile.language);
+  const cantJudge = !problem
+    ? "Save a problem first"
+    : problem.tests.length === 0
+      ? "Add tests to the problem first"
+      : !activeFile || !activeLanguage?.version
+        ? "Open a file that can be run"
+        : judging
+          ? "Judging is already in progress"
+          : null;
+
+  return (
+    <div className="shrink-0 max-h-[50%] flex flex-col bg-[#252526] text-white text-xs border-b border-[#1e1e1e]">
+      <div className="flex items-center gap-2 px-2 py-1.5">
+        <button onClick={() => setOpen((current) => !current)} className="flex items-center gap-1 min-w-0 text-gray-300 hover:text-white">
+          {open ? <ChevronDown className="w-3 h-3 shrink-0" /> : <ChevronRight className="w-3 h-3 shrink-0" />}
+          <span className="uppercase tracking-wide text-[10px] shrink-0">Interview</span>
+          {problem && <span className="truncate">· {problem.title}</span>}
+        </button>
+        {isInterviewer && open && (
+          <span className="ml-auto flex gap-1 shrink-0">
+            {(["problem", "reports"] as const).map((name) => (
+              <button
+                key={name}
+                onClick={() => setTab(name)}
+                className={`px-2 py-0.5 rounded ${tab === name ? "bg-[#37373d] text-white" : "text-gray-400 hover:text-white"}`}
+              >
+                {name === "problem" ? "Problem" : "Reports"}
+              </button>
+            ))}
+          </span>
+        )}
+      </div>
+      {open && (
+        <div className="min-h-0 overflow-y-auto px-2 pb-2">
+          {error && <p className="mb-1 text-amber-400">{error}</p>}
+          {tab === "problem" || !isInterviewer ? (
+            isInterviewer && (editing || !problem) ? (
+              <ProblemForm
+                // A fresh form for every version of the problem, so remote saves show up
+                key={problem?.updatedAt ?? "new"}
+                initial={problem}
+                onSave={save}
+                onCancel={problem ? () => setEditing(false) : undefined}
+              />
+            ) : (
+              problem && (
+                <>
+                  <ProblemView problem={problem} />
+                  {isInterviewer && (
+                    <div className="mt-2 flex gap-2">
+                      <button onClick={() => setEditing(true)} className={buttonClass}>
+                        Edit
+                      </button>
+                      <button onClick={remove} className={`${buttonClass} hover:text-red-400`}>
+                        Remove
+                      </button>
+                    </div>
+                  )}
+                </>
+              )
+            )
+          ) : (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={judge}
+                  disabled={!!cantJudge}
+                  title={cantJudge ?? `Run every test against ${activeFile?.path}`}
+                  className="text-xs px-3 py-1 rounded bg-[#007acc] text-white hover:bg-[#005999] disabled:opacity-50 shrink-0"
+                >
+                  Judge {activeFile ? activeFile.path : "code"}
+                </button>
+                {reports.length > 0 && (
+                  <select
+                    value={selectedReportId ?? ""}
+                    onChange={(e) => setSelectedReportId(e.target.value ? Number(e.target.value) : null)}
+                    className="min-w-0 flex-1 bg-[#2d2d2d] text-white text-xs px-2 py-1 rounded border border-[#3d3d3d] focus:outline-none focus:border-[#007acc] cursor-pointer"
+                  >
+                    <option value="">Latest report</option>
+                    {reports.map((r) => (
+                      <option key={r.id} value={r.id}>
+                        {new Date(r.createdAt).toLocaleString(undefined, {
+                          month: "short",
+                          day: "numeric",
+                          hour: "2-digit",
+                          minute: "2-digit",
+                        })}{" "}
+                        · {describeReport(r)}
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </div>
+              {report ? (
+                <>
+                  <div className="font-semibold">{describeReport(report)}</div>
+                  <ReportView key={report.id} report={report} languages={languages} />
+                </>
+              ) : (
+                <p className="text-gray-500">Judge the code to see how it does on every test, hidden ones included.</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,109 @@
+import React, { useEffect, useRef, useState } from "react";
+import { RoomConnection } from "@/lib/connection";
+import { findLanguage, LanguageInfo } from "@/lib/languages";
+import { CodeRun } from "@/lib/protocol";
+import { appendRunOutput, describeRun, getCodeRuns, upsertCodeRun } from "@/lib/runs";
+
+function runLabel(run: CodeRun, languages: LanguageInfo[]): string {
+  const language = findLanguage(languages, run.language).label;
+  const time = new Date(run.createdAt).toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" });
+  // Runs from before projects have no entry file
+  return `${time} · ${run.name} · ${run.entry ? `${run.entry} (${language})` : language}`;
+}
+
+interface RunOutputProps {
+  roomId: string;
+  connection: RoomConnection;
+  languages: LanguageInfo[];
+  stdin: string;
+  onStdinChange: (stdin: string) => void;
+}
+
+// The room's runs as everyone sees them: the latest one streams in live, and
+// earlier ones can be picked from the history
+export const RunOutput: React.FC<RunOutputProps> = ({ roomId, connection, languages, stdin, onStdinChange }) => {
+  const [runs, setRuns] = useState<CodeRun[]>([]);
+  // null follows whichever run is newest
+  const [selectedRunId, setSelectedRunId] = useState<number | null>(null);
+  const [showInput, setShowInput] = useState(false);
+  const outputRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    // Output streamed while we were offline is only in the stored history
+    const load = () => {
+      getCodeRuns(roomId)
+        .then((history) => setRuns((current) => history.reduce(upsertCodeRun, current)))
+        .catch((e) => console.error("Failed to load runs:", e));
+    };
+    load();
+
+    const unsubscribers = [
+      connection.on("code_run_updated", ({ run }) => setRuns((current) => upsertCodeRun(current, run))),
+      connection.on("code_run_output", ({ runId, stream, data }) =>
+        setRuns((current) => appendRunOutput(current, runId, { stream, text: data }))
+      ),
+      connection.onResync(load),
+    ];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [connection, roomId]);
+
+  const run = runs.find((r) => r.id === selectedRunId) ?? runs[0];
+
+  // Keep the newest output in view while it streams
+  useEffect(() => {
+    const element = outputRef.current;
+    if (element) element.scrollTop = element.scrollHeight;
+  }, [run?.output]);
+
+  return (
+    <div className="h-48 bg-[#1e1e1e] text-white p-2 font-mono text-sm flex flex-col">
+      <div className="mb-2 flex items-center justify-between gap-2 text-gray-400">
+        <div className="flex items-center gap-2 min-w-0">
+          <span>Output:</span>
+          {run && <span className="truncate">{describeRun(run)}</span>}
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          {runs.length > 0 && (
+            <select
+              value={selectedRunId ?? ""}
+              onChange={(e) => setSelectedRunId(e.target.value ? Number(e.target.value) : null)}
+              className="bg-[#2d2d2d] text-white text-xs px-2 py-1 rounded border border-[#3d3d3d] focus:outline-none focus:border-[#007acc] cursor-pointer"
+            >
+              <option value="">Latest run</option>
+              {runs.map((r) => (
+                <option key={r.id} value={r.id}>
+                  {runLabel(r, languages)}
+                </option>
+              ))}
+            </select>
+          )}
+          <button
+            onClick={() => setShowInput((show) => !show)}
+            className={`text-xs px-2 py-1 rounded border border-[#3d3d3d] ${showInput ? "bg-[#007acc] text-white" : "hover:bg-[#2d2d2d]"}`}
+          >
+            Input
+          </button>
+        </div>
+      </div>
+      <div className="flex-1 min-h-0 flex gap-2">
+        <div ref={outputRef} className="flex-1 whitespace-pre-wrap overflow-y-auto">
+          {run && <div className="text-gray-500">{runLabel(run, languages)}</div>}
+          {run?.output.map((chunk, i) => (
+            <span key={i} className={chunk.stream === "stderr" ? "text-red-400" : undefined}>
+              {chunk.text}
+            </span>
+          ))}
+          {run?.status === "failed" && run.error && <div className="text-red-400">{run.error}</div>}
+        </div>
+        {showInput && (
+          <textarea
+            value={stdin}
+            onChange={(e) => onStdinChange(e.target.value)}
+            placeholder="Input passed to the program"
+            className="w-1/3 resize-none bg-[#2d2d2d] text-white text-sm p-2 rounded border border-[#3d3d3d] focus:outline-none focus:border-[#007acc]"
+          />
+        )}
+      </div>
+    </div>
+  );
+};
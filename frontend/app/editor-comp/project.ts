@@ -0,0 +1,142 @@
+import * as Y from "yjs";
+import { generateId } from "@/lib/ids";
+import { LanguageInfo, PLAIN_TEXT } from "@/lib/languages";
+
+// The room's project lives in its Yjs document. "files" maps a file id to a map of
+// its path, language and content (a Y.Text); "folders" maps every folder's path to
+// true so that empty ones survive. Files are keyed by id so that renaming one keeps
+// its history and anyone's concurrent edits. Kept in step with websocket-backend/src/code.ts
+
+export interface ProjectFile {
+  id: string;
+  path: string;
+  // An id from the language registry
+  language: string;
+}
+
+export function languageFromPath(path: string, languages: LanguageInfo[]): LanguageInfo {
+  const extension = path.includes(".") ? path.split(".").pop()!.toLowerCase() : "";
+  return languages.find((language) => language.extensions.includes(extension)) ?? PLAIN_TEXT;
+}
+
+// Cleans up a path typed by the user, or returns null if the code runner would refuse it
+export function normalizePath(input: string): string | null {
+  const segments = input.trim().split("/").filter(Boolean);
+  if (segments.length === 0) return null;
+  const valid = segments.every((segment) => /^[\w\- .]+$/.test(segment) && segment !== "." && segment !== "..");
+  return valid ? segments.join("/") : null;
+}
+
+export function parentFolder(path: string): string {
+  return path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "";
+}
+
+export function baseName(path: string): string {
+  return path.slice(path.lastIndexOf("/") + 1);
+}
+
+function isInside(path: string, folder: string): boolean {
+  return path.startsWith(`${folder}/`);
+}
+
+function filesMap(doc: Y.Doc) {
+  return doc.getMap<Y.Map<unknown>>("files");
+}
+
+function foldersMap(doc: Y.Doc) {
+  return doc.getMap<boolean>("folders");
+}
+
+// Sorted by path; anything malformed is skipped since every client writes the document
+export function getProjectFiles(doc: Y.Doc): ProjectFile[] {
+  const files: ProjectFile[] = [];
+  filesMap(doc).forEach((file, id) => {
+    const path = file.get("path");
+    const language = file.get("language");
+    if (typeof path === "string" && file.get("content") instanceof Y.Text) {
+      files.push({ id, path, language: typeof language === "string" ? language : PLAIN_TEXT.id });
+    }
+  });
+  return files.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+// Every folder, including those that only exist because a file is inside them
+export function getProjectFolders(doc: Y.Doc): string[] {
+  const folders = new Set(foldersMap(doc).keys());
+  getProjectFiles(doc).forEach(({ path }) => {
+    for (let folder = parentFolder(path); folder; folder = parentFolder(folder)) folders.add(folder);
+  });
+  return [...folders].sort();
+}
+
+export function getFileText(doc: Y.Doc, id: string): Y.Text | null {
+  const content = filesMap(doc).get(id)?.get("content");
+  return content instanceof Y.Text ? content : null;
+}
+
+function pathExists(doc: Y.Doc, path: string): boolean {
+  return getProjectFiles(doc).some((file) => file.path === path) || getProjectFolders(doc).includes(path);
+}
+
+// Returns the new file's id, or null if something already has that path. The file
+// starts from its language's template.
+export function createFile(doc: Y.Doc, path: string, languages: LanguageInfo[]): string | null {
+  if (pathExists(doc, path)) return null;
+  const id = generateId();
+  const language = languageFromPath(path, languages);
+  const name = baseName(path).replace(/\.[^.]+$/, "");
+  const file = new Y.Map<unknown>();
+  file.set("path", path);
+  file.set("language", language.id);
+  file.set("content", new Y.Text(language.template.replace(/\{name\}/g, name)));
+  filesMap(doc).set(id, file);
+  return id;
+}
+
+export function createFolder(doc: Y.Doc, path: string): boolean {
+  if (pathExists(doc, path)) return false;
+  foldersMap(doc).set(path, true);
+  return true;
+}
+
+// Renames or moves a file, or a folder with everything in it
+export function renamePath(doc: Y.Doc, from: string, to: string, languages: LanguageInfo[]): boolean {
+  if (from === to) return true;
+  if (pathExists(doc, to) || isInside(to, from)) return false;
+
+  const moved = (path: string) => (path === from ? to : isInside(path, from) ? to + path.slice(from.length) : null);
+  let found = false;
+  filesMap(doc).forEach((file) => {
+    const path = file.get("path");
+    const next = typeof path === "string" ? moved(path) : null;
+    if (next === null) return;
+    found = true;
+    // A file keeps a language that was picked by hand when only its folder moves
+    if (path === from && file.get("language") === languageFromPath(from, languages).id) {
+      file.set("language", languageFromPath(to, languages).id);
+    }
+    file.set("path", next);
+  });
+  [...foldersMap(doc).keys()].forEach((path) => {
+    const next = moved(path);
+    if (next === null) return;
+    found = true;
+    foldersMap(doc).delete(path);
+    foldersMap(doc).set(next, true);
+  });
+  return found;
+}
+
+// Deletes a file, or a folder with everything in it
+export function deletePath(doc: Y.Doc, path: string) {
+  getProjectFiles(doc)
+    .filter((file) => file.path === path || isInside(file.path, path))
+    .forEach((file) => filesMap(doc).delete(file.id));
+  [...foldersMap(doc).keys()].forEach((folder) => {
+    if (folder === path || isInside(folder, path)) foldersMap(doc).delete(folder);
+  });
+}
+
+export function setFileLanguage(doc: Y.Doc, id: string, language: string) {
+  filesMap(doc).get(id)?.set("language", language);
+}
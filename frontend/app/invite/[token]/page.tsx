@@ -0,0 +1,60 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import axios from "axios";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Loader2, LockKeyhole } from "lucide-react";
+import { acceptInvite } from "@/lib/rooms";
+import ErrorPage from "@/components/Error";
+
+export default function InvitePage({ params }: { params: Promise<{ token: string }> }) {
+    const { token } = React.use(params);
+    const router = useRouter();
+    const [signedIn, setSignedIn] = useState<boolean | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const hasToken = !!localStorage.getItem("token");
+        // Come back here once signed in
+        if (!hasToken) localStorage.setItem("redirectAfterSignin", `/invite/${token}`);
+        setSignedIn(hasToken);
+    }, [token]);
+
+    useEffect(() => {
+        if (!signedIn) return;
+        acceptInvite(token)
+            .then((roomId) => router.replace(`/canvas/${roomId}`))
+            .catch((e) => {
+                const msg = axios.isAxiosError(e) ? e.response?.data?.msg : undefined;
+                setError(msg || "This invite link couldn't be used.");
+            });
+    }, [signedIn, token, router]);
+
+    if (signedIn === false) {
+        return <ErrorPage />;
+    }
+
+    return (
+        <div className="min-h-screen bg-gradient-to-b from-gray-900 to-gray-800 flex items-center justify-center px-4">
+            <div className="max-w-md w-full bg-white/10 backdrop-blur-lg rounded-2xl p-8 text-center space-y-4 text-white">
+                {error ? (
+                    <>
+                        <div className="flex justify-center">
+                            <div className="bg-red-100 p-3 rounded-full">
+                                <LockKeyhole className="h-10 w-10 text-red-600" />
+                            </div>
+                        </div>
+                        <p className="text-gray-300">{error}</p>
+                        <Link href="/join" className="inline-block text-sm text-cyan-300 hover:underline">
+                            Back to rooms
+                        </Link>
+                    </>
+                ) : (
+                    <div className="flex items-center justify-center gap-3 text-gray-300">
+                        <Loader2 className="h-5 w-5 animate-spin" /> Joining room...
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -11,6 +11,7 @@ type Status = 'idle' | 'loading' | 'success' | 'error';
 function App() {
   const [mode, setMode] = useState<Mode>('select');
   const [roomName, setRoomName] = useState('');
+  const [isPrivate, setIsPrivate] = useState(false);
   const [status, setStatus] = useState<Status>('idle');
   const [message, setMessage] = useState('');
   const router = useRouter();
@@ -33,7 +34,7 @@ function App() {
     try {
       const response = await axios.post(
         `${HTTP_Backend}/room`,
-        { name: roomName },
+        { name: roomName, visibility: isPrivate ? 'private' : 'public' },
         {headers: {
           "Content-Type": "application/json",
           "Authorization": token
@@ -98,6 +99,7 @@ function App() {
   const resetState = () => {
     setMode('select');
     setRoomName('');
+    setIsPrivate(false);
     setStatus('idle');
     setMessage('');
   };
@@ -244,6 +246,18 @@ function App() {
                   </div>
                 </div>
 
+                {mode === 'create' && (
+                  <label className="flex items-center gap-3 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={isPrivate}
+                      onChange={(e) => setIsPrivate(e.target.checked)}
+                      className="h-4 w-4 rounded accent-teal-500"
+                    />
+                    Private room — only people you invite can open it
+                  </label>
+                )}
+
                 <button
                   type="submit"
                   disabled={status === 'loading'}
@@ -32,7 +32,9 @@ export default function SignIn() {
         localStorage.setItem('username', username);
   
         if (response.status === 200) {
-          router.push("/join");
+          const redirect = localStorage.getItem("redirectAfterSignin");
+          localStorage.removeItem("redirectAfterSignin");
+          router.push(redirect || "/join");
         } else {
           setError({ message: response.data.msg || "Signin failed. Please try again." });
         }
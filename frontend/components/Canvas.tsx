@@ -1,56 +1,90 @@
 import { useEffect, useRef, useState } from "react";
-import { Code2Icon, ChevronLeft, MessageCircle } from "lucide-react";
+import { Code2Icon, ChevronLeft, History, MessageCircle } from "lucide-react";
 import { Game } from "@/draw/Game";
-import axios from "axios";
-import { HTTP_Backend } from "@/config";
 import { MonacoEditor } from "@/app/editor-comp/editor";
 import { VoiceChat } from "./VoiceChat";
 import { Topbar } from "./Topbar";
+import { ConnectionIndicator } from "./ConnectionIndicator";
+import { HistoryPanel } from "./HistoryPanel";
+import { CommentLayer } from "./CommentLayer";
 import ChatInterface from "@/app/chat/chat";
+import { RoomAccess } from "@/lib/rooms";
+import { RoomConnection } from "@/lib/connection";
+import { isMentioned } from "@/lib/chat";
+import { getCurrentUserId } from "@/lib/auth";
 
-export type Tool = "circle" | "rect" | "pencil" | "eraser" | "move";
+export type Tool = "circle" | "rect" | "pencil" | "eraser" | "select" | "line" | "arrow" | "diamond" | "text" | "sticky" | "comment";
 
 export function Canvas({
   roomId,
-  socket,
-  username
+  connection,
+  access
 }: {
-  socket: WebSocket;
+  connection: RoomConnection;
   roomId: string;
-  username: string;
+  access: RoomAccess;
 }) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [game, setGame] = useState<Game>();
   const [selectedTool, setSelectedTool] = useState<Tool>("circle");
-  const [language, setLanguage] = useState<"javascript" | "python" | "cpp">("javascript");
   const [showEditor, setShowEditor] = useState(false);
   const [isChatOpen, setIsChatOpen] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [unreadMentions, setUnreadMentions] = useState(0);
 
   useEffect(() => {
     game?.setTool(selectedTool);
   }, [selectedTool, game]);
 
+  // The server can make us a viewer while the room is open; the board notices first
+  // and everything else follows it
+  const [demoted, setDemoted] = useState(false);
+  const [sceneError, setSceneError] = useState<string | null>(null);
+  const roomAccess: RoomAccess = demoted ? { ...access, role: "viewer" } : access;
+  const readOnly = roomAccess.role === "viewer";
+  const startsReadOnly = access.role === "viewer";
+
+  // Count mentions that arrive while DevTalk is closed
+  useEffect(() => {
+    if (isChatOpen) {
+      setUnreadMentions(0);
+      return;
+    }
+    return connection.on("messages", ({ message }) => {
+      const userId = getCurrentUserId();
+      if (message.userId !== userId && isMentioned(message, userId)) setUnreadMentions((count) => count + 1);
+    });
+  }, [connection, isChatOpen]);
+
   useEffect(() => {
     if (canvasRef.current) {
-      const g = new Game(canvasRef.current, roomId, socket);
+      const g = new Game(canvasRef.current, roomId, connection, startsReadOnly);
       setGame(g);
 
       return () => {
         g.destroy();
       };
     }
-  }, [canvasRef, roomId, socket]);
+  }, [canvasRef, roomId, connection, startsReadOnly]);
+
+  useEffect(() => game?.onReadOnlyChange(() => setDemoted(game.isReadOnly())), [game]);
+  useEffect(() => {
+    if (!game) return;
+    // The first load may have failed before we started listening
+    setSceneError(game.getSceneError());
+    return game.onSceneErrorChange(() => setSceneError(game.getSceneError()));
+  }, [game]);
 
   return (
     <div className="h-screen relative flex overflow-hidden">
       {/* Code Editor */}
       {showEditor && (
-        <div className={`h-full fixed w-1/4 left-0 top-0 transform transition-transform duration-300 z-20 overflow-hidden`}>
+        <div className={`h-full fixed w-1/3 left-0 top-0 transform transition-transform duration-300 z-20 overflow-hidden`}>
           <MonacoEditor
             roomId={roomId}
-            socket={socket}
-            language={language}
-            onLanguageChange={setLanguage}
+            connection={connection}
+            readOnly={readOnly}
+            isInterviewer={roomAccess.role === "owner"}
           />
           <button
             onClick={() => setShowEditor(false)}
@@ -72,20 +106,14 @@ export function Canvas({
       )}
 
       {/* Chat Interface */}
-      {isChatOpen && (
-        <div className={`h-4/5 fixed w-1/4 right-0 top-0 transform transition-transform duration-300 z-20 overflow-hidden`}>
-          <ChatInterface isChatOpen={isChatOpen} setIsChatOpen={setIsChatOpen} socket={socket} roomId={roomId} username={username}/>
-        </div>
-      )}
-
-      {/* Chat Toggle Button */}
       {isChatOpen && (
       <ChatInterface 
         isChatOpen={isChatOpen} 
         setIsChatOpen={setIsChatOpen} 
-        socket={socket} 
+        connection={connection} 
         roomId={roomId} 
-        username={username}
+        canModerate={roomAccess.role === "owner"}
+        game={game}
       />
     )}
 
@@ -96,14 +124,52 @@ export function Canvas({
         className="fixed right-4 top-4 z-30 bg-black rounded-xl shadow-lg p-3 hover:bg-gray-700 transition-colors"
       >
         <MessageCircle className="w-5 h-5 text-white" />
+        {unreadMentions > 0 && (
+          <span
+            title={`${unreadMentions} new ${unreadMentions === 1 ? "mention" : "mentions"}`}
+            className="absolute -top-1.5 -right-1.5 min-w-5 h-5 px-1 rounded-full bg-amber-400 text-black text-xs font-semibold flex items-center justify-center"
+          >
+            @{unreadMentions}
+          </span>
+        )}
       </button>
     )}
 
+      {/* Version History */}
+      {!isChatOpen && (
+        <button
+          onClick={() => setShowHistory((open) => !open)}
+          title="Version history"
+          className="fixed right-4 top-20 z-30 bg-black rounded-xl shadow-lg p-3 hover:bg-gray-700 transition-colors"
+        >
+          <History className="w-5 h-5 text-white" />
+        </button>
+      )}
+      {showHistory && !isChatOpen && (
+        <div className="fixed right-20 top-4 z-30">
+          <HistoryPanel roomId={roomId} game={game} canEdit={!readOnly} onClose={() => setShowHistory(false)} />
+        </div>
+      )}
+
       {/* Voice Chat */}
       {!isChatOpen && (
-        <VoiceChat roomId={roomId} socket={socket} />
+        <VoiceChat roomId={roomId} connection={connection} />
       )}
 
+      <ConnectionIndicator connection={connection} />
+
+      {sceneError && (
+        <div className="fixed top-20 left-1/2 -translate-x-1/2 z-30 flex items-center gap-3 bg-red-50 border border-red-200 rounded-full shadow-lg px-4 py-2 text-sm text-red-800">
+          <span>{sceneError}</span>
+          <button onClick={() => game?.reloadScene()} className="font-medium underline hover:text-red-950">
+            Try again
+          </button>
+        </div>
+      )}
+
+      {/* Comment threads; the pins are drawn on the canvas */}
+      <CommentLayer game={game} canEdit={!readOnly} />
+
       {/* Canvas and Topbar */}
       <div className={`h-full w-full transition-all duration-300 ${showEditor ? "pl-1/4" : ""} ${isChatOpen ? "pr-1/4" : ""}`}>
         <canvas
@@ -117,20 +183,9 @@ export function Canvas({
           setSelectedTool={setSelectedTool}
           game={game}
           roomId={roomId}
+          access={roomAccess}
         />
       </div>
     </div>
   );
 }
-
-export async function clearCanvas(roomId: string) {
-  const response = await axios.post(`${HTTP_Backend}/clear`, {
-    data: {
-      roomId,
-    },
-  });
-  if (response.status === 200) {
-    console.log("Canvas cleared successfully!");
-    window.location.reload();
-  }
-}
\ No newline at end of file
@@ -0,0 +1,97 @@
+import { useEffect, useState } from "react";
+
+const palette = [
+  "#1e1e1e", "#e03131", "#2f9e44", "#1971c2", "#f08c00", "#9c36b5",
+  "#868e96", "#ffc9c9", "#b2f2bb", "#a5d8ff", "#ffec99", "#eebefa",
+];
+
+const RECENT_COLORS_KEY = "recentColors";
+const MAX_RECENT_COLORS = 8;
+
+function loadRecentColors(): string[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(RECENT_COLORS_KEY) ?? "[]");
+    return Array.isArray(stored) ? stored.filter((c) => typeof c === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+export function ColorPicker({
+  value,
+  onChange,
+  allowTransparent = false,
+}: {
+  value: string;
+  onChange: (color: string) => void;
+  allowTransparent?: boolean;
+}) {
+  const [recentColors, setRecentColors] = useState<string[]>([]);
+  const [hex, setHex] = useState(value);
+
+  useEffect(() => {
+    setRecentColors(loadRecentColors());
+  }, []);
+
+  useEffect(() => {
+    setHex(value);
+  }, [value]);
+
+  const pick = (color: string) => {
+    onChange(color);
+    if (color === "transparent") return;
+    const next = [color, ...loadRecentColors().filter((c) => c !== color)].slice(0, MAX_RECENT_COLORS);
+    localStorage.setItem(RECENT_COLORS_KEY, JSON.stringify(next));
+    setRecentColors(next);
+  };
+
+  const swatch = (color: string) => (
+    <button
+      key={color}
+      onClick={() => pick(color)}
+      title={color}
+      className={`w-6 h-6 rounded-md border transition-all ${
+        value === color ? "ring-2 ring-blue-500 border-white" : "border-gray-300 hover:scale-110"
+      }`}
+      style={
+        color === "transparent"
+          ? { backgroundImage: "linear-gradient(45deg, transparent 45%, #e03131 45%, #e03131 55%, transparent 55%)" }
+          : { backgroundColor: color }
+      }
+    />
+  );
+
+  return (
+    <div className="w-48 space-y-3 text-sm text-gray-700">
+      <div className="grid grid-cols-6 gap-1.5">
+        {allowTransparent && swatch("transparent")}
+        {palette.map(swatch)}
+      </div>
+
+      {recentColors.length > 0 && (
+        <div>
+          <div className="mb-1 text-xs text-gray-500">Recent</div>
+          <div className="grid grid-cols-6 gap-1.5">{recentColors.map(swatch)}</div>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <input
+          type="color"
+          value={/^#[0-9a-f]{6}$/i.test(value) ? value : "#000000"}
+          onChange={(e) => pick(e.target.value)}
+          className="w-8 h-8 p-0 border-0 bg-transparent cursor-pointer"
+        />
+        <input
+          type="text"
+          value={hex}
+          onChange={(e) => setHex(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(hex)) pick(hex);
+          }}
+          className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded-lg font-mono text-xs"
+        />
+      </div>
+    </div>
+  );
+}
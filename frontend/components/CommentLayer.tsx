@@ -0,0 +1,239 @@
+import { useEffect, useState } from "react";
+import { Check, RotateCcw, X } from "lucide-react";
+import { Game } from "@/draw/Game";
+import { CommentRequest, isCommentPinVisible, PIN_SIZE } from "@/draw/comments";
+import { getInitials, getUserColor } from "@/draw/presence";
+import { getCurrentUserId } from "@/lib/auth";
+import { CommentPin } from "@/lib/protocol";
+
+const POPOVER_WIDTH = 288;
+
+function formatTime(date: string): string {
+  return new Date(date).toLocaleString(undefined, { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+}
+
+// Enter sends, Shift+Enter starts a new line
+function CommentInput({
+  placeholder,
+  submitLabel,
+  onSubmit,
+}: {
+  placeholder: string;
+  submitLabel: string;
+  onSubmit: (body: string) => void;
+}) {
+  const [value, setValue] = useState("");
+
+  const submit = () => {
+    const body = value.trim();
+    if (!body) return;
+    onSubmit(body);
+    setValue("");
+  };
+
+  return (
+    <div className="flex gap-2 items-end">
+      <textarea
+        autoFocus
+        rows={2}
+        value={value}
+        placeholder={placeholder}
+        onChange={(e) => setValue(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && !e.shiftKey) {
+            e.preventDefault();
+            submit();
+          }
+        }}
+        className="flex-1 resize-none px-2 py-1.5 rounded-lg border border-gray-200 text-sm text-gray-900 placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-cyan-200"
+      />
+      <button
+        onClick={submit}
+        disabled={!value.trim()}
+        className="px-3 py-1.5 rounded-lg bg-black text-white text-sm hover:bg-gray-700 disabled:opacity-40"
+      >
+        {submitLabel}
+      </button>
+    </div>
+  );
+}
+
+function CommentThread({
+  pin,
+  canResolve,
+  onReply,
+  onResolve,
+  onClose,
+}: {
+  pin: CommentPin;
+  canResolve: boolean;
+  onReply: (body: string) => void;
+  onResolve: (resolved: boolean) => void;
+  onClose: () => void;
+}) {
+  const resolved = pin.resolvedAt !== null;
+
+  return (
+    <>
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs text-gray-500">
+          {resolved ? `Resolved by ${pin.resolvedBy?.name ?? "someone"}` : "Open"}
+        </span>
+        <div className="flex items-center gap-1">
+          {canResolve && (
+            <button
+              onClick={() => onResolve(!resolved)}
+              title={resolved ? "Reopen" : "Resolve"}
+              className="flex items-center gap-1 px-2 py-1 rounded-lg text-xs text-gray-700 hover:bg-gray-100"
+            >
+              {resolved ? <RotateCcw className="w-3.5 h-3.5" /> : <Check className="w-3.5 h-3.5" />}
+              {resolved ? "Reopen" : "Resolve"}
+            </button>
+          )}
+          <button onClick={onClose} className="p-1 rounded-lg text-gray-500 hover:bg-gray-100">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <ul className="max-h-64 overflow-y-auto space-y-3">
+        {pin.replies.map((reply) => (
+          <li key={reply.id} className="flex gap-2">
+            <span
+              className="shrink-0 w-6 h-6 rounded-full flex items-center justify-center text-[10px] font-semibold text-white"
+              style={{ backgroundColor: getUserColor(reply.userId) }}
+            >
+              {getInitials(reply.name)}
+            </span>
+            <div className="min-w-0">
+              <p className="text-xs text-gray-500">
+                <span className="font-medium text-gray-800">{reply.name}</span>
+                <span className="ml-2">{formatTime(reply.createdAt)}</span>
+              </p>
+              <p className="text-sm text-gray-900 whitespace-pre-wrap break-words">{reply.body}</p>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <CommentInput placeholder="Reply…" submitLabel="Reply" onSubmit={onReply} />
+    </>
+  );
+}
+
+// Comment threads and the draft of a new comment, floating next to their pins.
+// The pins themselves are drawn by Game.
+export function CommentLayer({ game, canEdit }: { game: Game | undefined; canEdit: boolean }) {
+  const [pins, setPins] = useState<CommentPin[]>([]);
+  const [request, setRequest] = useState<CommentRequest | null>(null);
+  const [showResolved, setShowResolved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Bumped on every pan or zoom so that the open popover follows its pin
+  const [, setViewportVersion] = useState(0);
+
+  useEffect(() => {
+    if (!game) return;
+    setPins(game.getCommentPins());
+    const unsubscribers = [
+      game.onCommentsChange(() => setPins(game.getCommentPins())),
+      game.onCommentRequest((next) => {
+        setError(null);
+        setRequest(next);
+      }),
+      game.onViewportChange(() => setViewportVersion((version) => version + 1)),
+    ];
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [game]);
+
+  useEffect(() => {
+    game?.setShowResolvedComments(showResolved);
+  }, [game, showResolved]);
+
+  const openPin = request?.type === "open" ? pins.find((pin) => pin.id === request.pinId) : undefined;
+
+  useEffect(() => {
+    game?.setActiveComment(openPin?.id ?? null);
+  }, [game, openPin?.id]);
+
+  // Close a thread that the filter just hid
+  useEffect(() => {
+    if (openPin && !isCommentPinVisible(openPin, showResolved)) setRequest(null);
+  }, [openPin, showResolved]);
+
+  useEffect(() => {
+    if (!request) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setRequest(null);
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [request]);
+
+  if (!game) return null;
+
+  const openCount = pins.filter((pin) => pin.resolvedAt === null).length;
+  const anchor = openPin ?? (request?.type === "new" ? request : null);
+  const position = anchor && game.toScreen(anchor.x, anchor.y);
+  const currentUserId = getCurrentUserId();
+
+  const sent = (ok: boolean) => {
+    if (!ok) setError("You're offline; this will be sent when you reconnect.");
+  };
+
+  return (
+    <>
+      {position && (
+        <div
+          className="fixed z-40 bg-white rounded-xl shadow-xl border border-gray-100 p-3 space-y-3"
+          style={{
+            width: POPOVER_WIDTH,
+            left: Math.min(position.x + PIN_SIZE + 8, window.innerWidth - POPOVER_WIDTH - 8),
+            top: Math.max(position.y - PIN_SIZE, 8),
+          }}
+        >
+          {openPin ? (
+            <CommentThread
+              pin={openPin}
+              canResolve={canEdit || openPin.userId === currentUserId}
+              onReply={(body) => sent(game.replyToComment(openPin.id, body))}
+              onResolve={(resolved) => sent(game.setCommentResolved(openPin.id, resolved))}
+              onClose={() => setRequest(null)}
+            />
+          ) : (
+            request?.type === "new" && (
+              <>
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium text-gray-800">New comment</span>
+                  <button onClick={() => setRequest(null)} className="p-1 rounded-lg text-gray-500 hover:bg-gray-100">
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+                <CommentInput
+                  placeholder="Add a comment…"
+                  submitLabel="Comment"
+                  onSubmit={(body) => {
+                    sent(game.createComment(request.x, request.y, body));
+                    setRequest(null);
+                  }}
+                />
+              </>
+            )
+          )}
+          {error && <p className="text-xs text-amber-700">{error}</p>}
+        </div>
+      )}
+
+      {pins.length > 0 && (
+        <div className="fixed bottom-4 left-4 z-30 flex items-center gap-3 bg-white/90 backdrop-blur-sm rounded-full shadow-lg px-3 py-1.5 text-xs text-gray-600">
+          <span>
+            {openCount} open {openCount === 1 ? "comment" : "comments"}
+          </span>
+          <label className="flex items-center gap-1 cursor-pointer">
+            <input type="checkbox" checked={showResolved} onChange={(e) => setShowResolved(e.target.checked)} />
+            Show resolved
+          </label>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,45 @@
+import { useEffect, useState } from "react";
+import { Wifi, WifiOff } from "lucide-react";
+import { ConnectionStatus, RoomConnection } from "@/lib/connection";
+
+export function ConnectionIndicator({ connection }: { connection: RoomConnection }) {
+  const [status, setStatus] = useState<ConnectionStatus>(connection.getStatus());
+  const [queued, setQueued] = useState(connection.getQueuedCount());
+  const [queueFull, setQueueFull] = useState(connection.isQueueFull());
+
+  useEffect(() => {
+    const update = () => {
+      setStatus(connection.getStatus());
+      setQueued(connection.getQueuedCount());
+      setQueueFull(connection.isQueueFull());
+    };
+    update();
+    return connection.onStatusChange(update);
+  }, [connection]);
+
+  if (status === "connected") {
+    return (
+      <div title="Connected" className="fixed bottom-4 left-1/2 -translate-x-1/2 z-30 flex items-center gap-1.5 bg-white/90 backdrop-blur-sm rounded-full shadow-lg px-3 py-1.5 text-xs text-gray-600">
+        <Wifi className="w-3.5 h-3.5 text-green-600" /> Live
+      </div>
+    );
+  }
+
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-30 flex items-center gap-2 bg-amber-100 border border-amber-300 rounded-full shadow-lg px-3 py-1.5 text-xs text-amber-900">
+      <WifiOff className="w-3.5 h-3.5" />
+      <span>{status === "reconnecting" ? "Connection lost, reconnecting…" : "Connecting…"}</span>
+      {queueFull ? (
+        <span className="font-medium">
+          {queued} changes are waiting to sync, so editing is paused until you&apos;re back
+        </span>
+      ) : (
+        queued > 0 && (
+          <span className="text-amber-700">
+            {queued} {queued === 1 ? "change" : "changes"} will sync when you&apos;re back
+          </span>
+        )
+      )}
+    </div>
+  );
+}
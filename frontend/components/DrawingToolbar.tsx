@@ -4,7 +4,7 @@ import {
   RectangleHorizontal, 
   Circle, 
   Eraser, 
-  Move,
+  MousePointer2,
 } from 'lucide-react';
 import { IconButton } from './IconButton';
 
@@ -33,6 +33,12 @@ export function DrawingToolbar({
       <div className="space-y-2">
         <h3 className="text-xs font-medium text-gray-500 px-2">Tools</h3>
         <div className="flex gap-2">
+          <IconButton
+            onClick={() => setSelectedTool("select")}
+            activated={selectedTool === "select"}
+            icon={<MousePointer2 className="w-5 h-5" />}
+            label="Select"
+          />
           <IconButton
             onClick={() => setSelectedTool("pencil")}
             activated={selectedTool === "pencil"}
@@ -57,12 +63,6 @@ export function DrawingToolbar({
             icon={<Eraser className="w-5 h-5" />}
             label="Eraser"
           />
-          <IconButton
-            onClick={() => setSelectedTool("move")}
-            activated={selectedTool === "move"}
-            icon={<Move className="w-5 h-5" />}
-            label="Move"
-          />
         </div>
       </div>
 
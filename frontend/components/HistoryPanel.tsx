@@ -0,0 +1,147 @@
+import { useCallback, useEffect, useState } from "react";
+import { X } from "lucide-react";
+import { Game } from "@/draw/Game";
+import { exportToCanvas, getSceneBounds } from "@/draw/export";
+import { BoardVersionSummary, getBoardVersions, getBoardVersionShapes, saveBoardVersion } from "@/lib/rooms";
+
+const PREVIEW_WIDTH = 288;
+
+function formatTime(date: string): string {
+  return new Date(date).toLocaleString(undefined, { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+}
+
+export function HistoryPanel({
+  roomId,
+  game,
+  canEdit,
+  onClose,
+}: {
+  roomId: string;
+  game: Game | undefined;
+  canEdit: boolean;
+  onClose: () => void;
+}) {
+  const [versions, setVersions] = useState<BoardVersionSummary[] | null>(null);
+  const [snapshotName, setSnapshotName] = useState("");
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadVersions = useCallback(() => {
+    getBoardVersions(roomId)
+      .then(setVersions)
+      .catch(() => setError("Couldn't load the version history."));
+  }, [roomId]);
+
+  useEffect(loadVersions, [loadVersions]);
+
+  useEffect(() => game?.onVersionRestoreFailed(setError), [game]);
+
+  const select = async (versionId: number) => {
+    setSelectedId(versionId);
+    setPreview(null);
+    setError(null);
+    try {
+      const shapes = await getBoardVersionShapes(roomId, versionId);
+      const bounds = getSceneBounds(shapes);
+      const canvas = bounds && exportToCanvas(shapes, { scale: Math.min(1, PREVIEW_WIDTH / bounds.width), background: true });
+      setPreview(canvas ? canvas.toDataURL() : "");
+    } catch {
+      setError("Couldn't load that version.");
+    }
+  };
+
+  const saveSnapshot = async () => {
+    const name = snapshotName.trim();
+    if (!name) return;
+    setError(null);
+    try {
+      const version = await saveBoardVersion(roomId, name);
+      setVersions((current) => [version, ...(current ?? [])]);
+      setSnapshotName("");
+    } catch {
+      setError("Couldn't save the snapshot.");
+    }
+  };
+
+  const restore = (versionId: number) => {
+    game?.restoreVersion(versionId);
+    setSelectedId(null);
+    // The restore records a "Before restore" version; give the server a moment to write it
+    setTimeout(loadVersions, 500);
+  };
+
+  return (
+    <div className="w-80 max-h-[70vh] flex flex-col bg-white rounded-xl shadow-lg p-4 space-y-3 text-sm text-gray-700">
+      <div className="flex items-center justify-between">
+        <h2 className="font-semibold text-gray-900">Version history</h2>
+        <button onClick={onClose} className="p-1 rounded-lg hover:bg-gray-100">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {canEdit && (
+        <div className="flex items-center gap-2">
+          <input
+            value={snapshotName}
+            onChange={(e) => setSnapshotName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && saveSnapshot()}
+            placeholder="Name this version"
+            maxLength={60}
+            className="flex-1 min-w-0 px-2 py-1.5 border border-gray-300 rounded-lg"
+          />
+          <button
+            onClick={saveSnapshot}
+            disabled={!snapshotName.trim()}
+            className="px-3 py-1.5 bg-blue-500 text-white rounded-lg hover:bg-blue-600 disabled:opacity-50 transition-all"
+          >
+            Save
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-red-500">{error}</p>}
+      {versions?.length === 0 && <p className="text-gray-500">No versions yet. Versions are saved automatically as you draw.</p>}
+
+      <ul className="flex-1 overflow-y-auto space-y-1">
+        {versions?.map((version) => (
+          <li key={version.id}>
+            <button
+              onClick={() => select(version.id)}
+              className={`w-full text-left rounded-lg px-2 py-1.5 transition-all ${
+                selectedId === version.id ? "bg-blue-50" : "hover:bg-gray-50"
+              }`}
+            >
+              <div className={version.automatic ? "text-gray-600" : "font-medium"}>{version.name ?? "Auto-save"}</div>
+              <div className="text-xs text-gray-500">
+                {formatTime(version.createdAt)} · {version.author} · {version.shapeCount}{" "}
+                {version.shapeCount === 1 ? "shape" : "shapes"}
+              </div>
+            </button>
+
+            {selectedId === version.id && (
+              <div className="mt-1 mb-2 space-y-2">
+                {preview === null ? (
+                  <div className="h-24 flex items-center justify-center text-xs text-gray-400">Loading preview…</div>
+                ) : preview ? (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={preview} alt="Version preview" className="w-full rounded-lg border border-gray-200" />
+                ) : (
+                  <div className="h-24 flex items-center justify-center text-xs text-gray-400">Empty board</div>
+                )}
+                {canEdit && (
+                  <button
+                    onClick={() => restore(version.id)}
+                    className="w-full px-3 py-1.5 rounded-lg bg-gray-100 hover:bg-gray-200 transition-all"
+                  >
+                    Restore this version
+                  </button>
+                )}
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
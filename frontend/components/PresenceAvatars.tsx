@@ -0,0 +1,57 @@
+import { Game } from "@/draw/Game";
+import { getInitials, getUserColor, Participant } from "@/draw/presence";
+import { getCurrentUserId } from "@/lib/auth";
+import { useEffect, useState } from "react";
+
+const MAX_AVATARS = 5;
+
+export function PresenceAvatars({ game }: { game: Game | undefined }) {
+  const [participants, setParticipants] = useState<Participant[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setCurrentUserId(getCurrentUserId());
+  }, []);
+
+  useEffect(() => {
+    if (!game) return;
+    const update = () => setParticipants(game.getParticipants());
+    update();
+    return game.onPresenceChange(update);
+  }, [game]);
+
+  if (participants.length === 0) return null;
+
+  // You first, then everyone else in the order they joined
+  const ordered = [
+    ...participants.filter((p) => p.userId === currentUserId),
+    ...participants.filter((p) => p.userId !== currentUserId),
+  ];
+  const hidden = ordered.slice(MAX_AVATARS);
+
+  return (
+    <div className="ml-3 bg-white/90 backdrop-blur-sm rounded-full shadow-lg px-2 py-1.5 flex items-center -space-x-2">
+      {ordered.slice(0, MAX_AVATARS).map(({ userId, name }) => {
+        const isYou = userId === currentUserId;
+        return (
+          <div
+            key={userId}
+            title={isYou ? `${name} (you)` : name}
+            className="w-8 h-8 rounded-full border-2 border-white flex items-center justify-center text-xs font-semibold text-white"
+            style={{ backgroundColor: getUserColor(userId) }}
+          >
+            {getInitials(name)}
+          </div>
+        );
+      })}
+      {hidden.length > 0 && (
+        <div
+          title={hidden.map((p) => p.name).join(", ")}
+          className="w-8 h-8 rounded-full border-2 border-white bg-gray-200 flex items-center justify-center text-xs font-semibold text-gray-700"
+        >
+          +{hidden.length}
+        </div>
+      )}
+    </div>
+  );
+}
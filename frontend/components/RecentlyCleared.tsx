@@ -0,0 +1,50 @@
+import { useEffect, useState } from "react";
+import { Game } from "@/draw/Game";
+import { getRecentClears, RecentClear } from "@/lib/rooms";
+
+function timeAgo(date: string): string {
+  const minutes = Math.round((Date.now() - new Date(date).getTime()) / 60000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes} min ago`;
+  return `${Math.round(minutes / 60)} h ago`;
+}
+
+export function RecentlyCleared({ roomId, game }: { roomId: string; game: Game | undefined }) {
+  const [clears, setClears] = useState<RecentClear[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getRecentClears(roomId)
+      .then(setClears)
+      .catch(() => setError("Couldn't load recently cleared boards."));
+  }, [roomId]);
+
+  return (
+    <div className="w-64 space-y-2 text-sm text-gray-700">
+      <div className="text-xs text-gray-500">Recently cleared (kept for 24 hours)</div>
+      {error && <p className="text-red-500">{error}</p>}
+      {clears?.length === 0 && <p className="text-gray-500">Nothing to restore.</p>}
+      <ul className="space-y-1">
+        {clears?.map((clear) => (
+          <li key={clear.id} className="flex items-center justify-between gap-2 rounded-lg px-2 py-1.5 hover:bg-gray-50">
+            <div>
+              <div>{clear.shapeCount} {clear.shapeCount === 1 ? "shape" : "shapes"}</div>
+              <div className="text-xs text-gray-500">
+                {clear.name} · {timeAgo(clear.createdAt)}
+              </div>
+            </div>
+            <button
+              onClick={() => {
+                game?.restoreClear(clear.id);
+                setClears((current) => current?.filter((c) => c.id !== clear.id) ?? null);
+              }}
+              className="px-2 py-1 rounded-lg bg-gray-100 hover:bg-gray-200 transition-all"
+            >
+              Restore
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
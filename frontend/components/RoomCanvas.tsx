@@ -2,55 +2,99 @@
 
 import { WS_URL } from "@/config";
 import { useRef, useEffect, useState } from "react";
+import axios from "axios";
+import { LockKeyhole } from "lucide-react";
+import Link from "next/link";
+import { getRoomAccess, RoomAccess } from "@/lib/rooms";
+import { RoomConnection } from "@/lib/connection";
 import { Canvas } from "./Canvas";
 import ErrorPage from "./Error";
 
 export function RoomCanvas({ roomId }: { roomId: string }) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [socket, setSocket] = useState<WebSocket | null>(null);
+  const [connection, setConnection] = useState<RoomConnection | null>(null);
   const [token, setToken] = useState<string | null>(null);
-  const [username, setUsername] =  useState<string | null>(null);
+  const [access, setAccess] = useState<RoomAccess | null>(null);
+  const [accessError, setAccessError] = useState<string | null>(null);
 
   useEffect(() => {
     if (typeof window !== "undefined") {
       const storedToken = localStorage.getItem("token");
-      const username = localStorage.getItem("username");
-      setUsername(username);
       setToken(storedToken);
     }
   }, []);
 
   useEffect(() => {
-    if (token) {
-      const ws = new WebSocket(`${WS_URL}?token=${token}`);
-
-      ws.onopen = () => {
-        setSocket(ws);
-        const data = JSON.stringify({
-          type: "join_room",
-          roomId
-        });
-        console.log(data);
-        ws.send(data);
-      };
+    if (!token) return;
+    getRoomAccess(roomId)
+      .then(setAccess)
+      .catch((e) => {
+        const status = axios.isAxiosError(e) ? e.response?.status : undefined;
+        setAccessError(
+          status === 403
+            ? "This room is private. Ask its owner for an invite link."
+            : "We couldn't load this room. Check the link and try again."
+        );
+      });
+  }, [token, roomId]);
+
+  const hasAccess = access !== null;
+
+  useEffect(() => {
+    if (token && hasAccess) {
+      const conn = new RoomConnection(`${WS_URL}?token=${token}`, roomId);
+
+      // The canvas mounts once the first join is confirmed and stays up through reconnects
+      const unsubscribeStatus = conn.onStatusChange(() => {
+        if (conn.getStatus() === "connected") setConnection(conn);
+      });
+      const unsubscribeMessages = conn.on("access_denied", (message) => {
+        if (message.action === "join") {
+          setAccessError(message.msg);
+          setConnection(null);
+          conn.close();
+        }
+      });
 
       return () => {
-        ws.close();
+        unsubscribeStatus();
+        unsubscribeMessages();
+        conn.close();
+        setConnection(null);
       };
     }
-  }, [token, roomId]);
+  }, [token, roomId, hasAccess]);
 
   if (token === null) {
     return <ErrorPage />;
   }
 
-  if (!socket) {
+  if (accessError) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-gray-900 to-gray-800 flex items-center justify-center px-4">
+        <div className="max-w-md w-full bg-white/10 backdrop-blur-lg rounded-2xl p-8 text-center space-y-4">
+          <div className="flex justify-center">
+            <div className="bg-red-100 p-3 rounded-full">
+              <LockKeyhole className="h-10 w-10 text-red-600" />
+            </div>
+          </div>
+          <h2 className="text-2xl font-bold text-white">No access</h2>
+          <p className="text-gray-300">{accessError}</p>
+          <Link href="/join" className="inline-block text-sm text-cyan-300 hover:underline">
+            Back to rooms
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  if (!connection || !access) {
     return <div className="text-black">Connecting to server...</div>;
   }
 
   return (
     <div className="overflow-hidden h-full w-full fixed">
-      <Canvas roomId={roomId} socket={socket} username={username || "Guest"} />
+      <Canvas roomId={roomId} connection={connection} access={access} />
       <canvas ref={canvasRef} width={window.innerWidth} height={window.innerHeight}></canvas>
     </div>
   );
@@ -0,0 +1,173 @@
+import { useEffect, useState } from "react";
+import { Check, Copy, Globe2, Lock, X } from "lucide-react";
+import {
+  createInviteLink,
+  getRoomMembers,
+  removeMember,
+  RoomMember,
+  RoomRole,
+  RoomVisibility,
+  setMemberRole,
+  setRoomVisibility,
+} from "@/lib/rooms";
+
+type InviteRole = Exclude<RoomRole, "owner">;
+
+export function ShareDialog({
+  roomId,
+  visibility,
+  onVisibilityChange,
+  onClose,
+}: {
+  roomId: string;
+  visibility: RoomVisibility;
+  onVisibilityChange: (visibility: RoomVisibility) => void;
+  onClose: () => void;
+}) {
+  const [members, setMembers] = useState<RoomMember[]>([]);
+  const [inviteRole, setInviteRole] = useState<InviteRole>("editor");
+  const [inviteLink, setInviteLink] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getRoomMembers(roomId)
+      .then(setMembers)
+      .catch(() => setError("Couldn't load the member list."));
+  }, [roomId]);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setError(null);
+    try {
+      await action();
+    } catch {
+      setError(failure);
+    }
+  };
+
+  const changeVisibility = (next: RoomVisibility) =>
+    run(async () => {
+      await setRoomVisibility(roomId, next);
+      onVisibilityChange(next);
+    }, "Couldn't change who can open this room.");
+
+  const generateInvite = () =>
+    run(async () => {
+      setInviteLink(await createInviteLink(roomId, inviteRole));
+      setCopied(false);
+    }, "Couldn't create an invite link.");
+
+  const changeRole = (userId: string, role: InviteRole) =>
+    run(async () => {
+      await setMemberRole(roomId, userId, role);
+      setMembers((current) => current.map((m) => (m.userId === userId ? { ...m, role } : m)));
+    }, "Couldn't change that member's role.");
+
+  const remove = (userId: string) =>
+    run(async () => {
+      await removeMember(roomId, userId);
+      setMembers((current) => current.filter((m) => m.userId !== userId));
+    }, "Couldn't remove that member.");
+
+  return (
+    <div className="fixed inset-0 flex items-center justify-center bg-black/50 z-50">
+      <div className="bg-white rounded-2xl shadow-lg max-w-md w-full p-6 space-y-5 text-gray-700">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-gray-900">Share room</h2>
+          <button onClick={onClose} className="p-1 rounded-lg hover:bg-gray-100">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Visibility */}
+        <div className="grid grid-cols-2 gap-2">
+          {([
+            { value: "public", icon: Globe2, label: "Public", hint: "Anyone with the room name can edit" },
+            { value: "private", icon: Lock, label: "Private", hint: "Only invited members can open it" },
+          ] as const).map(({ value, icon: Icon, label, hint }) => (
+            <button
+              key={value}
+              onClick={() => changeVisibility(value)}
+              className={`p-3 rounded-xl border text-left transition-all ${
+                visibility === value ? "border-blue-500 bg-blue-50" : "border-gray-200 hover:bg-gray-50"
+              }`}
+            >
+              <div className="flex items-center gap-2 font-medium">
+                <Icon className="w-4 h-4" /> {label}
+              </div>
+              <div className="mt-1 text-xs text-gray-500">{hint}</div>
+            </button>
+          ))}
+        </div>
+
+        {/* Invite link */}
+        <div className="space-y-2">
+          <div className="text-sm font-medium">Invite link</div>
+          <div className="flex items-center gap-2">
+            <select
+              value={inviteRole}
+              onChange={(e) => setInviteRole(e.target.value as InviteRole)}
+              className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm"
+            >
+              <option value="editor">Can edit</option>
+              <option value="viewer">Can view</option>
+            </select>
+            <button
+              onClick={generateInvite}
+              className="px-3 py-1.5 bg-blue-500 text-white rounded-lg text-sm hover:bg-blue-600 transition-all"
+            >
+              Create link
+            </button>
+          </div>
+          {inviteLink && (
+            <div className="flex items-center gap-2">
+              <input readOnly value={inviteLink} className="flex-1 min-w-0 px-2 py-1.5 border border-gray-300 rounded-lg text-xs font-mono" />
+              <button
+                onClick={() => {
+                  navigator.clipboard.writeText(inviteLink);
+                  setCopied(true);
+                }}
+                title="Copy link"
+                className="p-2 rounded-lg hover:bg-gray-100"
+              >
+                {copied ? <Check className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+              </button>
+            </div>
+          )}
+          <p className="text-xs text-gray-500">Links expire after 7 days.</p>
+        </div>
+
+        {/* Members */}
+        <div className="space-y-2">
+          <div className="text-sm font-medium">Members</div>
+          <ul className="max-h-48 overflow-y-auto divide-y divide-gray-100">
+            {members.map(({ userId, name, role }) => (
+              <li key={userId} className="flex items-center justify-between py-2 text-sm">
+                <span>{name}</span>
+                {role === "owner" ? (
+                  <span className="text-gray-500">Owner</span>
+                ) : (
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={role}
+                      onChange={(e) => changeRole(userId, e.target.value as InviteRole)}
+                      className="px-2 py-1 border border-gray-300 rounded-lg"
+                    >
+                      <option value="editor">Editor</option>
+                      <option value="viewer">Viewer</option>
+                    </select>
+                    <button onClick={() => remove(userId)} title="Remove" className="p-1 rounded-lg hover:bg-red-50 text-red-500">
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+      </div>
+    </div>
+  );
+}
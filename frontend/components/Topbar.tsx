@@ -1,170 +1,598 @@
-import { Game } from "@/draw/Game";
-import { Pencil, RectangleHorizontal, Circle, Eraser, Move, ChevronDown, Trash2 } from "lucide-react";
-import { useState } from "react";
-import { clearCanvas, Tool } from "./Canvas";
+import { ArrowHead, FillStyle, Game, StrokeStyle } from "@/draw/Game";
+import {
+  Pencil,
+  RectangleHorizontal,
+  Circle,
+  Eraser,
+  MousePointer2,
+  ChevronDown,
+  Trash2,
+  Undo2,
+  Redo2,
+  Minus,
+  MoveRight,
+  Diamond,
+  Type,
+  StickyNote,
+  PaintBucket,
+  SlidersHorizontal,
+  Download,
+  Upload,
+  Share2,
+  Eye,
+  ArchiveRestore,
+  MessageSquarePlus,
+} from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { Tool } from "./Canvas";
+import { ColorPicker } from "./ColorPicker";
+import { PresenceAvatars } from "./PresenceAvatars";
+import { ShareDialog } from "./ShareDialog";
+import { RecentlyCleared } from "./RecentlyCleared";
+import { RoomAccess } from "@/lib/rooms";
+import { downloadFile, exportToPng, exportToSvg, serializeScene } from "@/draw/export";
+import { parseScene, SceneImportError } from "@/draw/import";
+
+const tools = [
+  { tool: "select", icon: MousePointer2, label: "Select (Shift+click or drag to select several)" },
+  { tool: "pencil", icon: Pencil, label: "Pencil" },
+  { tool: "rect", icon: RectangleHorizontal, label: "Rectangle" },
+  { tool: "diamond", icon: Diamond, label: "Diamond" },
+  { tool: "circle", icon: Circle, label: "Ellipse" },
+  { tool: "line", icon: Minus, label: "Line" },
+  { tool: "arrow", icon: MoveRight, label: "Arrow" },
+  { tool: "text", icon: Type, label: "Text (double-click to edit)" },
+  { tool: "sticky", icon: StickyNote, label: "Sticky note" },
+  { tool: "eraser", icon: Eraser, label: "Eraser" },
+  { tool: "comment", icon: MessageSquarePlus, label: "Comment (click the board to pin one)" },
+] as const satisfies readonly { tool: Tool; icon: unknown; label: string }[];
+
+const arrowheads: ArrowHead[] = ["none", "arrow", "triangle"];
+
+const arrowheadLabels: Record<ArrowHead, string> = {
+  none: "—",
+  arrow: "→",
+  triangle: "▶",
+};
+
+const fillStyles: { value: FillStyle; label: string }[] = [
+  { value: "none", label: "None" },
+  { value: "hachure", label: "Hachure" },
+  { value: "solid", label: "Solid" },
+];
+
+const strokeStyles: { value: StrokeStyle; label: string }[] = [
+  { value: "solid", label: "Solid" },
+  { value: "dashed", label: "Dashed" },
+  { value: "dotted", label: "Dotted" },
+];
+
+const exportScales = [1, 2, 3];
+
+type Picker = "arrowhead" | "color" | "fill" | "width" | "style" | "export" | "cleared";
+
+const CLEAR_NOTICE_MS = 10000;
 
 export const Topbar = ({
     selectedTool,
     setSelectedTool,
     game,
-    roomId
+    roomId,
+    access
   }: {
     selectedTool: Tool;
     setSelectedTool: (s: Tool) => void;
     game: Game | undefined;
     roomId: string;
+    access: RoomAccess;
   }) => {
-    const colors = ["black", "red", "green", "blue", "yellow", "purple"];
+    const canEdit = access.role !== "viewer";
+
     const lineWidths = [2, 5, 10, 15];
   
     const [selectedColor, setSelectedColor] = useState<string>("black");
     const [selectedLineWidth, setSelectedLineWidth] = useState<number>(5);
     const [showClearAlert, setShowClearAlert] = useState(false);
-    const [showColorPicker, setShowColorPicker] = useState(false);
-    const [showWidthPicker, setShowWidthPicker] = useState(false);
+    const [openPicker, setOpenPicker] = useState<Picker | null>(null);
+    const [fillColor, setFillColor] = useState("transparent");
+    const [fillStyle, setFillStyle] = useState<FillStyle>("none");
+    const [strokeStyle, setStrokeStyle] = useState<StrokeStyle>("solid");
+    const [opacity, setOpacity] = useState(100);
+    const [cornerRadius, setCornerRadius] = useState(0);
+    const [exportScale, setExportScale] = useState(2);
+    const [exportBackground, setExportBackground] = useState(true);
+    const [errorNotice, setErrorNotice] = useState<string | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+    const [showShareDialog, setShowShareDialog] = useState(false);
+    const [visibility, setVisibility] = useState(access.visibility);
+    const [clearNotice, setClearNotice] = useState<{ clearId: number | null; name: string } | null>(null);
+    const [startHead, setStartHead] = useState<ArrowHead>("none");
+    const [endHead, setEndHead] = useState<ArrowHead>("arrow");
+    const [canUndo, setCanUndo] = useState(false);
+    const [canRedo, setCanRedo] = useState(false);
+
+    useEffect(() => {
+      if (!game) return;
+      const update = () => {
+        setCanUndo(game.canUndo());
+        setCanRedo(game.canRedo());
+      };
+      update();
+      return game.onHistoryChange(update);
+    }, [game]);
+
+    useEffect(() => {
+      if (!game) return;
+      return game.onClearEvent((event) => {
+        if (event.type === "cleared") {
+          setClearNotice({ clearId: event.clearId, name: event.name });
+        } else {
+          setErrorNotice(event.msg);
+        }
+      });
+    }, [game]);
+
+    useEffect(() => {
+      if (!clearNotice) return;
+      const timer = setTimeout(() => setClearNotice(null), CLEAR_NOTICE_MS);
+      return () => clearTimeout(timer);
+    }, [clearNotice]);
+
+    const togglePicker = (picker: Picker) => {
+      setOpenPicker(openPicker === picker ? null : picker);
+    };
+
+    const exportBoard = async (format: "png" | "svg" | "json") => {
+      if (!game) return;
+      const shapes = game.getShapes();
+      const options = { scale: exportScale, background: exportBackground };
+      const filename = `board-${new Date().toISOString().slice(0, 10)}`;
+
+      if (format === "png") {
+        const png = await exportToPng(shapes, options);
+        if (png) downloadFile(png, `${filename}.png`, "image/png");
+      } else if (format === "svg") {
+        const svg = exportToSvg(shapes, options);
+        if (svg) downloadFile(svg, `${filename}.svg`, "image/svg+xml");
+      } else {
+        downloadFile(serializeScene(shapes), `${filename}.json`, "application/json");
+      }
+      setOpenPicker(null);
+    };
+
+    const importBoard = async (file: File) => {
+      if (!game) return;
+      try {
+        const shapes = parseScene(await file.text());
+        setSelectedTool("select");
+        game.importShapes(shapes);
+        setErrorNotice(null);
+      } catch (e) {
+        setErrorNotice(e instanceof SceneImportError ? e.message : "Couldn't read this file.");
+      }
+    };
+
+    const optionClass = (active: boolean) =>
+      `px-2 py-1 rounded-lg transition-all ${active ? "bg-blue-100 text-blue-600" : "hover:bg-gray-100"}`;
   
     return (
       <div className="fixed top-4 left-1/2 -translate-x-1/2 flex items-center">
         {/* Main Toolbar */}
         <div className="bg-white/90 backdrop-blur-sm rounded-full shadow-lg px-3 py-2 flex items-center gap-2">
-          {/* Tools Group */}
-          <div className="flex items-center gap-1 pr-3 border-r border-gray-200">
-            <button
-              onClick={() => setSelectedTool("pencil")}
-              className={`p-2 rounded-lg transition-all ${
-                selectedTool === "pencil" ? "bg-blue-100 text-blue-600" : "hover:bg-gray-100 text-gray-700"
-              }`}
-            >
-              <Pencil className="w-5 h-5" />
-            </button>
-            <button
-              onClick={() => setSelectedTool("rect")}
-              className={`p-2 rounded-lg transition-all ${
-                selectedTool === "rect" ? "bg-blue-100 text-blue-600" : "hover:bg-gray-100 text-gray-700"
-              }`}
-            >
-              <RectangleHorizontal className="w-5 h-5" />
-            </button>
-            <button
-              onClick={() => setSelectedTool("circle")}
-              className={`p-2 rounded-lg transition-all ${
-                selectedTool === "circle" ? "bg-blue-100 text-blue-600" : "hover:bg-gray-100 text-gray-700"
-              }`}
-            >
-              <Circle className="w-5 h-5" />
-            </button>
-            <button
-              onClick={() => setSelectedTool("eraser")}
-              className={`p-2 rounded-lg transition-all ${
-                selectedTool === "eraser" ? "bg-blue-100 text-blue-600" : "hover:bg-gray-100 text-gray-700"
-              }`}
-            >
-              <Eraser className="w-5 h-5" />
-            </button>
-            <button
-              onClick={() => setSelectedTool("move")}
-              className={`p-2 rounded-lg transition-all ${
-                selectedTool === "move" ? "bg-blue-100 text-blue-600" : "hover:bg-gray-100 text-gray-700"
-              }`}
-            >
-              <Move className="w-5 h-5" />
-            </button>
-          </div>
+          {canEdit && (
+            <>
+            {/* Tools Group */}
+            <div className="flex items-center gap-1 pr-3 border-r border-gray-200">
+              {tools.map(({ tool, icon: Icon, label }) => (
+                <button
+                  key={tool}
+                  onClick={() => setSelectedTool(tool)}
+                  title={label}
+                  className={`p-2 rounded-lg transition-all ${
+                    selectedTool === tool ? "bg-blue-100 text-blue-600" : "hover:bg-gray-100 text-gray-700"
+                  }`}
+                >
+                  <Icon className="w-5 h-5" />
+                </button>
+              ))}
+            </div>
+
+            {/* Arrowhead Picker */}
+            {selectedTool === "arrow" && (
+              <div className="relative px-3 border-r border-gray-200">
+                <button
+                  onClick={() => togglePicker("arrowhead")}
+                  className="flex items-center gap-2 p-2 rounded-lg hover:bg-gray-100 transition-all text-gray-700 text-sm"
+                >
+                  {arrowheadLabels[startHead]} / {arrowheadLabels[endHead]}
+                  <ChevronDown className="w-4 h-4 text-gray-600" />
+                </button>
+
+                {openPicker === "arrowhead" && (
+                  <div className="absolute top-full left-0 mt-2 bg-white rounded-xl shadow-lg p-3 space-y-2 z-50 text-sm text-gray-700">
+                    {(["start", "end"] as const).map((end) => (
+                      <div key={end} className="flex items-center gap-2">
+                        <span className="w-10 text-gray-500 capitalize">{end}</span>
+                        {arrowheads.map((head) => {
+                          const active = (end === "start" ? startHead : endHead) === head;
+                          return (
+                            <button
+                              key={head}
+                              onClick={() => {
+                                const nextStart = end === "start" ? head : startHead;
+                                const nextEnd = end === "end" ? head : endHead;
+                                setStartHead(nextStart);
+                                setEndHead(nextEnd);
+                                game?.setArrowheads(nextStart, nextEnd);
+                              }}
+                              className={optionClass(active)}
+                            >
+                              {arrowheadLabels[head]}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
   
-          {/* Color Picker */}
-          <div className="relative px-3 border-r border-gray-200">
-            <button
-              onClick={() => {
-                setShowColorPicker(!showColorPicker);
-                setShowWidthPicker(false);
-              }}
-              className="flex items-center gap-2 p-2 rounded-lg hover:bg-gray-100 transition-all"
-            >
-              <div
-                className="w-5 h-5 rounded-full border border-gray-300"
-                style={{ backgroundColor: selectedColor }}
-              />
-              <ChevronDown className="w-4 h-4 text-gray-600" />
-            </button>
+            {/* Color Picker */}
+            <div className="relative px-3 border-r border-gray-200 flex items-center gap-1">
+              <button
+                onClick={() => togglePicker("color")}
+                title="Stroke color"
+                className="flex items-center gap-2 p-2 rounded-lg hover:bg-gray-100 transition-all"
+              >
+                <div
+                  className="w-5 h-5 rounded-full border border-gray-300"
+                  style={{ backgroundColor: selectedColor }}
+                />
+                <ChevronDown className="w-4 h-4 text-gray-600" />
+              </button>
+              <button
+                onClick={() => togglePicker("fill")}
+                title="Background"
+                className="flex items-center gap-1 p-2 rounded-lg hover:bg-gray-100 transition-all text-gray-700"
+              >
+                <PaintBucket className="w-5 h-5" style={{ color: fillColor === "transparent" ? undefined : fillColor }} />
+              </button>
   
-            {showColorPicker && (
-              <div className="absolute top-full left-0 mt-2 bg-white rounded-xl shadow-lg p-2 grid grid-cols-3 gap-2 z-50">
-                {colors.map((color) => (
-                  <button
-                    key={color}
-                    onClick={() => {
+              {openPicker === "color" && (
+                <div className="absolute top-full left-0 mt-2 bg-white rounded-xl shadow-lg p-3 z-50">
+                  <ColorPicker
+                    value={selectedColor}
+                    onChange={(color) => {
                       setSelectedColor(color);
                       game?.setColor(color);
-                      setShowColorPicker(false);
                     }}
-                    className="rounded-lg pr-4 hover:bg-gray-100 transition-all"
-                  >
-                    <div
-                      className="w-6 h-6 rounded-full border border-gray-300"
-                      style={{ backgroundColor: color }}
+                  />
+                </div>
+              )}
+
+              {openPicker === "fill" && (
+                <div className="absolute top-full left-0 mt-2 bg-white rounded-xl shadow-lg p-3 space-y-3 z-50 text-sm text-gray-700">
+                  <ColorPicker
+                    value={fillColor}
+                    allowTransparent
+                    onChange={(color) => {
+                      // Picking a color with no fill style would otherwise look like nothing happened
+                      const nextStyle = color === "transparent" ? "none" : fillStyle === "none" ? "hachure" : fillStyle;
+                      setFillColor(color);
+                      setFillStyle(nextStyle);
+                      game?.setStyle({ fillColor: color, fillStyle: nextStyle });
+                    }}
+                  />
+                  <div className="flex items-center gap-1">
+                    {fillStyles.map(({ value, label }) => (
+                      <button
+                        key={value}
+                        onClick={() => {
+                          setFillStyle(value);
+                          game?.setStyle({ fillStyle: value });
+                        }}
+                        className={optionClass(fillStyle === value)}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+  
+            {/* Line Width Picker */}
+            <div className="relative px-3 border-r border-gray-200">
+              <button
+                onClick={() => togglePicker("width")}
+                className="flex items-center gap-2 p-2 rounded-lg hover:bg-gray-100 transition-all"
+              >
+                <div className="w-5 h-5 flex items-center">
+                  <div
+                    className="bg-black rounded-full"
+                    style={{ width: "100%", height: `${selectedLineWidth}px` }}
+                  />
+                </div>
+                <ChevronDown className="w-4 h-4 text-gray-600" />
+              </button>
+  
+              {openPicker === "width" && (
+                <div className="absolute top-full left-0 mt-2 bg-white rounded-xl shadow-lg p-2 space-y-2 z-50">
+                  {lineWidths.map((width) => (
+                    <button
+                      key={width}
+                      onClick={() => {
+                        setSelectedLineWidth(width);
+                        game?.setLineWidth(width);
+                        setOpenPicker(null);
+                      }}
+                      className="p-2 rounded-lg hover:bg-gray-100 transition-all w-full flex items-center justify-center"
+                    >
+                      <div
+                        className="bg-black rounded-full"
+                        style={{ width: "24px", height: `${width}px` }}
+                      />
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+  
+            {/* Stroke Style, Opacity and Corners */}
+            <div className="relative px-3 border-r border-gray-200">
+              <button
+                onClick={() => togglePicker("style")}
+                title="Stroke style, opacity and corners"
+                className="flex items-center gap-2 p-2 rounded-lg hover:bg-gray-100 transition-all text-gray-700"
+              >
+                <SlidersHorizontal className="w-5 h-5" />
+                <ChevronDown className="w-4 h-4 text-gray-600" />
+              </button>
+
+              {openPicker === "style" && (
+                <div className="absolute top-full left-0 mt-2 bg-white rounded-xl shadow-lg p-3 space-y-3 z-50 text-sm text-gray-700 w-56">
+                  <div>
+                    <div className="mb-1 text-xs text-gray-500">Stroke style</div>
+                    <div className="flex items-center gap-1">
+                      {strokeStyles.map(({ value, label }) => (
+                        <button
+                          key={value}
+                          onClick={() => {
+                            setStrokeStyle(value);
+                            game?.setStyle({ strokeStyle: value });
+                          }}
+                          className={optionClass(strokeStyle === value)}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="mb-1 text-xs text-gray-500">Corners</div>
+                    <div className="flex items-center gap-1">
+                      {[
+                        { value: 0, label: "Sharp" },
+                        { value: 16, label: "Round" },
+                      ].map(({ value, label }) => (
+                        <button
+                          key={value}
+                          onClick={() => {
+                            setCornerRadius(value);
+                            game?.setStyle({ cornerRadius: value });
+                          }}
+                          className={optionClass(cornerRadius === value)}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="mb-1 flex justify-between text-xs text-gray-500">
+                      <span>Opacity</span>
+                      <span>{opacity}%</span>
+                    </div>
+                    <input
+                      type="range"
+                      min={10}
+                      max={100}
+                      step={10}
+                      value={opacity}
+                      onChange={(e) => {
+                        const value = Number(e.target.value);
+                        setOpacity(value);
+                        game?.setStyle({ opacity: value / 100 });
+                      }}
+                      className="w-full"
                     />
-                  </button>
-                ))}
-              </div>
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {/* History Group */}
+            <div className="flex items-center gap-1 px-3 border-r border-gray-200">
+              <button
+                onClick={() => game?.undo()}
+                disabled={!canUndo}
+                title="Undo (Ctrl+Z)"
+                className="p-2 rounded-lg transition-all hover:bg-gray-100 text-gray-700 disabled:opacity-40 disabled:hover:bg-transparent"
+              >
+                <Undo2 className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => game?.redo()}
+                disabled={!canRedo}
+                title="Redo (Ctrl+Shift+Z)"
+                className="p-2 rounded-lg transition-all hover:bg-gray-100 text-gray-700 disabled:opacity-40 disabled:hover:bg-transparent"
+              >
+                <Redo2 className="w-5 h-5" />
+              </button>
+            </div>
+            </>
+          )}
+
+          {/* Import / Export */}
+          <div className="relative px-3 border-r border-gray-200 flex items-center gap-1">
+            {canEdit && (
+              <>
+                <button
+                  onClick={() => importInputRef.current?.click()}
+                  title="Import a board (.json or .excalidraw)"
+                  className="p-2 rounded-lg transition-all hover:bg-gray-100 text-gray-700"
+                >
+                  <Upload className="w-5 h-5" />
+                </button>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept=".json,.excalidraw,application/json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) importBoard(file);
+                    // Allow picking the same file again
+                    e.target.value = "";
+                  }}
+                />
+              </>
             )}
-          </div>
-  
-          {/* Line Width Picker */}
-          <div className="relative px-3 border-r border-gray-200">
             <button
-              onClick={() => {
-                setShowWidthPicker(!showWidthPicker);
-                setShowColorPicker(false);
-              }}
-              className="flex items-center gap-2 p-2 rounded-lg hover:bg-gray-100 transition-all"
+              onClick={() => togglePicker("export")}
+              title="Export"
+              className="p-2 rounded-lg transition-all hover:bg-gray-100 text-gray-700"
             >
-              <div className="w-5 h-5 flex items-center">
-                <div
-                  className="bg-black rounded-full"
-                  style={{ width: "100%", height: `${selectedLineWidth}px` }}
-                />
-              </div>
-              <ChevronDown className="w-4 h-4 text-gray-600" />
+              <Download className="w-5 h-5" />
             </button>
-  
-            {showWidthPicker && (
-              <div className="absolute top-full left-0 mt-2 bg-white rounded-xl shadow-lg p-2 space-y-2 z-50">
-                {lineWidths.map((width) => (
-                  <button
-                    key={width}
-                    onClick={() => {
-                      setSelectedLineWidth(width);
-                      game?.setLineWidth(width);
-                      setShowWidthPicker(false);
-                    }}
-                    className="p-2 rounded-lg hover:bg-gray-100 transition-all w-full flex items-center justify-center"
-                  >
-                    <div
-                      className="bg-black rounded-full"
-                      style={{ width: "24px", height: `${width}px` }}
-                    />
-                  </button>
-                ))}
+
+            {openPicker === "export" && (
+              <div className="absolute top-full right-0 mt-2 bg-white rounded-xl shadow-lg p-3 space-y-3 z-50 text-sm text-gray-700 w-56">
+                <div>
+                  <div className="mb-1 text-xs text-gray-500">Scale</div>
+                  <div className="flex items-center gap-1">
+                    {exportScales.map((scale) => (
+                      <button
+                        key={scale}
+                        onClick={() => setExportScale(scale)}
+                        className={optionClass(exportScale === scale)}
+                      >
+                        {scale}×
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={exportBackground}
+                    onChange={(e) => setExportBackground(e.target.checked)}
+                  />
+                  Background
+                </label>
+                <div className="flex items-center gap-1 pt-2 border-t border-gray-100">
+                  {(["png", "svg", "json"] as const).map((format) => (
+                    <button
+                      key={format}
+                      onClick={() => exportBoard(format)}
+                      className="flex-1 px-2 py-1 rounded-lg bg-gray-100 hover:bg-gray-200 transition-all uppercase"
+                    >
+                      {format}
+                    </button>
+                  ))}
+                </div>
               </div>
             )}
           </div>
-  
-          {/* Clear Canvas Button */}
-          <button
-            onClick={() => setShowClearAlert(true)}
-            className="p-2 rounded-lg hover:bg-red-50 text-red-500 transition-all"
-          >
-            <Trash2 className="w-5 h-5" />
-          </button>
+
+          {/* Sharing */}
+          {access.role === "owner" && (
+            <button
+              onClick={() => setShowShareDialog(true)}
+              title="Share"
+              className="p-2 rounded-lg transition-all hover:bg-gray-100 text-gray-700"
+            >
+              <Share2 className="w-5 h-5" />
+            </button>
+          )}
+          {!canEdit && (
+            <span className="flex items-center gap-1.5 px-2 text-sm text-gray-500">
+              <Eye className="w-4 h-4" /> View only
+            </span>
+          )}
+
+          {/* Clear Canvas and Restore */}
+          {canEdit && (
+            <div className="relative flex items-center gap-1">
+              <button
+                onClick={() => togglePicker("cleared")}
+                title="Recently cleared"
+                className="p-2 rounded-lg transition-all hover:bg-gray-100 text-gray-700"
+              >
+                <ArchiveRestore className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => setShowClearAlert(true)}
+                title="Clear canvas"
+                className="p-2 rounded-lg hover:bg-red-50 text-red-500 transition-all"
+              >
+                <Trash2 className="w-5 h-5" />
+              </button>
+
+              {openPicker === "cleared" && (
+                <div className="absolute top-full right-0 mt-2 bg-white rounded-xl shadow-lg p-3 z-50">
+                  <RecentlyCleared roomId={roomId} game={game} />
+                </div>
+              )}
+            </div>
+          )}
         </div>
   
+        <PresenceAvatars game={game} />
+
+        {clearNotice && (
+          <div className="absolute top-full left-1/2 -translate-x-1/2 mt-2 flex items-center gap-3 bg-gray-900 text-white text-sm rounded-lg shadow px-4 py-2 whitespace-nowrap">
+            {clearNotice.name} cleared the canvas
+            {canEdit && clearNotice.clearId !== null && (
+              <button
+                onClick={() => {
+                  game?.restoreClear(clearNotice.clearId!);
+                  setClearNotice(null);
+                }}
+                className="font-medium text-blue-300 hover:text-blue-200"
+              >
+                Restore
+              </button>
+            )}
+          </div>
+        )}
+
+        {errorNotice && (
+          <div className="absolute top-full left-1/2 -translate-x-1/2 mt-2 flex items-center gap-3 bg-red-50 text-red-600 text-sm rounded-lg shadow px-4 py-2 whitespace-nowrap">
+            {errorNotice}
+            <button onClick={() => setErrorNotice(null)} className="text-red-400 hover:text-red-600">
+              ✕
+            </button>
+          </div>
+        )}
+
+        {showShareDialog && (
+          <ShareDialog
+            roomId={roomId}
+            visibility={visibility}
+            onVisibilityChange={setVisibility}
+            onClose={() => setShowShareDialog(false)}
+          />
+        )}
+
         {/* Clear Alert Modal */}
         {showClearAlert && (
           <div className="fixed inset-0 flex items-center justify-center bg-black/50 z-50">
             <div className="bg-white mt-24 rounded-2xl shadow-lg max-w-sm w-full p-6">
               <h2 className="text-xl font-semibold text-gray-900">Clear Canvas</h2>
               <p className="mt-2 text-gray-600">
-                Are you sure you want to clear the canvas? This action cannot be undone.
+                Are you sure you want to clear the canvas for everyone in the room? It can be restored from &quot;Recently cleared&quot; for 24 hours.
               </p>
               
               <div className="flex justify-end gap-3 mt-6">
@@ -176,7 +604,7 @@ export const Topbar = ({
                 </button>
                 <button
                   onClick={() => {
-                    clearCanvas(roomId);
+                    game?.clear();
                     setShowClearAlert(false);
                   }}
                   className="px-4 py-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-all"
@@ -2,6 +2,7 @@
 import { useEffect, useRef, useState } from "react";
 import { IconButton } from "./IconButton";
 import { Mic, MicOff, Volume2, VolumeX } from "lucide-react";
+import { RoomConnection, ServerMessageOf } from "@/lib/connection";
 
 interface VoiceChatState {
   isMuted: boolean;
@@ -13,9 +14,9 @@ interface VoiceChatState {
 
 export function VoiceChat({
   roomId,
-  socket,
+  connection,
 }: {
-  socket: WebSocket;
+  connection: RoomConnection;
   roomId: string;
 }) {
   const [voiceState, setVoiceState] = useState<VoiceChatState>({
@@ -40,13 +41,15 @@ export function VoiceChat({
     
     try {
       const offer = await peerConnectionRef.current?.createOffer();
+      // Initialization failed, e.g. no microphone permission
+      if (!offer) return;
       await peerConnectionRef.current?.setLocalDescription(offer);
       
-      socket.send(JSON.stringify({
+      connection.sendVolatile({
         type: 'offer',
         offer,
         roomId
-      }));
+      });
       
       setVoiceState(prev => ({
         ...prev,
@@ -107,11 +110,11 @@ export function VoiceChat({
 
       peerConnectionRef.current.onicecandidate = (event) => {
         if (event.candidate) {
-          socket.send(JSON.stringify({
+          connection.sendVolatile({
             type: 'ice-candidate',
             candidate: event.candidate,
             roomId
-          }));
+          });
           console.log('🧊 Sent ICE candidate');
         }
       };
@@ -174,11 +177,7 @@ export function VoiceChat({
     audioElement.autoplay = true;
     audioElementRef.current = audioElement;
 
-    const handleWebRTCSignaling = async (event: MessageEvent) => {
-      const data = JSON.parse(event.data);
-      
-      if (data.roomId !== roomId) return;
-
+    const handleWebRTCSignaling = async (data: ServerMessageOf<"offer" | "answer" | "ice-candidate">) => {
       console.log('📨 Received WebRTC message:', data.type);
 
       switch (data.type) {
@@ -188,11 +187,11 @@ export function VoiceChat({
             await peerConnectionRef.current.setRemoteDescription(new RTCSessionDescription(data.offer));
             const answer = await peerConnectionRef.current.createAnswer();
             await peerConnectionRef.current.setLocalDescription(answer);
-            socket.send(JSON.stringify({
+            connection.sendVolatile({
               type: 'answer',
               answer,
               roomId
-            }));
+            });
             console.log('📞 Sent call answer');
           }
           break;
@@ -213,9 +212,13 @@ export function VoiceChat({
       }
     };
 
-    socket.addEventListener('message', handleWebRTCSignaling);
+    const unsubscribers = [
+      connection.on("offer", handleWebRTCSignaling),
+      connection.on("answer", handleWebRTCSignaling),
+      connection.on("ice-candidate", handleWebRTCSignaling),
+    ];
     return () => {
-      socket.removeEventListener('message', handleWebRTCSignaling);
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
       if (animationFrameRef.current) {
         cancelAnimationFrame(animationFrameRef.current);
       }
@@ -225,7 +228,7 @@ export function VoiceChat({
         audioElementRef.current.srcObject = null;
       }
     };
-  }, [roomId, socket]);
+  }, [roomId, connection]);
 
   return (
     <div className="fixed bottom-4 right-4 z-30 bg-gray-800 rounded-xl shadow-lg p-3 space-y-3">
@@ -1,2 +1,2 @@
 export const HTTP_Backend = "http://localhost:3002";
-export const WS_URL = "ws://localhost:8080";
\ No newline at end of file
+export const WS_URL = "ws://localhost:8080";
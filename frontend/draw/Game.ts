@@ -1,14 +1,95 @@
 import { getExistingShapes } from "./http";
+import { applyShapeOperation, ShapeOperation, shapesEqual } from "./shapes";
+import { History, HistoryEntry } from "./history";
+import {
+  Bounds,
+  boundsContain,
+  getHandleAt,
+  getHandleCursor,
+  getHandlePosition,
+  getShapeBounds,
+  Handle,
+  HANDLES,
+  hitTestShape,
+  isBindable,
+  isBoundTo,
+  isConnector,
+  normalizeBounds,
+  resizeBounds,
+  routeConnector,
+  scaleShape,
+  shapeIntersectsCircle,
+  translateShape,
+  unionBounds,
+} from "./geometry";
+import { FONT_FAMILY, LINE_HEIGHT, renderShape, STICKY_PADDING } from "./render";
+import { CURSOR_THROTTLE_MS, getUserColor, Participant, RemoteCursor } from "./presence";
+import type { RoomConnection } from "@/lib/connection";
+import { generateId } from "@/lib/ids";
+import type { ChatAnchor, CommentPin } from "@/lib/protocol";
+import { getCommentPins, upsertCommentPin } from "@/lib/comments";
+import { CommentRequest, drawCommentPin, hitTestCommentPin, isCommentPinVisible } from "./comments";
 
-type Tool = "circle" | "rect" | "pencil" | "eraser" | "move";
+type Tool = "circle" | "rect" | "pencil" | "eraser" | "select" | "line" | "arrow" | "diamond" | "text" | "sticky" | "comment";
+
+export type ArrowHead = "none" | "arrow" | "triangle";
+
+// Attaches one end of a line or arrow to another shape
+export interface ShapeBinding {
+  shapeId: string;
+}
+
+// A clear by anyone in the room, or a failed attempt to restore one
+export type ClearEvent =
+  | { type: "cleared"; clearId: number | null; userId: string; name: string }
+  | { type: "restore_failed"; clearId: number; msg: string };
+
+// What a press with the select tool turned into
+type DragState =
+  | { kind: "move"; originals: Shape[]; connectors: Shape[] }
+  | { kind: "resize"; handle: Handle; originals: Shape[]; connectors: Shape[]; bounds: Bounds }
+  | { kind: "marquee"; additive: boolean };
+
+const HANDLE_SIZE = 8;
+const HIGHLIGHT_MS = 2500;
+// Room left around a shape that is zoomed out to fit when focused
+const FOCUS_PADDING = 80;
+const STICKY_SIZE = 200;
+const STICKY_FILL = "#fef08a";
+
+export type StrokeStyle = "solid" | "dashed" | "dotted";
+export type FillStyle = "none" | "solid" | "hachure";
+
+// Everything except color and width is optional so that scenes saved before
+// these options existed still render as plain solid strokes.
+export interface ShapeStyle {
+  color: string;
+  lineWidth: number;
+  strokeStyle?: StrokeStyle;
+  fillStyle?: FillStyle;
+  fillColor?: string;
+  opacity?: number;
+}
+
+export interface StyleOptions {
+  strokeStyle: StrokeStyle;
+  fillStyle: FillStyle;
+  fillColor: string;
+  opacity: number;
+  cornerRadius: number;
+}
 
 export type Shape =
-  | { type: "rect"; x: number; y: number; width: number; height: number; color: string; lineWidth: number }
-  | { type: "circle"; centerX: number; centerY: number; radiusX: number; radiusY: number; color: string; lineWidth: number }
-  | { type: "pencil"; points: { x: number; y: number }[]; color: string; lineWidth: number }
-  | { type: "move"; shape: Shape; offsetX: number; offsetY: number }
+  | ({ id: string; type: "rect"; x: number; y: number; width: number; height: number; cornerRadius?: number } & ShapeStyle)
+  | ({ id: string; type: "circle"; centerX: number; centerY: number; radiusX: number; radiusY: number } & ShapeStyle)
+  | ({ id: string; type: "pencil"; points: { x: number; y: number }[] } & ShapeStyle)
+  | ({ id: string; type: "line"; x1: number; y1: number; x2: number; y2: number; startBinding?: ShapeBinding; endBinding?: ShapeBinding } & ShapeStyle)
+  | ({ id: string; type: "arrow"; x1: number; y1: number; x2: number; y2: number; startHead: ArrowHead; endHead: ArrowHead; startBinding?: ShapeBinding; endBinding?: ShapeBinding } & ShapeStyle)
+  | ({ id: string; type: "diamond"; x: number; y: number; width: number; height: number } & ShapeStyle)
+  | ({ id: string; type: "text"; x: number; y: number; width: number; height: number; text: string; fontSize: number } & ShapeStyle)
+  | ({ id: string; type: "sticky"; x: number; y: number; width: number; height: number; text: string; fontSize: number; fill: string } & ShapeStyle)
   // | { type: "eraser"; x: number; y: number; width: number; height: number };
-  | { type: "eraser"; points: { x: number; y: number }[]; radius: number };
+  | { id: string; type: "eraser"; points: { x: number; y: number }[]; radius: number };
 
 export class Game {
   public canvas: HTMLCanvasElement;
@@ -25,6 +106,43 @@ export class Game {
   private currentMouseY: number = 0;
   private currentColor: string = "black";
   private currentLineWidth: number = 2;
+  private currentStyle: StyleOptions = {
+    strokeStyle: "solid",
+    fillStyle: "none",
+    fillColor: "transparent",
+    opacity: 1,
+    cornerRadius: 0,
+  };
+  private history = new History();
+  private erasedInStroke: Shape[] = [];
+  private selectedIds = new Set<string>();
+  private dragState: DragState | null = null;
+  private startHead: ArrowHead = "none";
+  private endHead: ArrowHead = "arrow";
+  private textEditor: HTMLTextAreaElement | null = null;
+  private editingShapeId: string | null = null;
+  private participants: Participant[] = [];
+  private remoteCursors = new Map<string, RemoteCursor>();
+  private presenceListeners = new Set<() => void>();
+  private lastCursorSentAt: number = 0;
+  private clearListeners = new Set<(event: ClearEvent) => void>();
+  private versionRestoreListeners = new Set<(msg: string) => void>();
+  private readOnlyListeners = new Set<() => void>();
+  private sceneError: string | null = null;
+  private sceneErrorListeners = new Set<() => void>();
+  // Local operations the server may not have applied yet, replayed over each reload
+  // of the scene so that a reconnect doesn't undo what was drawn while offline
+  private unsyncedOperations: ShapeOperation[] = [];
+  private loadingScene: boolean = false;
+  private unsubscribers: (() => void)[] = [];
+  private highlightedShapeId: string | null = null;
+  private highlightTimer: ReturnType<typeof setTimeout> | null = null;
+  private commentPins: CommentPin[] = [];
+  private showResolvedComments: boolean = false;
+  private activeCommentId: number | null = null;
+  private commentListeners = new Set<() => void>();
+  private commentRequestListeners = new Set<(request: CommentRequest) => void>();
+  private viewportListeners = new Set<() => void>();
 
   private scale: number = 1;
   private minScale: number = 0.1;
@@ -35,13 +153,16 @@ export class Game {
   private lastPanX: number = 0;
   private lastPanY: number = 0;
 
-  socket: WebSocket;
+  connection: RoomConnection;
+  // Viewers can pan, zoom and watch, but every drag pans and nothing is edited
+  private readOnly: boolean;
 
-  constructor(canvas: HTMLCanvasElement, roomId: string, socket: WebSocket) {
+  constructor(canvas: HTMLCanvasElement, roomId: string, connection: RoomConnection, readOnly: boolean = false) {
     this.canvas = canvas;
     this.ctx = canvas.getContext("2d")!;
     this.roomId = roomId;
-    this.socket = socket;
+    this.connection = connection;
+    this.readOnly = readOnly;
     this.init();
     this.initHandlers();
     this.initMouseHandlers();
@@ -49,6 +170,12 @@ export class Game {
   }
 
   destroy() {
+    const editor = this.textEditor;
+    this.textEditor = null;
+    editor?.remove();
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    if (this.highlightTimer) clearTimeout(this.highlightTimer);
+    this.canvas.removeEventListener("dblclick", this.doubleClickHandler);
     this.canvas.removeEventListener("mousedown", this.mouseDownHandler);
     this.canvas.removeEventListener("mouseup", this.mouseUpHandler);
     this.canvas.removeEventListener("mousemove", this.mouseMoveHandler);
@@ -59,39 +186,515 @@ export class Game {
 
   setTool(tool: Tool) {
     this.selectedTool = tool;
-    this.canvas.style.cursor = tool === "move" ? "move" : "crosshair";
+    this.canvas.style.cursor = this.getToolCursor();
+    if (tool !== "select" && this.selectedIds.size > 0) {
+      this.selectedIds.clear();
+      this.redrawCanvas();
+    }
+  }
+
+  isReadOnly() {
+    return this.readOnly;
+  }
+
+  onReadOnlyChange(listener: () => void): () => void {
+    this.readOnlyListeners.add(listener);
+    return () => {
+      this.readOnlyListeners.delete(listener);
+    };
+  }
+
+  // The server turned down an edit, e.g. because our role was changed to viewer with
+  // the room open. Nothing drawn since then reached anyone, so it's thrown away with
+  // the history and the scene is reloaded from the server.
+  private becomeReadOnly() {
+    if (this.readOnly) return;
+    this.readOnly = true;
+    this.clicked = false;
+    this.activeShape = null;
+    this.currentPencilStroke = [];
+    this.dragState = null;
+    this.selectedIds.clear();
+    const editor = this.textEditor;
+    this.textEditor = null;
+    editor?.remove();
+    this.unsyncedOperations = [];
+    this.history.clear();
+    this.canvas.style.cursor = this.getToolCursor();
+    this.readOnlyListeners.forEach((listener) => listener());
+    this.reloadScene();
+  }
+
+  // Viewers never edit, and nobody does while too much is waiting to sync
+  private canEdit() {
+    return !this.readOnly && !this.connection.isQueueFull();
+  }
+
+  private getToolCursor() {
+    if (this.readOnly) return "grab";
+    if (this.selectedTool === "select") return "default";
+    if (this.selectedTool === "text") return "text";
+    return "crosshair";
+  }
+
+  setArrowheads(startHead: ArrowHead, endHead: ArrowHead) {
+    this.startHead = startHead;
+    this.endHead = endHead;
+  }
+
+  getShapes(): Shape[] {
+    return [...this.existingShapes];
+  }
+
+  getSelectedShapes(): Shape[] {
+    return this.existingShapes.filter((shape) => this.selectedIds.has(shape.id));
+  }
+
+  deleteSelected() {
+    if (!this.canEdit()) return;
+    const shapes = this.getSelectedShapes();
+    this.selectedIds.clear();
+    if (shapes.length > 0) {
+      this.applyLocalOperation({ type: "shape_delete", ids: shapes.map((shape) => shape.id) });
+      this.history.record(shapes.map((shape) => ({ id: shape.id, before: shape, after: null })));
+    }
+    this.redrawCanvas();
+  }
+
+  private getSelectionBounds(): Bounds | null {
+    return unionBounds(this.getSelectedShapes().map(getShapeBounds));
   }
 
   setColor(color: string) {
     this.currentColor = color;
-    this.redrawCanvas();
+    this.restyleSelection((shape) => ({ ...shape, color }));
   }
 
   setLineWidth(lineWidth: number) {
     this.currentLineWidth = lineWidth;
+    this.restyleSelection((shape) => ({ ...shape, lineWidth }));
+  }
+
+  // Updates the style for new shapes and applies it to the current selection
+  setStyle(style: Partial<StyleOptions>) {
+    this.currentStyle = { ...this.currentStyle, ...style };
+    const { cornerRadius, ...shapeStyle } = style;
+    this.restyleSelection((shape) => {
+      const next = { ...shape, ...shapeStyle } as Shape;
+      if (next.type === "rect" && cornerRadius !== undefined) next.cornerRadius = cornerRadius;
+      // Sticky notes have their own paper color rather than a fill style
+      if (next.type === "sticky" && style.fillColor && style.fillColor !== "transparent") next.fill = style.fillColor;
+      return next;
+    });
+  }
+
+  getStyle(): StyleOptions & { color: string; lineWidth: number } {
+    return { ...this.currentStyle, color: this.currentColor, lineWidth: this.currentLineWidth };
+  }
+
+  private restyleSelection(restyle: (shape: Shape & ShapeStyle) => Shape) {
+    if (!this.canEdit()) return;
+    const changes = this.getSelectedShapes().flatMap((shape) =>
+      shape.type === "eraser" ? [] : [{ id: shape.id, before: shape, after: restyle(shape) }]
+    );
+    if (changes.length > 0) {
+      this.applyLocalOperation({ type: "shape_update", shapes: changes.map((change) => change.after) });
+      this.history.record(changes);
+    }
     this.redrawCanvas();
   }
 
   async init() {
-    this.existingShapes = await getExistingShapes(this.roomId);
+    // We may have mounted after the join_room reply went out
+    this.connection.sendVolatile({ type: "presence_request", roomId: this.roomId });
+    await Promise.all([this.reloadScene(), this.loadComments()]);
+  }
+
+  // Loads the scene, reporting a failure rather than leaving the board silently
+  // empty; calling it again retries
+  async reloadScene() {
+    try {
+      await this.loadScene();
+      this.setSceneError(null);
+    } catch (e) {
+      console.warn("Couldn't load the board:", e);
+      this.setSceneError("We couldn't load this board.");
+    }
+  }
+
+  getSceneError(): string | null {
+    return this.sceneError;
+  }
+
+  onSceneErrorChange(listener: () => void): () => void {
+    this.sceneErrorListeners.add(listener);
+    return () => {
+      this.sceneErrorListeners.delete(listener);
+    };
+  }
+
+  private setSceneError(error: string | null) {
+    if (this.sceneError === error) return;
+    this.sceneError = error;
+    this.sceneErrorListeners.forEach((listener) => listener());
+  }
+
+  // Replaces the scene with the server's copy, keeping local changes it may not have yet
+  private async loadScene() {
+    this.loadingScene = true;
+    try {
+      const shapes = await getExistingShapes(this.roomId);
+      this.existingShapes = this.unsyncedOperations.reduce(applyShapeOperation, shapes);
+      this.unsyncedOperations = [];
+    } finally {
+      this.loadingScene = false;
+    }
+    const ids = new Set(this.existingShapes.map((shape) => shape.id));
+    this.selectedIds = new Set([...this.selectedIds].filter((id) => ids.has(id)));
+    this.redrawCanvas();
+  }
+
+  private async loadComments() {
+    try {
+      this.commentPins = await getCommentPins(this.roomId);
+    } catch {
+      // Comments are extra; the board still works without them
+      return;
+    }
+    this.commentListeners.forEach((listener) => listener());
+    this.redrawCanvas();
+  }
+
+  getCommentPins(): CommentPin[] {
+    return this.commentPins;
+  }
+
+  onCommentsChange(listener: () => void): () => void {
+    this.commentListeners.add(listener);
+    return () => {
+      this.commentListeners.delete(listener);
+    };
+  }
+
+  // Clicking a pin, or the board with the comment tool, asks for a thread to be shown
+  onCommentRequest(listener: (request: CommentRequest) => void): () => void {
+    this.commentRequestListeners.add(listener);
+    return () => {
+      this.commentRequestListeners.delete(listener);
+    };
+  }
+
+  setShowResolvedComments(show: boolean) {
+    this.showResolvedComments = show;
+    this.redrawCanvas();
+  }
+
+  // The pin whose thread is open, drawn raised above the others
+  setActiveComment(pinId: number | null) {
+    this.activeCommentId = pinId;
     this.redrawCanvas();
   }
 
+  createComment(x: number, y: number, body: string): boolean {
+    return this.connection.send({ type: "comment_create", roomId: this.roomId, x, y, body });
+  }
+
+  replyToComment(pinId: number, body: string): boolean {
+    return this.connection.send({ type: "comment_reply", roomId: this.roomId, pinId, body });
+  }
+
+  setCommentResolved(pinId: number, resolved: boolean): boolean {
+    return this.connection.send({ type: "comment_resolve", roomId: this.roomId, pinId, resolved });
+  }
+
+  private findCommentPinAt(screenX: number, screenY: number): CommentPin | undefined {
+    // Topmost first, matching the drawing order
+    return [...this.getVisibleCommentPins()].reverse().find((pin) => {
+      const p = this.canvasToScreen(pin.x, pin.y);
+      return hitTestCommentPin(p.x, p.y, screenX, screenY);
+    });
+  }
+
+  private getVisibleCommentPins(): CommentPin[] {
+    const pins = this.commentPins.filter((pin) => isCommentPinVisible(pin, this.showResolvedComments));
+    const active = pins.find((pin) => pin.id === this.activeCommentId);
+    return active ? [...pins.filter((pin) => pin !== active), active] : pins;
+  }
+
+  // Drawn in screen space, like cursors, so pins keep their size at any zoom
+  private drawCommentPins() {
+    this.getVisibleCommentPins().forEach((pin) => {
+      const p = this.canvasToScreen(pin.x, pin.y);
+      drawCommentPin(this.ctx, pin, p.x, p.y, pin.id === this.activeCommentId);
+    });
+  }
+
+  // Where a point on the board is on screen right now, for overlays that follow pan and zoom
+  toScreen(x: number, y: number): { x: number; y: number } {
+    return this.canvasToScreen(x, y);
+  }
+
+  onViewportChange(listener: () => void): () => void {
+    this.viewportListeners.add(listener);
+    return () => {
+      this.viewportListeners.delete(listener);
+    };
+  }
+
+  getParticipants(): Participant[] {
+    return this.participants;
+  }
+
+  onPresenceChange(listener: () => void): () => void {
+    this.presenceListeners.add(listener);
+    return () => {
+      this.presenceListeners.delete(listener);
+    };
+  }
+
+  private setParticipants(participants: Participant[]) {
+    this.participants = participants;
+    const present = new Set(participants.map((p) => p.userId));
+    [...this.remoteCursors.keys()].forEach((userId) => {
+      if (!present.has(userId)) this.remoteCursors.delete(userId);
+    });
+    this.presenceListeners.forEach((listener) => listener());
+    this.redrawCanvas();
+  }
+
+  private sendCursor(x: number, y: number) {
+    const now = Date.now();
+    if (now - this.lastCursorSentAt < CURSOR_THROTTLE_MS) return;
+    this.lastCursorSentAt = now;
+    this.connection.sendVolatile({ type: "cursor", roomId: this.roomId, x, y });
+  }
+
   initHandlers() {
-    this.socket.onmessage = (event) => {
-      const message = JSON.parse(event.data);
-      if (message.type === "chat") {
-        const parsedShape = JSON.parse(message.message);
-        if (parsedShape.type === "update") {
-          this.existingShapes = parsedShape.shapes;
-        } else {
-          this.existingShapes.push(parsedShape.shape);
-        }
-        this.redrawCanvas();
+    // Whatever happened while we were offline is only on the server
+    this.unsubscribers.push(this.connection.onResync(() => Promise.all([this.reloadScene(), this.loadComments()])));
+    const applyRemoteOperation = (operation: ShapeOperation) => {
+      this.existingShapes = applyShapeOperation(this.existingShapes, operation);
+      if (operation.type !== "shape_delete") {
+        // Senders include rerouted connectors, but routing is deterministic so redo it
+        // locally in case a shape moved without its connectors being sent along
+        this.replaceShapes(this.rerouteConnectors(this.getAttachedConnectors(operation.shapes)));
       }
+      this.redrawCanvas();
+    };
+
+    this.unsubscribers.push(
+      this.connection.on("presence", (message) => this.setParticipants(message.users)),
+      this.connection.on("canvas_cleared", ({ clearId, userId, name }) => {
+        this.existingShapes = [];
+        this.selectedIds.clear();
+        this.redrawCanvas();
+        this.clearListeners.forEach((listener) => listener({ type: "cleared", clearId, userId, name }));
+      }),
+      this.connection.on("restore_failed", ({ clearId, msg }) => {
+        this.clearListeners.forEach((listener) => listener({ type: "restore_failed", clearId, msg }));
+      }),
+      this.connection.on("access_denied", ({ action }) => {
+        if (action === "edit") this.becomeReadOnly();
+      }),
+      this.connection.on("version_restore_failed", ({ msg }) => {
+        this.versionRestoreListeners.forEach((listener) => listener(msg));
+      }),
+      this.connection.on("cursor", ({ userId, name, x, y }) => {
+        this.remoteCursors.set(userId, { userId, name, x, y });
+        this.redrawCanvas();
+      }),
+      this.connection.on("comment_updated", ({ pin }) => {
+        this.commentPins = upsertCommentPin(this.commentPins, pin);
+        this.commentListeners.forEach((listener) => listener());
+        this.redrawCanvas();
+      }),
+      this.connection.on("shape_add", applyRemoteOperation),
+      this.connection.on("shape_update", applyRemoteOperation),
+      this.connection.on("shape_delete", applyRemoteOperation)
+    );
+  }
+
+  private sendOperation(operation: ShapeOperation) {
+    const sent = this.connection.send({ ...operation, roomId: this.roomId });
+    if (!sent || this.loadingScene) this.unsyncedOperations.push(operation);
+  }
+
+  private applyLocalOperation(operation: ShapeOperation) {
+    this.existingShapes = applyShapeOperation(this.existingShapes, operation);
+    this.sendOperation(operation);
+  }
+
+  private addShape(shape: Shape) {
+    this.applyLocalOperation({ type: "shape_add", shapes: [shape] });
+    this.history.record([{ id: shape.id, before: null, after: shape }]);
+  }
+
+  // Adds shapes from an imported file for everyone, selects them and brings them into view
+  importShapes(shapes: Shape[]) {
+    if (shapes.length === 0 || !this.canEdit()) return;
+    this.applyLocalOperation({ type: "shape_add", shapes });
+    this.history.record(shapes.map((shape) => ({ id: shape.id, before: null, after: shape })));
+
+    this.selectedIds = new Set(shapes.map((shape) => shape.id));
+    const bounds = unionBounds(shapes.map(getShapeBounds));
+    if (bounds) this.centerOn(bounds.x + bounds.width / 2, bounds.y + bounds.height / 2);
+    this.redrawCanvas();
+  }
+
+  // Where the viewport is now, pointing at the selected shape if there is exactly one
+  getViewAnchor(): ChatAnchor {
+    const center = this.screenToCanvas(this.canvas.width / 2, this.canvas.height / 2);
+    const selected = this.getSelectedShapes();
+    return {
+      x: center.x,
+      y: center.y,
+      scale: this.scale,
+      ...(selected.length === 1 ? { shapeId: selected[0].id } : {}),
+    };
+  }
+
+  // Centers the anchored shape, zooming out if it doesn't fit, and flashes it. Falls back
+  // to the anchored view when there's no shape or it has since been deleted, and then
+  // returns false if a shape was meant.
+  focusAnchor(anchor: ChatAnchor): boolean {
+    const shape = anchor.shapeId ? this.findShape(anchor.shapeId) : undefined;
+    const scale = Math.min(Math.max(anchor.scale, this.minScale), this.maxScale);
+
+    if (shape) {
+      const b = getShapeBounds(shape);
+      const fit = Math.min(
+        this.canvas.width / (b.width + FOCUS_PADDING * 2),
+        this.canvas.height / (b.height + FOCUS_PADDING * 2)
+      );
+      this.scale = Math.max(Math.min(scale, fit), this.minScale);
+      this.centerOn(b.x + b.width / 2, b.y + b.height / 2);
+      this.highlightShape(shape.id);
+      return true;
+    }
+
+    this.scale = scale;
+    this.centerOn(anchor.x, anchor.y);
+    this.redrawCanvas();
+    return !anchor.shapeId;
+  }
+
+  private centerOn(x: number, y: number) {
+    this.offsetX = this.canvas.width / 2 - x * this.scale;
+    this.offsetY = this.canvas.height / 2 - y * this.scale;
+    this.viewportListeners.forEach((listener) => listener());
+  }
+
+  private highlightShape(id: string) {
+    if (this.highlightTimer) clearTimeout(this.highlightTimer);
+    this.highlightedShapeId = id;
+    this.redrawCanvas();
+    this.highlightTimer = setTimeout(() => {
+      this.highlightedShapeId = null;
+      this.highlightTimer = null;
+      this.redrawCanvas();
+    }, HIGHLIGHT_MS);
+  }
+
+  // The server snapshots the scene before clearing it, so a clear can be restored
+  // by anyone in the room for a while; Ctrl+Z still works for whoever cleared.
+  clear() {
+    const shapes = this.existingShapes;
+    if (shapes.length === 0 || !this.canEdit()) return;
+
+    this.existingShapes = [];
+    this.selectedIds.clear();
+    const sent = this.connection.send({ type: "clear_canvas", roomId: this.roomId });
+    if (!sent || this.loadingScene) {
+      this.unsyncedOperations.push({ type: "shape_delete", ids: shapes.map((shape) => shape.id) });
+    }
+    this.history.record(shapes.map((shape) => ({ id: shape.id, before: shape, after: null })));
+    this.redrawCanvas();
+  }
+
+  restoreClear(clearId: number) {
+    this.connection.send({ type: "restore_clear", roomId: this.roomId, clearId });
+  }
+
+  onClearEvent(listener: (event: ClearEvent) => void): () => void {
+    this.clearListeners.add(listener);
+    return () => {
+      this.clearListeners.delete(listener);
+    };
+  }
+
+  // The server saves the current scene as a version first and then sends everyone,
+  // including us, the deletes and adds that turn the scene into the restored one
+  restoreVersion(versionId: number) {
+    this.connection.send({ type: "restore_version", roomId: this.roomId, versionId });
+  }
+
+  onVersionRestoreFailed(listener: (msg: string) => void): () => void {
+    this.versionRestoreListeners.add(listener);
+    return () => {
+      this.versionRestoreListeners.delete(listener);
     };
   }
 
+  undo() {
+    if (this.clicked || !this.canEdit()) return;
+    const entry = this.history.popUndo();
+    if (!entry) return;
+    this.history.pushRedo(this.applyHistoryEntry(entry, "undo"));
+    this.redrawCanvas();
+  }
+
+  redo() {
+    if (this.clicked || !this.canEdit()) return;
+    const entry = this.history.popRedo();
+    if (!entry) return;
+    this.history.pushUndo(this.applyHistoryEntry(entry, "redo"));
+    this.redrawCanvas();
+  }
+
+  canUndo() {
+    return this.history.canUndo();
+  }
+
+  canRedo() {
+    return this.history.canRedo();
+  }
+
+  onHistoryChange(listener: () => void): () => void {
+    return this.history.subscribe(listener);
+  }
+
+  // Only our own changes are reverted: a shape that a collaborator has modified or
+  // removed since no longer matches what we left behind, so it is skipped rather
+  // than overwritten. Returns the changes that were actually applied.
+  private applyHistoryEntry(entry: HistoryEntry, direction: "undo" | "redo"): HistoryEntry {
+    const applied: HistoryEntry = [];
+    const added: Shape[] = [];
+    const updated: Shape[] = [];
+    const deleted: string[] = [];
+
+    entry.forEach((change) => {
+      const expected = direction === "undo" ? change.after : change.before;
+      const target = direction === "undo" ? change.before : change.after;
+      const current = this.existingShapes.find((shape) => shape.id === change.id) ?? null;
+      if (!shapesEqual(current, expected)) return;
+
+      applied.push(change);
+      if (target === null) {
+        deleted.push(change.id);
+      } else if (current === null) {
+        added.push(target);
+      } else {
+        updated.push(target);
+      }
+    });
+
+    if (added.length > 0) this.applyLocalOperation({ type: "shape_add", shapes: added });
+    if (updated.length > 0) this.applyLocalOperation({ type: "shape_update", shapes: updated });
+    if (deleted.length > 0) this.applyLocalOperation({ type: "shape_delete", ids: deleted });
+
+    return applied;
+  }
+
   private screenToCanvas(x: number, y: number): { x: number; y: number } {
     return {
       x: (x - this.offsetX) / this.scale,
@@ -119,6 +722,7 @@ export class Game {
       this.offsetY += centerY - newScreenPoint.y;
       
       this.redrawCanvas();
+      this.viewportListeners.forEach((listener) => listener());
     }
   }
 
@@ -126,6 +730,7 @@ export class Game {
     this.offsetX += deltaX;
     this.offsetY += deltaY;
     this.redrawCanvas();
+    this.viewportListeners.forEach((listener) => listener());
   }
 
   redrawCanvas() {
@@ -138,79 +743,351 @@ export class Game {
     this.ctx.scale(this.scale, this.scale);
 
     this.existingShapes.forEach((shape) => this.drawShape(shape));
+    this.drawPendingShape();
+    this.drawSelection();
+    this.drawHighlight();
     
     this.ctx.restore();
+    this.drawCommentPins();
+    this.drawRemoteCursors();
   }
 
-  drawShape(shape: Shape | undefined) {
-    if (!shape || !shape.type) return;
-  
-    this.ctx.save();
-  
-    if (shape.type !== "eraser" && shape.type !== "move") {
-      this.ctx.strokeStyle = shape.color;
-      this.ctx.lineWidth = shape.lineWidth;
+  // The shape being drawn right now, so that redraws triggered by collaborators
+  // don't wipe it. Expects the viewport transform to already be applied.
+  private drawPendingShape() {
+    if (!this.clicked || this.isPanning || !this.canEdit()) return;
+    if (this.selectedTool === "pencil" && this.currentPencilStroke.length > 0) {
+      this.drawShape({
+        id: "",
+        type: "pencil",
+        points: this.currentPencilStroke,
+        color: this.currentColor,
+        lineWidth: this.currentLineWidth,
+        strokeStyle: this.currentStyle.strokeStyle,
+        opacity: this.currentStyle.opacity,
+      });
+    } else {
+      const preview = this.createShapeFromDrag(this.currentMouseX, this.currentMouseY);
+      if (preview) this.drawShape(preview);
     }
-  
-    if (shape.type === "rect") {
-      this.ctx.strokeRect(shape.x, shape.y, shape.width, shape.height);
-    } else if (shape.type === "pencil") {
-      if (shape.points.length > 0) {
-        this.ctx.beginPath();
-        this.ctx.moveTo(shape.points[0].x, shape.points[0].y);
-        shape.points.forEach((point) => this.ctx.lineTo(point.x, point.y));
-        this.ctx.stroke();
-        this.ctx.closePath();
-      }
-    } else if (shape.type === "circle") {
+  }
+
+  // Drawn in screen space so cursors and labels keep their size at any zoom
+  private drawRemoteCursors() {
+    this.remoteCursors.forEach(({ userId, name, x, y }) => {
+      const p = this.canvasToScreen(x, y);
+      const color = getUserColor(userId);
+
+      this.ctx.save();
+      this.ctx.translate(p.x, p.y);
+      this.ctx.fillStyle = color;
+      this.ctx.strokeStyle = "white";
+      this.ctx.lineWidth = 1.5;
       this.ctx.beginPath();
-      this.ctx.ellipse(
-        shape.centerX,
-        shape.centerY,
-        Math.abs(shape.radiusX),
-        Math.abs(shape.radiusY),
-        0,
-        0,
-        Math.PI * 2
-      );
-      this.ctx.stroke();
+      this.ctx.moveTo(0, 0);
+      this.ctx.lineTo(0, 16);
+      this.ctx.lineTo(4.5, 12);
+      this.ctx.lineTo(11, 12);
       this.ctx.closePath();
-    } else if (shape.type === "move") {
-      const movedShape = this.getMovedShape(shape);
-      this.drawShape(movedShape);
+      this.ctx.fill();
+      this.ctx.stroke();
+
+      this.ctx.font = `12px ${FONT_FAMILY}`;
+      this.ctx.textBaseline = "middle";
+      const labelWidth = this.ctx.measureText(name).width + 12;
+      this.ctx.beginPath();
+      this.ctx.roundRect(10, 16, labelWidth, 20, 6);
+      this.ctx.fill();
+      this.ctx.fillStyle = "white";
+      this.ctx.fillText(name, 16, 26);
+      this.ctx.restore();
+    });
+  }
+
+  // Expects the viewport transform to already be applied
+  private drawSelection() {
+    const selected = this.getSelectedShapes();
+    if (selected.length === 0) return;
+
+    this.ctx.save();
+    this.ctx.strokeStyle = "#4f46e5";
+    this.ctx.lineWidth = 1 / this.scale;
+
+    if (selected.length > 1) {
+      this.ctx.setLineDash([4 / this.scale, 4 / this.scale]);
+      selected.forEach((shape) => {
+        const b = getShapeBounds(shape);
+        this.ctx.strokeRect(b.x, b.y, b.width, b.height);
+      });
     }
-  
+
+    const bounds = this.getSelectionBounds()!;
+    const padding = 4 / this.scale;
+    this.ctx.setLineDash([]);
+    this.ctx.strokeRect(bounds.x - padding, bounds.y - padding, bounds.width + padding * 2, bounds.height + padding * 2);
+
+    const size = HANDLE_SIZE / this.scale;
+    this.ctx.fillStyle = "white";
+    HANDLES.forEach((handle) => {
+      const p = getHandlePosition(bounds, handle);
+      this.ctx.fillRect(p.x - size / 2, p.y - size / 2, size, size);
+      this.ctx.strokeRect(p.x - size / 2, p.y - size / 2, size, size);
+    });
+    this.ctx.restore();
+  }
+
+  // A shape someone linked to from chat. Expects the viewport transform to already be applied.
+  private drawHighlight() {
+    const shape = this.highlightedShapeId ? this.findShape(this.highlightedShapeId) : undefined;
+    if (!shape) return;
+
+    const b = getShapeBounds(shape);
+    const padding = 8 / this.scale;
+    this.ctx.save();
+    this.ctx.strokeStyle = "#f59e0b";
+    this.ctx.fillStyle = "rgba(245, 158, 11, 0.12)";
+    this.ctx.lineWidth = 3 / this.scale;
+    this.ctx.beginPath();
+    this.ctx.roundRect(b.x - padding, b.y - padding, b.width + padding * 2, b.height + padding * 2, 6 / this.scale);
+    this.ctx.fill();
+    this.ctx.stroke();
+    this.ctx.restore();
+  }
+
+  private drawMarquee(x: number, y: number) {
+    const b = normalizeBounds(this.startX, this.startY, x, y);
+    this.ctx.save();
+    this.ctx.translate(this.offsetX, this.offsetY);
+    this.ctx.scale(this.scale, this.scale);
+    this.ctx.fillStyle = "rgba(79, 70, 229, 0.08)";
+    this.ctx.strokeStyle = "#4f46e5";
+    this.ctx.lineWidth = 1 / this.scale;
+    this.ctx.fillRect(b.x, b.y, b.width, b.height);
+    this.ctx.strokeRect(b.x, b.y, b.width, b.height);
+    this.ctx.restore();
+  }
+
+  private findShape(id: string): Shape | undefined {
+    return this.existingShapes.find((shape) => shape.id === id);
+  }
+
+  // Connectors outside `shapes` that are bound to one of them
+  private getAttachedConnectors(shapes: Shape[]): Shape[] {
+    const ids = new Set(shapes.map((shape) => shape.id));
+    return this.existingShapes.filter((shape) => !ids.has(shape.id) && isConnector(shape) && isBoundTo(shape, ids));
+  }
+
+  private rerouteConnectors(connectors: Shape[]): Shape[] {
+    return connectors.flatMap((shape) => {
+      const current = this.findShape(shape.id);
+      return current && isConnector(current) ? [routeConnector(current, (id) => this.findShape(id))] : [];
+    });
+  }
+
+  // A connector dragged on its own lets go of shapes that aren't moving with it
+  private detachDraggedConnectors(shapes: Shape[]): Shape[] {
+    const moving = new Set(shapes.map((shape) => shape.id));
+    return shapes.map((shape) => {
+      if (!isConnector(shape)) return shape;
+      const next = { ...shape };
+      if (next.startBinding && !moving.has(next.startBinding.shapeId)) delete next.startBinding;
+      if (next.endBinding && !moving.has(next.endBinding.shapeId)) delete next.endBinding;
+      return next;
+    });
+  }
+
+  private findBindableShapeAt(x: number, y: number): Shape | undefined {
+    return [...this.existingShapes].reverse().find((shape) =>
+      isBindable(shape) && hitTestShape(shape, x, y, 10 / this.scale)
+    );
+  }
+
+  private replaceShapes(shapes: Shape[]) {
+    const byId = new Map(shapes.map((shape) => [shape.id, shape]));
+    this.existingShapes = this.existingShapes.map((shape) => byId.get(shape.id) ?? shape);
+  }
+
+  drawShape(shape: Shape | undefined) {
+    if (!shape || !shape.type) return;
+    // The inline editor stands in for the shape while its text is being edited
+    if (shape.id === this.editingShapeId) return;
+    renderShape(this.ctx, shape);
+  }
+
+  private measureText(text: string, fontSize: number): { width: number; height: number } {
+    this.ctx.save();
+    this.ctx.font = `${fontSize}px ${FONT_FAMILY}`;
+    const lines = text.split("\n");
+    const width = Math.max(...lines.map((line) => this.ctx.measureText(line).width));
     this.ctx.restore();
+    return { width, height: lines.length * fontSize * LINE_HEIGHT };
   }
 
-  getMovedShape(moveShape: Shape & { type: "move" }): Shape {
-    const { shape, offsetX, offsetY } = moveShape;
-    switch (shape.type) {
+  // The shape a drag from (startX, startY) to (x, y) would create with the current tool
+  private createShapeFromDrag(x: number, y: number): Shape | null {
+    const width = x - this.startX;
+    const height = y - this.startY;
+    const { cornerRadius, ...currentStyle } = this.currentStyle;
+    const style = { id: generateId(), color: this.currentColor, lineWidth: this.currentLineWidth, ...currentStyle };
+
+    switch (this.selectedTool) {
       case "rect":
+        if (Math.hypot(width, height) <= 1) return null;
         return {
-          ...shape,
-          x: shape.x + offsetX,
-          y: shape.y + offsetY,
+          ...style,
+          type: "rect",
+          x: Math.min(this.startX, x),
+          y: Math.min(this.startY, y),
+          width: Math.abs(width),
+          height: Math.abs(height),
+          cornerRadius,
         };
-      case "circle":
+      case "diamond":
+        if (Math.abs(width) <= 1 || Math.abs(height) <= 1) return null;
         return {
-          ...shape,
-          centerX: shape.centerX + offsetX,
-          centerY: shape.centerY + offsetY,
+          ...style,
+          type: "diamond",
+          x: Math.min(this.startX, x),
+          y: Math.min(this.startY, y),
+          width: Math.abs(width),
+          height: Math.abs(height),
         };
-      case "pencil":
+      case "circle":
+        if (Math.abs(width) <= 1 && Math.abs(height) <= 1) return null;
         return {
-          ...shape,
-          points: shape.points.map((point) => ({
-            x: point.x + offsetX,
-            y: point.y + offsetY,
-          })),
+          ...style,
+          type: "circle",
+          centerX: this.startX + width/2,
+          centerY: this.startY + height/2,
+          radiusX: Math.abs(width/2),
+          radiusY: Math.abs(height/2),
         };
+      case "line":
+      case "arrow": {
+        if (Math.hypot(width, height) <= 1) return null;
+        const startShape = this.findBindableShapeAt(this.startX, this.startY);
+        const endShape = this.findBindableShapeAt(x, y);
+        const connector: Shape = this.selectedTool === "line"
+          ? { ...style, type: "line", x1: this.startX, y1: this.startY, x2: x, y2: y }
+          : {
+              ...style,
+              type: "arrow",
+              x1: this.startX,
+              y1: this.startY,
+              x2: x,
+              y2: y,
+              startHead: this.startHead,
+              endHead: this.endHead,
+            };
+        if (startShape) connector.startBinding = { shapeId: startShape.id };
+        if (endShape && endShape !== startShape) connector.endBinding = { shapeId: endShape.id };
+        return routeConnector(connector, (id) => this.findShape(id));
+      }
       default:
-        return shape;
+        return null;
+    }
+  }
+
+  private openTextEditor(shape: Shape & { type: "text" | "sticky" }, isNew: boolean) {
+    this.closeTextEditor();
+
+    const rect = this.canvas.getBoundingClientRect();
+    const screen = this.canvasToScreen(shape.x, shape.y);
+    const textarea = document.createElement("textarea");
+    const fontSize = shape.fontSize * this.scale;
+    const padding = shape.type === "sticky" ? STICKY_PADDING * this.scale : 0;
+
+    textarea.value = shape.text;
+    Object.assign(textarea.style, {
+      position: "fixed",
+      left: `${rect.left + screen.x}px`,
+      top: `${rect.top + screen.y}px`,
+      minWidth: `${Math.max(shape.width * this.scale, 40)}px`,
+      width: shape.type === "sticky" ? `${shape.width * this.scale}px` : "auto",
+      height: shape.type === "sticky" ? `${shape.height * this.scale}px` : `${fontSize * LINE_HEIGHT * Math.max(1, shape.text.split("\n").length)}px`,
+      padding: `${padding}px`,
+      margin: "0",
+      border: "none",
+      outline: shape.type === "sticky" ? "2px solid #4f46e5" : "1px dashed #4f46e5",
+      resize: "none",
+      overflow: "hidden",
+      background: shape.type === "sticky" ? shape.fill : "transparent",
+      color: shape.color,
+      font: `${fontSize}px ${FONT_FAMILY}`,
+      lineHeight: `${LINE_HEIGHT}`,
+      whiteSpace: shape.type === "sticky" ? "pre-wrap" : "pre",
+      zIndex: "40",
+    });
+
+    textarea.addEventListener("input", () => {
+      if (shape.type === "text") {
+        textarea.style.height = `${fontSize * LINE_HEIGHT * textarea.value.split("\n").length}px`;
+        textarea.style.width = `${textarea.scrollWidth}px`;
+      }
+    });
+    textarea.addEventListener("keydown", (e) => {
+      if (e.key === "Escape" || (e.key === "Enter" && (e.ctrlKey || e.metaKey))) {
+        e.preventDefault();
+        textarea.blur();
+      }
+    });
+    textarea.addEventListener("blur", () => this.commitTextEditor(shape, isNew));
+
+    document.body.appendChild(textarea);
+    this.textEditor = textarea;
+    this.editingShapeId = shape.id;
+    this.redrawCanvas();
+    // Focus after the mousedown that opened the editor has finished
+    setTimeout(() => textarea.focus(), 0);
+  }
+
+  private closeTextEditor() {
+    this.textEditor?.blur();
+  }
+
+  private commitTextEditor(original: Shape & { type: "text" | "sticky" }, isNew: boolean) {
+    if (!this.textEditor) return;
+    const text = this.textEditor.value.replace(/\s+$/, "");
+    this.textEditor.remove();
+    this.textEditor = null;
+    this.editingShapeId = null;
+
+    const current = this.existingShapes.find((shape) => shape.id === original.id);
+    const updated: Shape = original.type === "text"
+      ? { ...original, text, ...this.measureText(text, original.fontSize) }
+      : { ...original, text };
+
+    if (isNew) {
+      if (text || original.type === "sticky") this.addShape(updated);
+    } else if (current && !text && original.type === "text") {
+      this.applyLocalOperation({ type: "shape_delete", ids: [original.id] });
+      this.history.record([{ id: original.id, before: current, after: null }]);
+    } else if (current && text !== original.text) {
+      const connectors = this.getAttachedConnectors([current]);
+      this.replaceShapes([updated]);
+      const rerouted = this.rerouteConnectors(connectors);
+      this.applyLocalOperation({ type: "shape_update", shapes: [updated, ...rerouted] });
+      this.history.record([
+        { id: original.id, before: current, after: updated },
+        ...rerouted.map((shape, i) => ({ id: shape.id, before: connectors[i], after: shape })),
+      ]);
     }
+    this.redrawCanvas();
   }
 
+  private doubleClickHandler = (e: MouseEvent) => {
+    if (!this.canEdit()) return;
+    if (this.selectedTool !== "select" && this.selectedTool !== "text") return;
+    const rect = this.canvas.getBoundingClientRect();
+    const point = this.screenToCanvas(e.clientX - rect.left, e.clientY - rect.top);
+    const target = [...this.existingShapes].reverse().find((shape) =>
+      (shape.type === "text" || shape.type === "sticky") && hitTestShape(shape, point.x, point.y, 0)
+    );
+    if (target && (target.type === "text" || target.type === "sticky")) {
+      this.openTextEditor(target, false);
+    }
+  };
+
   private wheelHandler = (e: WheelEvent) => {
     e.preventDefault();
     const rect = this.canvas.getBoundingClientRect();
@@ -225,6 +1102,42 @@ export class Game {
   };
 
   private keyDownHandler = (e: KeyboardEvent) => {
+    const target = e.target as HTMLElement | null;
+    if (target && (target.isContentEditable || target.tagName === "INPUT" || target.tagName === "TEXTAREA")) {
+      return;
+    }
+
+    if (!this.canEdit()) {
+      if (e.code === "Space") this.isPanning = true;
+      return;
+    }
+
+    if ((e.ctrlKey || e.metaKey) && (e.key === "z" || e.key === "Z")) {
+      e.preventDefault();
+      if (e.shiftKey) {
+        this.redo();
+      } else {
+        this.undo();
+      }
+      return;
+    }
+    if ((e.ctrlKey || e.metaKey) && e.key === "y") {
+      e.preventDefault();
+      this.redo();
+      return;
+    }
+
+    if ((e.key === "Delete" || e.key === "Backspace") && this.selectedIds.size > 0 && !this.clicked) {
+      e.preventDefault();
+      this.deleteSelected();
+      return;
+    }
+    if (e.key === "Escape" && this.selectedIds.size > 0) {
+      this.selectedIds.clear();
+      this.redrawCanvas();
+      return;
+    }
+
     if (e.code === "Space") {
       this.isPanning = true;
       this.canvas.style.cursor = "grab";
@@ -234,7 +1147,7 @@ export class Game {
   private keyUpHandler = (e: KeyboardEvent) => {
     if (e.code === "Space") {
       this.isPanning = false;
-      this.canvas.style.cursor = this.selectedTool === "move" ? "move" : "crosshair";
+      this.canvas.style.cursor = this.getToolCursor();
     }
   };
 
@@ -243,14 +1156,27 @@ export class Game {
     const rect = this.canvas.getBoundingClientRect();
     const screenX = e.clientX - rect.left;
     const screenY = e.clientY - rect.top;
+
+    // Pins sit above the board for every tool and role
+    const pin = this.isPanning ? undefined : this.findCommentPinAt(screenX, screenY);
+    if (pin) {
+      this.clicked = false;
+      this.commentRequestListeners.forEach((listener) => listener({ type: "open", pinId: pin.id }));
+      return;
+    }
   
-    if (this.isPanning) {
+    if (this.isPanning || !this.canEdit()) {
       this.lastPanX = screenX;
       this.lastPanY = screenY;
       return;
     }
   
     const canvasPoint = this.screenToCanvas(screenX, screenY);
+    if (this.selectedTool === "comment") {
+      this.clicked = false;
+      this.commentRequestListeners.forEach((listener) => listener({ type: "new", ...canvasPoint }));
+      return;
+    }
     this.startX = canvasPoint.x;
     this.startY = canvasPoint.y;
     this.currentMouseX = this.startX;
@@ -260,141 +1186,173 @@ export class Game {
       this.currentPencilStroke = [{ x: this.startX, y: this.startY }];
     } else if (this.selectedTool === "eraser") {
       this.activeShape = {
+        id: generateId(),
         type: "eraser",
         points: [{ x: this.startX, y: this.startY }],
         radius: 10
       };
       this.eraseShape(this.startX, this.startY);
-    } else if (this.selectedTool === "move") {
-      const shapeToMove = [...this.existingShapes].reverse().find((shape) => {
-        if (shape.type === "move") return false; // Skip existing move shapes
-        if (shape.type === "rect") {
-          return (
-            this.startX >= shape.x &&
-            this.startX <= shape.x + shape.width &&
-            this.startY >= shape.y &&
-            this.startY <= shape.y + shape.height
-          );
-        } else if (shape.type === "circle") {
-          // Calculate if the point is inside the oval using the standard equation of an ellipse
-          const normalizedX = (this.startX - shape.centerX) / shape.radiusX;
-          const normalizedY = (this.startY - shape.centerY) / shape.radiusY;
-          return (normalizedX * normalizedX + normalizedY * normalizedY) <= 1;
-        } else if (shape.type === "pencil") {
-          return shape.points.some(
-            (point) => Math.hypot(this.startX - point.x, this.startY - point.y) <= 10 / this.scale
-          );
-        }
-        return false;
-      });
-  
-      if (shapeToMove) {
-        // Remove the original shape and any existing move shapes
-        this.existingShapes = this.existingShapes.filter(shape => shape !== shapeToMove);
-        
-        const moveShape = {
-          type: "move" as const,
-          shape: shapeToMove,
-          offsetX: 0,
-          offsetY: 0,
-        };
-        this.activeShape = moveShape;
-        this.existingShapes.push(moveShape);
-        this.redrawCanvas();
+    } else if (this.selectedTool === "select") {
+      this.startSelectDrag(e.shiftKey);
+    } else if (this.selectedTool === "text" || this.selectedTool === "sticky") {
+      this.clicked = false;
+      if (this.textEditor) {
+        // The first click outside an open editor just commits it
+        this.closeTextEditor();
+        return;
       }
+      const shape: Shape = this.selectedTool === "text"
+        ? {
+            id: generateId(),
+            type: "text",
+            x: this.startX,
+            y: this.startY,
+            width: 0,
+            height: 0,
+            text: "",
+            fontSize: 20,
+            color: this.currentColor,
+            lineWidth: this.currentLineWidth,
+            opacity: this.currentStyle.opacity,
+          }
+        : {
+            id: generateId(),
+            type: "sticky",
+            x: this.startX,
+            y: this.startY,
+            width: STICKY_SIZE,
+            height: STICKY_SIZE,
+            text: "",
+            fontSize: 16,
+            fill: STICKY_FILL,
+            color: "#1f2937",
+            lineWidth: 1,
+          };
+      this.openTextEditor(shape, true);
     }
   };
 
+  private startSelectDrag(shiftKey: boolean) {
+    const bounds = this.getSelectionBounds();
+    const handle = bounds && getHandleAt(bounds, this.startX, this.startY, HANDLE_SIZE / this.scale);
+    if (bounds && handle) {
+      const originals = this.getSelectedShapes();
+      this.dragState = { kind: "resize", handle, originals, connectors: this.getAttachedConnectors(originals), bounds };
+      return;
+    }
+
+    const hit = [...this.existingShapes].reverse().find((shape) =>
+      hitTestShape(shape, this.startX, this.startY, 10 / this.scale)
+    );
+
+    if (!hit) {
+      if (!shiftKey) this.selectedIds.clear();
+      this.dragState = { kind: "marquee", additive: shiftKey };
+      this.redrawCanvas();
+      return;
+    }
+
+    if (shiftKey && this.selectedIds.has(hit.id)) {
+      this.selectedIds.delete(hit.id);
+      this.dragState = null;
+    } else {
+      if (!shiftKey && !this.selectedIds.has(hit.id)) this.selectedIds.clear();
+      this.selectedIds.add(hit.id);
+      const originals = this.getSelectedShapes();
+      this.dragState = { kind: "move", originals, connectors: this.getAttachedConnectors(originals) };
+    }
+    this.redrawCanvas();
+  }
+
+  private finishSelectDrag(x: number, y: number) {
+    const drag = this.dragState;
+    this.dragState = null;
+    if (!drag) return;
+
+    if (drag.kind === "marquee") {
+      const marquee = normalizeBounds(this.startX, this.startY, x, y);
+      this.existingShapes.forEach((shape) => {
+        if (boundsContain(marquee, getShapeBounds(shape))) this.selectedIds.add(shape.id);
+      });
+      return;
+    }
+
+    const changed = [...drag.originals, ...drag.connectors].flatMap((original) => {
+      const current = this.existingShapes.find((shape) => shape.id === original.id);
+      return current && !shapesEqual(current, original)
+        ? [{ id: original.id, before: original, after: current }]
+        : [];
+    });
+    if (changed.length === 0) return;
+
+    // Sync with other users
+    this.sendOperation({ type: "shape_update", shapes: changed.map((change) => change.after) });
+    this.history.record(changed);
+  }
+
+  private updateSelectDrag(x: number, y: number, shiftKey: boolean) {
+    const drag = this.dragState;
+    if (!drag) return;
+
+    if (drag.kind === "move") {
+      const dx = x - this.startX;
+      const dy = y - this.startY;
+      this.replaceShapes(this.detachDraggedConnectors(drag.originals.map((shape) => translateShape(shape, dx, dy))));
+      this.replaceShapes(this.rerouteConnectors(drag.connectors));
+      this.redrawCanvas();
+    } else if (drag.kind === "resize") {
+      const next = resizeBounds(drag.bounds, drag.handle, x, y, shiftKey);
+      this.replaceShapes(this.detachDraggedConnectors(drag.originals.map((shape) => scaleShape(shape, drag.bounds, next))));
+      this.replaceShapes(this.rerouteConnectors([...drag.connectors, ...drag.originals]));
+      this.redrawCanvas();
+    } else {
+      this.redrawCanvas();
+      this.drawMarquee(x, y);
+    }
+  }
+
+  private updateHoverCursor(x: number, y: number) {
+    if (this.selectedTool !== "select" || this.isPanning || !this.canEdit()) return;
+    const bounds = this.getSelectionBounds();
+    const handle = bounds && getHandleAt(bounds, x, y, HANDLE_SIZE / this.scale);
+    if (handle) {
+      this.canvas.style.cursor = getHandleCursor(handle);
+    } else if (this.existingShapes.some((shape) => hitTestShape(shape, x, y, 10 / this.scale))) {
+      this.canvas.style.cursor = "move";
+    } else {
+      this.canvas.style.cursor = "default";
+    }
+  }
+
   mouseUpHandler = (e: MouseEvent) => {
     if (!this.clicked) return;
   
     this.clicked = false;
+    if (!this.canEdit()) return;
     const rect = this.canvas.getBoundingClientRect();
     const screenX = e.clientX - rect.left;
     const screenY = e.clientY - rect.top;
     const canvasPoint = this.screenToCanvas(screenX, screenY);
   
-    if (this.selectedTool === "rect") {
-      const width = canvasPoint.x - this.startX;
-      const height = canvasPoint.y - this.startY;
-      const radius = Math.hypot(width, height);
-      if (radius > 1) {
-        const newShape: Shape = {
-          type: "rect",
-          x: Math.min(this.startX, canvasPoint.x),
-          y: Math.min(this.startY, canvasPoint.y),
-          width: Math.abs(width),
-          height: Math.abs(height),
-          color: this.currentColor,
-          lineWidth: this.currentLineWidth,
-        };
-        this.existingShapes.push(newShape);
-        this.socket.send(
-          JSON.stringify({
-            type: "chat",
-            message: JSON.stringify({ shape: newShape }),
-            roomId: this.roomId,
-          })
-        );
-      }
-    } else if (this.selectedTool === "circle") {
-      const width = canvasPoint.x - this.startX;
-      const height = canvasPoint.y - this.startY;
-      if (Math.abs(width) > 1 || Math.abs(height) > 1) {
-        const newShape: Shape = {
-          type: "circle",
-          centerX: this.startX + width/2,
-          centerY: this.startY + height/2,
-          radiusX: Math.abs(width/2),
-          radiusY: Math.abs(height/2),
-          color: this.currentColor,
-          lineWidth: this.currentLineWidth,
-        };
-        this.existingShapes.push(newShape);
-        this.socket.send(
-          JSON.stringify({
-            type: "chat",
-            message: JSON.stringify({ shape: newShape }),
-            roomId: this.roomId,
-          })
-        );
-      }
+    const dragShape = this.createShapeFromDrag(canvasPoint.x, canvasPoint.y);
+    if (dragShape) {
+      this.addShape(dragShape);
     } else if (this.selectedTool === "pencil" && this.currentPencilStroke.length > 1) {
       const newShape: Shape = {
+        id: generateId(),
         type: "pencil",
         points: this.currentPencilStroke,
         color: this.currentColor,
         lineWidth: this.currentLineWidth,
+        strokeStyle: this.currentStyle.strokeStyle,
+        opacity: this.currentStyle.opacity,
       };
-      this.existingShapes.push(newShape);
-      this.socket.send(
-        JSON.stringify({
-          type: "chat",
-          message: JSON.stringify({ shape: newShape }),
-          roomId: this.roomId,
-        })
-      );
-    } else if (this.selectedTool === "move" && this.activeShape) {
-      const moveShape = this.activeShape as Shape & { type: "move" };
-      const finalShape = this.getMovedShape(moveShape);
-      
-      // Remove any existing move shapes
-      this.existingShapes = this.existingShapes.filter(shape => shape.type !== "move");
-      
-      // Add the final shape
-      this.existingShapes.push(finalShape);
-  
-      this.activeShape = null;
-      
-      // Sync with other users
-      this.socket.send(
-        JSON.stringify({
-          type: "chat",
-          message: JSON.stringify({ type: "update", shapes: this.existingShapes }),
-          roomId: this.roomId,
-        })
-      );
-      
+      this.addShape(newShape);
+    } else if (this.selectedTool === "select") {
+      this.finishSelectDrag(canvasPoint.x, canvasPoint.y);
+    } else if (this.selectedTool === "eraser") {
+      this.history.record(this.erasedInStroke.map((shape) => ({ id: shape.id, before: shape, after: null })));
+      this.erasedInStroke = [];
       this.activeShape = null;
     }
   
@@ -427,7 +1385,7 @@ mouseMoveHandler = (e: MouseEvent) => {
   const screenX = e.clientX - rect.left;
   const screenY = e.clientY - rect.top;
 
-  if (this.clicked && this.isPanning) {
+  if (this.clicked && (this.isPanning || !this.canEdit())) {
     const deltaX = screenX - this.lastPanX;
     const deltaY = screenY - this.lastPanY;
     this.pan(deltaX, deltaY);
@@ -439,73 +1397,34 @@ mouseMoveHandler = (e: MouseEvent) => {
   const canvasPoint = this.screenToCanvas(screenX, screenY);
   this.currentMouseX = canvasPoint.x;
   this.currentMouseY = canvasPoint.y;
+  this.sendCursor(canvasPoint.x, canvasPoint.y);
 
-  if (!this.clicked) return;
+  if (!this.clicked) {
+    this.updateHoverCursor(canvasPoint.x, canvasPoint.y);
+    return;
+  }
 
-  if (this.selectedTool === "rect") {
-    this.redrawCanvas();
-    const width = canvasPoint.x - this.startX;
-    const height = canvasPoint.y - this.startY;
-    this.ctx.save();
-    this.ctx.translate(this.offsetX, this.offsetY);
-    this.ctx.scale(this.scale, this.scale);
-    this.ctx.strokeRect(
-      Math.min(this.startX, canvasPoint.x),
-      Math.min(this.startY, canvasPoint.y),
-      Math.abs(width),
-      Math.abs(height)
-    );
-    this.ctx.restore();
-  } else if (this.selectedTool === "circle") {
+  if (this.selectedTool === "rect" || this.selectedTool === "circle" || this.selectedTool === "diamond" ||
+      this.selectedTool === "line" || this.selectedTool === "arrow") {
     this.redrawCanvas();
-    const width = canvasPoint.x - this.startX;
-    const height = canvasPoint.y - this.startY;
-    
-    this.ctx.save();
-    this.ctx.translate(this.offsetX, this.offsetY);
-    this.ctx.scale(this.scale, this.scale);
-    this.ctx.beginPath();
-    this.ctx.ellipse(
-      this.startX + width/2,
-      this.startY + height/2,
-      Math.abs(width/2),
-      Math.abs(height/2),
-      0,
-      0,
-      Math.PI * 2
-    );
-    this.ctx.stroke();
-    this.ctx.closePath();
-    this.ctx.restore();
   } else if (this.selectedTool === "pencil") {
     this.currentPencilStroke.push({ x: canvasPoint.x, y: canvasPoint.y });
-    this.ctx.save();
-    this.ctx.translate(this.offsetX, this.offsetY);
-    this.ctx.scale(this.scale, this.scale);
-    this.ctx.beginPath();
-    this.ctx.moveTo(this.currentPencilStroke[0].x, this.currentPencilStroke[0].y);
-    this.currentPencilStroke.forEach((point) => this.ctx.lineTo(point.x, point.y));
-    this.ctx.stroke();
-    this.ctx.closePath();
-    this.ctx.restore();
+    this.redrawCanvas();
   } else if (this.selectedTool === "eraser") {
    if (this.activeShape?.type === "eraser") {
       this.activeShape.points.push({ x: canvasPoint.x, y: canvasPoint.y });
     }
     this.eraseShape(canvasPoint.x, canvasPoint.y);
     this.drawEraserPreview(canvasPoint.x, canvasPoint.y);
-  } else if (this.selectedTool === "move" && this.activeShape) {
-    const moveShape = this.activeShape as Shape & { type: "move" };
-    moveShape.offsetX = canvasPoint.x - this.startX;
-    moveShape.offsetY = canvasPoint.y - this.startY;
-    this.redrawCanvas();
+  } else if (this.selectedTool === "select") {
+    this.updateSelectDrag(canvasPoint.x, canvasPoint.y, e.shiftKey);
   }
 };
 
 eraseShape(x: number, y: number) {
   // const threshold = 10 / this.scale;
   const eraserRadius = 10;
-  const previousShapesCount = this.existingShapes.length;
+  const previousShapes = this.existingShapes;
 
   // this.existingShapes = this.existingShapes.filter((shape) => {
   //   if (shape.type === "rect") {
@@ -517,51 +1436,20 @@ eraseShape(x: number, y: number) {
   //   }
   //   return true;
   // });
-  this.existingShapes = this.existingShapes.filter((shape) => {
-    if (shape.type === "rect") {
-      // Check if eraser circle intersects with rectangle
-      const circleDistX = Math.abs(x - (shape.x + shape.width/2));
-      const circleDistY = Math.abs(y - (shape.y + shape.height/2));
-
-      if (circleDistX > (shape.width/2 + eraserRadius)) return true;
-      if (circleDistY > (shape.height/2 + eraserRadius)) return true;
-
-      if (circleDistX <= (shape.width/2)) return false;
-      if (circleDistY <= (shape.height/2)) return false;
-
-      const cornerDistance = Math.pow(circleDistX - shape.width/2, 2) +
-                           Math.pow(circleDistY - shape.height/2, 2);
-
-      return cornerDistance > Math.pow(eraserRadius, 2);
-    } else if (shape.type === "circle") {
-      // Check if eraser circle intersects with shape circle
-      const distance = Math.hypot(x - shape.centerX, y - shape.centerY);
-      return distance > (Math.max(shape.radiusX, shape.radiusY) + eraserRadius);
-    } else if (shape.type === "pencil") {
-      // Check if any point of the pencil stroke is within eraser radius
-      return shape.points.every((point) => 
-        Math.hypot(x - point.x, y - point.y) > eraserRadius
-      );
-    } else if (shape.type === "eraser") {
-      return true; // Don't erase other eraser marks
-    }
-    return true;
-  });
-
-  if (previousShapesCount !== this.existingShapes.length) {
-    this.socket.send(
-      JSON.stringify({
-        type: "chat",
-        message: JSON.stringify({ type: "update", shapes: this.existingShapes }),
-        roomId: this.roomId,
-      })
-    );
+  this.existingShapes = this.existingShapes.filter((shape) => !shapeIntersectsCircle(shape, x, y, eraserRadius));
+
+  if (previousShapes.length !== this.existingShapes.length) {
+    const remaining = new Set(this.existingShapes);
+    const erased = previousShapes.filter((shape) => !remaining.has(shape));
+    this.erasedInStroke.push(...erased);
+    this.sendOperation({ type: "shape_delete", ids: erased.map((shape) => shape.id) });
   }
 
   this.redrawCanvas();
 }
 
 initMouseHandlers() {
+  this.canvas.addEventListener("dblclick", this.doubleClickHandler);
   this.canvas.addEventListener("mousedown", this.mouseDownHandler);
   this.canvas.addEventListener("mouseup", this.mouseUpHandler);
   this.canvas.addEventListener("mousemove", this.mouseMoveHandler);
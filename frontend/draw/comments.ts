@@ -0,0 +1,58 @@
+import type { CommentPin } from "@/lib/protocol";
+import { getInitials, getUserColor } from "./presence";
+import { FONT_FAMILY } from "./render";
+
+// Pins keep this size on screen at any zoom
+export const PIN_SIZE = 28;
+const RESOLVED_COLOR = "#9ca3af";
+
+// What clicking the comment layer asks the UI to show
+export type CommentRequest =
+  | { type: "open"; pinId: number }
+  | { type: "new"; x: number; y: number };
+
+export function isCommentPinVisible(pin: CommentPin, showResolved: boolean): boolean {
+  return showResolved || pin.resolvedAt === null;
+}
+
+// A speech bubble whose pointed bottom-left corner sits on the pinned point, given in screen space
+export function drawCommentPin(ctx: CanvasRenderingContext2D, pin: CommentPin, x: number, y: number, active: boolean) {
+  const size = active ? PIN_SIZE + 4 : PIN_SIZE;
+  const radius = size / 2;
+  const top = y - size;
+
+  ctx.save();
+  ctx.fillStyle = pin.resolvedAt ? RESOLVED_COLOR : getUserColor(pin.userId);
+  ctx.strokeStyle = "white";
+  ctx.lineWidth = 2;
+  ctx.shadowColor = "rgba(0, 0, 0, 0.25)";
+  ctx.shadowBlur = active ? 8 : 4;
+  ctx.beginPath();
+  ctx.roundRect(x, top, size, size, [radius, radius, radius, 0]);
+  ctx.fill();
+  ctx.shadowColor = "transparent";
+  ctx.stroke();
+
+  ctx.fillStyle = "white";
+  ctx.font = `600 11px ${FONT_FAMILY}`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillText(pin.resolvedAt ? "✓" : getInitials(pin.name), x + radius, top + radius);
+
+  // More than the opening comment
+  const replies = pin.replies.length - 1;
+  if (replies > 0) {
+    ctx.fillStyle = "#111827";
+    ctx.beginPath();
+    ctx.arc(x + size, top, 8, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = "white";
+    ctx.font = `600 9px ${FONT_FAMILY}`;
+    ctx.fillText(replies > 9 ? "9+" : String(replies), x + size, top);
+  }
+  ctx.restore();
+}
+
+export function hitTestCommentPin(pinX: number, pinY: number, x: number, y: number): boolean {
+  return x >= pinX && x <= pinX + PIN_SIZE && y >= pinY - PIN_SIZE && y <= pinY;
+}
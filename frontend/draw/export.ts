@@ -0,0 +1,216 @@
+import type { Shape } from "./Game";
+import { Bounds, getShapeBounds, unionBounds } from "./geometry";
+import {
+  FONT_FAMILY,
+  getArrowheadPoints,
+  getDashPattern,
+  getFillColor,
+  getHachureGap,
+  LINE_HEIGHT,
+  renderShape,
+  STICKY_PADDING,
+  wrapText,
+} from "./render";
+
+export interface ExportOptions {
+  scale: number;
+  background: boolean;
+}
+
+// Written into exported JSON so that imports can tell our scenes apart
+export const SCENE_TYPE = "excalidraw-enhanced";
+export const SCENE_VERSION = 1;
+
+const EXPORT_PADDING = 16;
+const BACKGROUND = "#ffffff";
+
+type DrawableShape = Exclude<Shape, { type: "eraser" }>;
+
+function getDrawableShapes(shapes: Shape[]): DrawableShape[] {
+  return shapes.filter((shape): shape is DrawableShape => shape.type !== "eraser");
+}
+
+// Content bounds plus room for stroke widths, shadows and arrowheads
+export function getSceneBounds(shapes: Shape[]): Bounds | null {
+  const drawable = getDrawableShapes(shapes);
+  const bounds = unionBounds(drawable.map(getShapeBounds));
+  if (!bounds) return null;
+  const padding = EXPORT_PADDING + Math.max(...drawable.map((shape) => shape.lineWidth)) * 2;
+  return {
+    x: bounds.x - padding,
+    y: bounds.y - padding,
+    width: bounds.width + padding * 2,
+    height: bounds.height + padding * 2,
+  };
+}
+
+export function exportToCanvas(shapes: Shape[], { scale, background }: ExportOptions): HTMLCanvasElement | null {
+  const bounds = getSceneBounds(shapes);
+  if (!bounds) return null;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.ceil(bounds.width * scale);
+  canvas.height = Math.ceil(bounds.height * scale);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+
+  if (background) {
+    ctx.fillStyle = BACKGROUND;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.scale(scale, scale);
+  ctx.translate(-bounds.x, -bounds.y);
+  getDrawableShapes(shapes).forEach((shape) => renderShape(ctx, shape));
+  return canvas;
+}
+
+export function exportToPng(shapes: Shape[], options: ExportOptions): Promise<Blob | null> {
+  const canvas = exportToCanvas(shapes, options);
+  if (!canvas) return Promise.resolve(null);
+  return new Promise((resolve) => canvas.toBlob(resolve, "image/png"));
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function attrs(values: Record<string, string | number | undefined>): string {
+  return Object.entries(values)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}="${escapeXml(String(value))}"`)
+    .join(" ");
+}
+
+function svgText(lines: string[], x: number, y: number, fontSize: number, color: string): string {
+  const tspans = lines
+    .map((line, i) => `<tspan ${attrs({ x, y: y + i * fontSize * LINE_HEIGHT })}>${escapeXml(line)}</tspan>`)
+    .join("");
+  return `<text ${attrs({
+    "font-family": FONT_FAMILY,
+    "font-size": fontSize,
+    fill: color,
+    "dominant-baseline": "text-before-edge",
+    "xml:space": "preserve",
+  })}>${tspans}</text>`;
+}
+
+function svgShape(shape: DrawableShape, index: number, defs: string[], measure: CanvasRenderingContext2D): string {
+  const dash = getDashPattern(shape);
+  const stroke = {
+    stroke: shape.color,
+    "stroke-width": shape.lineWidth,
+    "stroke-dasharray": dash.length > 0 ? dash.join(" ") : undefined,
+    "stroke-linecap": shape.strokeStyle === "dotted" || shape.type === "line" || shape.type === "arrow" ? "round" : undefined,
+    "stroke-linejoin": "round",
+  };
+
+  let fill = "none";
+  const fillColor = getFillColor(shape);
+  if (fillColor && shape.fillStyle === "solid") {
+    fill = fillColor;
+  } else if (fillColor) {
+    const id = `hachure-${index}`;
+    const gap = getHachureGap(shape);
+    defs.push(
+      `<pattern ${attrs({ id, width: gap, height: gap, patternUnits: "userSpaceOnUse", patternTransform: "rotate(-45)" })}>` +
+        `<line ${attrs({ x1: 0, y1: 0, x2: 0, y2: gap, stroke: fillColor, "stroke-width": Math.max(1, shape.lineWidth / 2) })}/>` +
+        `</pattern>`
+    );
+    fill = `url(#${id})`;
+  }
+
+  switch (shape.type) {
+    case "rect": {
+      const radius = Math.min(shape.cornerRadius ?? 0, shape.width / 2, shape.height / 2);
+      return `<rect ${attrs({ x: shape.x, y: shape.y, width: shape.width, height: shape.height, rx: radius > 0 ? radius : undefined, fill, ...stroke })}/>`;
+    }
+    case "circle":
+      return `<ellipse ${attrs({ cx: shape.centerX, cy: shape.centerY, rx: Math.abs(shape.radiusX), ry: Math.abs(shape.radiusY), fill, ...stroke })}/>`;
+    case "diamond": {
+      const cx = shape.x + shape.width / 2;
+      const cy = shape.y + shape.height / 2;
+      const points = `${cx},${shape.y} ${shape.x + shape.width},${cy} ${cx},${shape.y + shape.height} ${shape.x},${cy}`;
+      return `<polygon ${attrs({ points, fill, ...stroke })}/>`;
+    }
+    case "pencil":
+      return `<polyline ${attrs({ points: shape.points.map((p) => `${p.x},${p.y}`).join(" "), fill: "none", ...stroke })}/>`;
+    case "line":
+    case "arrow": {
+      const parts = [`<line ${attrs({ x1: shape.x1, y1: shape.y1, x2: shape.x2, y2: shape.y2, ...stroke })}/>`];
+      if (shape.type === "arrow") {
+        const heads = [
+          { head: shape.endHead, x: shape.x2, y: shape.y2, fromX: shape.x1, fromY: shape.y1 },
+          { head: shape.startHead, x: shape.x1, y: shape.y1, fromX: shape.x2, fromY: shape.y2 },
+        ];
+        heads.forEach(({ head, x, y, fromX, fromY }) => {
+          if (head === "none") return;
+          const { left, right } = getArrowheadPoints(x, y, fromX, fromY, shape.lineWidth);
+          const d = `M${left.x},${left.y} L${x},${y} L${right.x},${right.y}${head === "triangle" ? " Z" : ""}`;
+          parts.push(`<path ${attrs({ d, ...stroke, "stroke-dasharray": undefined, fill: head === "triangle" ? shape.color : "none" })}/>`);
+        });
+      }
+      return parts.join("");
+    }
+    case "text":
+      return svgText(shape.text.split("\n"), shape.x, shape.y, shape.fontSize, shape.color);
+    case "sticky": {
+      measure.font = `${shape.fontSize}px ${FONT_FAMILY}`;
+      const lines = wrapText(measure, shape.text, shape.width - STICKY_PADDING * 2);
+      return (
+        `<rect ${attrs({ x: shape.x, y: shape.y, width: shape.width, height: shape.height, fill: shape.fill })}/>` +
+        svgText(lines, shape.x + STICKY_PADDING, shape.y + STICKY_PADDING, shape.fontSize, shape.color)
+      );
+    }
+  }
+}
+
+// A standalone SVG document in canvas units, cropped to the content
+export function exportToSvg(shapes: Shape[], { scale, background }: ExportOptions): string | null {
+  const bounds = getSceneBounds(shapes);
+  const measure = document.createElement("canvas").getContext("2d");
+  if (!bounds || !measure) return null;
+
+  const defs: string[] = [];
+  const body = getDrawableShapes(shapes).map((shape, i) => {
+    const element = svgShape(shape, i, defs, measure);
+    const opacity = shape.opacity ?? 1;
+    return opacity < 1 ? `<g ${attrs({ opacity })}>${element}</g>` : element;
+  });
+
+  const svgAttrs = attrs({
+    xmlns: "http://www.w3.org/2000/svg",
+    width: Math.ceil(bounds.width * scale),
+    height: Math.ceil(bounds.height * scale),
+    viewBox: `${bounds.x} ${bounds.y} ${bounds.width} ${bounds.height}`,
+  });
+  return [
+    `<svg ${svgAttrs}>`,
+    defs.length > 0 ? `<defs>${defs.join("")}</defs>` : "",
+    background ? `<rect ${attrs({ ...bounds, fill: BACKGROUND })}/>` : "",
+    ...body,
+    "</svg>",
+  ].join("\n");
+}
+
+export function serializeScene(shapes: Shape[]): string {
+  return JSON.stringify(
+    { type: SCENE_TYPE, version: SCENE_VERSION, shapes: getDrawableShapes(shapes) },
+    null,
+    2
+  );
+}
+
+export function downloadFile(data: Blob | string, filename: string, mimeType: string) {
+  const blob = typeof data === "string" ? new Blob([data], { type: mimeType }) : data;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoking synchronously can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
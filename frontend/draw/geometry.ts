@@ -0,0 +1,364 @@
+import type { Shape } from "./Game";
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type Handle = "nw" | "n" | "ne" | "e" | "se" | "s" | "sw" | "w";
+
+export const HANDLES: Handle[] = ["nw", "n", "ne", "e", "se", "s", "sw", "w"];
+
+const MIN_SIZE = 1;
+
+export function getShapeBounds(shape: Shape): Bounds {
+  switch (shape.type) {
+    case "rect":
+    case "diamond":
+    case "text":
+    case "sticky":
+      return {
+        x: Math.min(shape.x, shape.x + shape.width),
+        y: Math.min(shape.y, shape.y + shape.height),
+        width: Math.abs(shape.width),
+        height: Math.abs(shape.height),
+      };
+    case "circle":
+      return {
+        x: shape.centerX - Math.abs(shape.radiusX),
+        y: shape.centerY - Math.abs(shape.radiusY),
+        width: Math.abs(shape.radiusX) * 2,
+        height: Math.abs(shape.radiusY) * 2,
+      };
+    case "line":
+    case "arrow":
+      return normalizeBounds(shape.x1, shape.y1, shape.x2, shape.y2);
+    case "pencil":
+    case "eraser":
+      return getPointsBounds(shape.points);
+  }
+}
+
+export function distanceToSegment(px: number, py: number, x1: number, y1: number, x2: number, y2: number): number {
+  const dx = x2 - x1;
+  const dy = y2 - y1;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((px - x1) * dx + (py - y1) * dy) / lengthSquared));
+  return Math.hypot(px - (x1 + t * dx), py - (y1 + t * dy));
+}
+
+export function getPointsBounds(points: Point[]): Bounds {
+  if (points.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  return { x: minX, y: minY, width: Math.max(...xs) - minX, height: Math.max(...ys) - minY };
+}
+
+export function unionBounds(bounds: Bounds[]): Bounds | null {
+  if (bounds.length === 0) return null;
+  const minX = Math.min(...bounds.map((b) => b.x));
+  const minY = Math.min(...bounds.map((b) => b.y));
+  const maxX = Math.max(...bounds.map((b) => b.x + b.width));
+  const maxY = Math.max(...bounds.map((b) => b.y + b.height));
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+export function boundsContain(outer: Bounds, inner: Bounds): boolean {
+  return (
+    inner.x >= outer.x &&
+    inner.y >= outer.y &&
+    inner.x + inner.width <= outer.x + outer.width &&
+    inner.y + inner.height <= outer.y + outer.height
+  );
+}
+
+export function normalizeBounds(x1: number, y1: number, x2: number, y2: number): Bounds {
+  return { x: Math.min(x1, x2), y: Math.min(y1, y2), width: Math.abs(x2 - x1), height: Math.abs(y2 - y1) };
+}
+
+// tolerance is in canvas units, so callers should divide screen pixels by the zoom
+export function hitTestShape(shape: Shape, x: number, y: number, tolerance: number): boolean {
+  switch (shape.type) {
+    case "rect":
+    case "text":
+    case "sticky": {
+      const b = getShapeBounds(shape);
+      return x >= b.x && x <= b.x + b.width && y >= b.y && y <= b.y + b.height;
+    }
+    case "diamond": {
+      const b = getShapeBounds(shape);
+      const dx = Math.abs(x - (b.x + b.width / 2)) / (b.width / 2 || 1);
+      const dy = Math.abs(y - (b.y + b.height / 2)) / (b.height / 2 || 1);
+      return dx + dy <= 1;
+    }
+    case "line":
+    case "arrow":
+      return distanceToSegment(x, y, shape.x1, shape.y1, shape.x2, shape.y2) <= tolerance + shape.lineWidth / 2;
+    case "circle": {
+      // Calculate if the point is inside the oval using the standard equation of an ellipse
+      const normalizedX = (x - shape.centerX) / shape.radiusX;
+      const normalizedY = (y - shape.centerY) / shape.radiusY;
+      return (normalizedX * normalizedX + normalizedY * normalizedY) <= 1;
+    }
+    case "pencil":
+      return shape.points.some((point) => Math.hypot(x - point.x, y - point.y) <= tolerance);
+    case "eraser":
+      return false;
+  }
+}
+
+// Whether the eraser circle at (x, y) touches the shape
+export function shapeIntersectsCircle(shape: Shape, x: number, y: number, radius: number): boolean {
+  switch (shape.type) {
+    case "rect":
+    case "diamond":
+    case "text":
+    case "sticky": {
+      // Check if eraser circle intersects with the bounding rectangle
+      const b = getShapeBounds(shape);
+      const circleDistX = Math.abs(x - (b.x + b.width/2));
+      const circleDistY = Math.abs(y - (b.y + b.height/2));
+
+      if (circleDistX > (b.width/2 + radius)) return false;
+      if (circleDistY > (b.height/2 + radius)) return false;
+
+      if (circleDistX <= (b.width/2)) return true;
+      if (circleDistY <= (b.height/2)) return true;
+
+      const cornerDistance = Math.pow(circleDistX - b.width/2, 2) +
+                           Math.pow(circleDistY - b.height/2, 2);
+
+      return cornerDistance <= Math.pow(radius, 2);
+    }
+    case "circle": {
+      // Check if eraser circle intersects with shape circle
+      const distance = Math.hypot(x - shape.centerX, y - shape.centerY);
+      return distance <= (Math.max(shape.radiusX, shape.radiusY) + radius);
+    }
+    case "line":
+    case "arrow":
+      return distanceToSegment(x, y, shape.x1, shape.y1, shape.x2, shape.y2) <= radius + shape.lineWidth / 2;
+    case "pencil":
+      // Check if any point of the pencil stroke is within eraser radius
+      return shape.points.some((point) => Math.hypot(x - point.x, y - point.y) <= radius);
+    case "eraser":
+      return false; // Don't erase other eraser marks
+  }
+}
+
+export function translateShape(shape: Shape, dx: number, dy: number): Shape {
+  switch (shape.type) {
+    case "rect":
+    case "diamond":
+    case "text":
+    case "sticky":
+      return { ...shape, x: shape.x + dx, y: shape.y + dy };
+    case "circle":
+      return { ...shape, centerX: shape.centerX + dx, centerY: shape.centerY + dy };
+    case "line":
+    case "arrow":
+      return { ...shape, x1: shape.x1 + dx, y1: shape.y1 + dy, x2: shape.x2 + dx, y2: shape.y2 + dy };
+    case "pencil":
+    case "eraser":
+      return { ...shape, points: shape.points.map((point) => ({ x: point.x + dx, y: point.y + dy })) };
+  }
+}
+
+// Maps a shape linearly from one bounding box onto another; used to resize a
+// single shape or a whole selection as a group.
+export function scaleShape(shape: Shape, from: Bounds, to: Bounds): Shape {
+  const sx = from.width > 0 ? to.width / from.width : 1;
+  const sy = from.height > 0 ? to.height / from.height : 1;
+  const mapX = (x: number) => to.x + (x - from.x) * sx;
+  const mapY = (y: number) => to.y + (y - from.y) * sy;
+
+  switch (shape.type) {
+    case "rect":
+    case "diamond":
+    case "sticky":
+      return { ...shape, x: mapX(shape.x), y: mapY(shape.y), width: shape.width * sx, height: shape.height * sy };
+    case "text":
+      // Glyphs can't be stretched, so text follows the vertical factor only
+      return {
+        ...shape,
+        x: mapX(shape.x),
+        y: mapY(shape.y),
+        fontSize: shape.fontSize * sy,
+        width: shape.width * sy,
+        height: shape.height * sy,
+      };
+    case "line":
+    case "arrow":
+      return { ...shape, x1: mapX(shape.x1), y1: mapY(shape.y1), x2: mapX(shape.x2), y2: mapY(shape.y2) };
+    case "circle":
+      return {
+        ...shape,
+        centerX: mapX(shape.centerX),
+        centerY: mapY(shape.centerY),
+        radiusX: shape.radiusX * sx,
+        radiusY: shape.radiusY * sy,
+      };
+    case "pencil":
+    case "eraser":
+      return { ...shape, points: shape.points.map((point) => ({ x: mapX(point.x), y: mapY(point.y) })) };
+  }
+}
+
+export function getHandlePosition(bounds: Bounds, handle: Handle): Point {
+  const x = handle.includes("w") ? bounds.x : handle.includes("e") ? bounds.x + bounds.width : bounds.x + bounds.width / 2;
+  const y = handle.includes("n") ? bounds.y : handle.includes("s") ? bounds.y + bounds.height : bounds.y + bounds.height / 2;
+  return { x, y };
+}
+
+export function getHandleAt(bounds: Bounds, x: number, y: number, size: number): Handle | null {
+  return HANDLES.find((handle) => {
+    const p = getHandlePosition(bounds, handle);
+    return Math.abs(x - p.x) <= size && Math.abs(y - p.y) <= size;
+  }) ?? null;
+}
+
+export function getHandleCursor(handle: Handle): string {
+  switch (handle) {
+    case "nw":
+    case "se":
+      return "nwse-resize";
+    case "ne":
+    case "sw":
+      return "nesw-resize";
+    case "n":
+    case "s":
+      return "ns-resize";
+    case "e":
+    case "w":
+      return "ew-resize";
+  }
+}
+
+// New bounds for dragging `handle` of `original` to (x, y). The opposite edge
+// stays put; with keepAspect the original width/height ratio is preserved.
+export function resizeBounds(original: Bounds, handle: Handle, x: number, y: number, keepAspect: boolean): Bounds {
+  let left = original.x;
+  let top = original.y;
+  let right = original.x + original.width;
+  let bottom = original.y + original.height;
+
+  if (handle.includes("w")) left = Math.min(x, right - MIN_SIZE);
+  if (handle.includes("e")) right = Math.max(x, left + MIN_SIZE);
+  if (handle.includes("n")) top = Math.min(y, bottom - MIN_SIZE);
+  if (handle.includes("s")) bottom = Math.max(y, top + MIN_SIZE);
+
+  if (keepAspect && original.width > 0 && original.height > 0) {
+    const ratio = original.width / original.height;
+    let width = right - left;
+    let height = bottom - top;
+    const horizontal = handle.includes("e") || handle.includes("w");
+    const vertical = handle.includes("n") || handle.includes("s");
+
+    if (horizontal && vertical) {
+      if (width / height > ratio) {
+        width = height * ratio;
+      } else {
+        height = width / ratio;
+      }
+    } else if (vertical) {
+      width = height * ratio;
+    } else {
+      height = width / ratio;
+    }
+
+    if (handle.includes("w")) {
+      left = right - width;
+    } else if (handle.includes("e")) {
+      right = left + width;
+    } else {
+      left = original.x + original.width / 2 - width / 2;
+      right = left + width;
+    }
+
+    if (handle.includes("n")) {
+      top = bottom - height;
+    } else if (handle.includes("s")) {
+      bottom = top + height;
+    } else {
+      top = original.y + original.height / 2 - height / 2;
+      bottom = top + height;
+    }
+  }
+
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+type Connector = Shape & { type: "line" | "arrow" };
+
+const BINDING_GAP = 4;
+
+export function isBindable(shape: Shape): boolean {
+  return shape.type === "rect" || shape.type === "circle" || shape.type === "diamond" ||
+    shape.type === "text" || shape.type === "sticky";
+}
+
+export function isConnector(shape: Shape): shape is Connector {
+  return shape.type === "line" || shape.type === "arrow";
+}
+
+export function isBoundTo(connector: Connector, ids: Set<string>): boolean {
+  return (!!connector.startBinding && ids.has(connector.startBinding.shapeId)) ||
+    (!!connector.endBinding && ids.has(connector.endBinding.shapeId));
+}
+
+export function getShapeCenter(shape: Shape): Point {
+  const b = getShapeBounds(shape);
+  return { x: b.x + b.width / 2, y: b.y + b.height / 2 };
+}
+
+// Where a ray from the shape's center towards `toward` leaves its outline, pushed
+// out by a small gap so arrowheads don't overlap the stroke.
+export function getBoundaryPoint(shape: Shape, toward: Point): Point {
+  const b = getShapeBounds(shape);
+  const center = getShapeCenter(shape);
+  const dx = toward.x - center.x;
+  const dy = toward.y - center.y;
+  const halfWidth = b.width / 2 || 1;
+  const halfHeight = b.height / 2 || 1;
+  if (dx === 0 && dy === 0) return center;
+
+  let t: number;
+  if (shape.type === "circle") {
+    t = 1 / Math.hypot(dx / halfWidth, dy / halfHeight);
+  } else if (shape.type === "diamond") {
+    t = 1 / (Math.abs(dx) / halfWidth + Math.abs(dy) / halfHeight);
+  } else {
+    t = 1 / Math.max(Math.abs(dx) / halfWidth, Math.abs(dy) / halfHeight);
+  }
+
+  const length = Math.hypot(dx, dy);
+  return {
+    x: center.x + dx * t + (dx / length) * BINDING_GAP,
+    y: center.y + dy * t + (dy / length) * BINDING_GAP,
+  };
+}
+
+// Recomputes the endpoints of a connector from the shapes it is bound to. An end
+// whose shape no longer exists is left where it is, keeping the binding so that
+// undoing the deletion reattaches it.
+export function routeConnector(connector: Connector, lookup: (id: string) => Shape | undefined): Connector {
+  const start = connector.startBinding && lookup(connector.startBinding.shapeId);
+  const end = connector.endBinding && lookup(connector.endBinding.shapeId);
+  if (!start && !end) return connector;
+
+  const startTarget = end ? getShapeCenter(end) : { x: connector.x2, y: connector.y2 };
+  const endTarget = start ? getShapeCenter(start) : { x: connector.x1, y: connector.y1 };
+  const p1 = start ? getBoundaryPoint(start, startTarget) : { x: connector.x1, y: connector.y1 };
+  const p2 = end ? getBoundaryPoint(end, endTarget) : { x: connector.x2, y: connector.y2 };
+
+  return { ...connector, x1: p1.x, y1: p1.y, x2: p2.x, y2: p2.y };
+}
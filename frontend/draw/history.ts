@@ -0,0 +1,77 @@
+import type { Shape } from "./Game";
+
+// A shape as it was before and after one local action; null means it didn't exist.
+export interface ShapeChange {
+  id: string;
+  before: Shape | null;
+  after: Shape | null;
+}
+
+export type HistoryEntry = ShapeChange[];
+
+export class History {
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+  private listeners = new Set<() => void>();
+
+  constructor(private limit: number = 100) {}
+
+  record(entry: HistoryEntry) {
+    if (entry.length === 0) return;
+    this.undoStack.push(entry);
+    if (this.undoStack.length > this.limit) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+    this.notify();
+  }
+
+  popUndo(): HistoryEntry | undefined {
+    const entry = this.undoStack.pop();
+    this.notify();
+    return entry;
+  }
+
+  popRedo(): HistoryEntry | undefined {
+    const entry = this.redoStack.pop();
+    this.notify();
+    return entry;
+  }
+
+  pushUndo(entry: HistoryEntry) {
+    if (entry.length === 0) return;
+    this.undoStack.push(entry);
+    this.notify();
+  }
+
+  pushRedo(entry: HistoryEntry) {
+    if (entry.length === 0) return;
+    this.redoStack.push(entry);
+    this.notify();
+  }
+
+  clear() {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.notify();
+  }
+
+  canUndo() {
+    return this.undoStack.length > 0;
+  }
+
+  canRedo() {
+    return this.redoStack.length > 0;
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener());
+  }
+}
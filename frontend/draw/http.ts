@@ -1,21 +1,15 @@
 import { HTTP_Backend } from "@/config";
+import { authHeaders } from "@/lib/auth";
+import { shapeSchema } from "@/lib/protocol";
 import axios from "axios";
+import type { Shape } from "./Game";
 
-export async function getExistingShapes(roomId: string) {
-    const res = await axios.get(`${HTTP_Backend}/chats/${roomId}`);
-    const messages = res.data.messages;
-
-    const shapes = messages
-    .map((x: { message: string }) => {
-        try {
-            const messageData = JSON.parse(x.message);
-            return messageData.shape || null;
-        } catch (error) {
-            console.error("Invalid JSON message:", x.message);
-            return null;
-        }
-    })
-    .filter(Boolean); // Remove any null/undefined shapes
-
-    return shapes;
-}
\ No newline at end of file
+// Rows stored before the server checked shapes may not be drawable; they're skipped
+// rather than breaking the whole board
+export async function getExistingShapes(roomId: string): Promise<Shape[]> {
+    const res = await axios.get(`${HTTP_Backend}/elements/${roomId}`, { headers: authHeaders() });
+    return res.data.elements.flatMap((element: { data: unknown }) => {
+        const parsed = shapeSchema.safeParse(element.data);
+        return parsed.success ? [parsed.data] : [];
+    });
+}
@@ -0,0 +1,187 @@
+import { z } from "zod";
+import type { ArrowHead, FillStyle, Shape, ShapeBinding, StrokeStyle } from "./Game";
+import { SCENE_TYPE } from "./export";
+import { isConnector } from "./geometry";
+import { generateId } from "@/lib/ids";
+import { shapeDataSchema } from "@/lib/protocol";
+
+const coordinate = z.number().finite();
+const boxFields = { x: coordinate, y: coordinate, width: coordinate, height: coordinate };
+
+const excalidrawBindingSchema = z.object({ elementId: z.string() }).nullish();
+
+// The subset of an upstream Excalidraw element that we know how to map
+const excalidrawElementSchema = z.object({
+  id: z.string(),
+  type: z.string(),
+  ...boxFields,
+  isDeleted: z.boolean().optional(),
+  strokeColor: z.string().optional(),
+  backgroundColor: z.string().optional(),
+  fillStyle: z.string().optional(),
+  strokeWidth: coordinate.optional(),
+  strokeStyle: z.string().optional(),
+  opacity: z.number().min(0).max(100).optional(),
+  roundness: z.unknown(),
+  points: z.array(z.tuple([coordinate, coordinate])).optional(),
+  startBinding: excalidrawBindingSchema,
+  endBinding: excalidrawBindingSchema,
+  startArrowhead: z.string().nullish(),
+  endArrowhead: z.string().nullish(),
+  text: z.string().optional(),
+  fontSize: coordinate.optional(),
+});
+
+type ExcalidrawElement = z.infer<typeof excalidrawElementSchema>;
+
+export class SceneImportError extends Error {}
+
+const ROUNDED_CORNER_RADIUS = 16;
+
+function toStrokeStyle(style: string | undefined): StrokeStyle {
+  return style === "dashed" || style === "dotted" ? style : "solid";
+}
+
+function toFillStyle(element: ExcalidrawElement): FillStyle {
+  if (!element.backgroundColor || element.backgroundColor === "transparent") return "none";
+  return element.fillStyle === "solid" ? "solid" : "hachure";
+}
+
+// Upstream has bar, dot, circle and diamond heads too; they all become plain arrows
+function toArrowHead(head: string | null | undefined): ArrowHead {
+  if (!head) return "none";
+  return head === "triangle" ? "triangle" : "arrow";
+}
+
+function toBinding(binding: { elementId: string } | null | undefined): ShapeBinding | undefined {
+  return binding ? { shapeId: binding.elementId } : undefined;
+}
+
+function fromExcalidrawElement(element: ExcalidrawElement): Shape | null {
+  const style = {
+    id: element.id,
+    color: element.strokeColor ?? "#1e1e1e",
+    lineWidth: element.strokeWidth ?? 2,
+    strokeStyle: toStrokeStyle(element.strokeStyle),
+    fillStyle: toFillStyle(element),
+    fillColor: element.backgroundColor ?? "transparent",
+    opacity: (element.opacity ?? 100) / 100,
+  };
+  const points = (element.points ?? []).map(([px, py]) => ({ x: element.x + px, y: element.y + py }));
+
+  switch (element.type) {
+    case "rectangle":
+      return {
+        ...style,
+        type: "rect",
+        x: element.x,
+        y: element.y,
+        width: element.width,
+        height: element.height,
+        cornerRadius: element.roundness ? ROUNDED_CORNER_RADIUS : 0,
+      };
+    case "diamond":
+      return { ...style, type: "diamond", x: element.x, y: element.y, width: element.width, height: element.height };
+    case "ellipse":
+      return {
+        ...style,
+        type: "circle",
+        centerX: element.x + element.width / 2,
+        centerY: element.y + element.height / 2,
+        radiusX: element.width / 2,
+        radiusY: element.height / 2,
+      };
+    case "freedraw":
+      return points.length > 0 ? { ...style, type: "pencil", points } : null;
+    case "line":
+    case "arrow": {
+      if (points.length < 2) return null;
+      // Our connectors are straight, so a multi-point line keeps its shape as a stroke
+      if (element.type === "line" && points.length > 2) return { ...style, type: "pencil", points };
+      const start = points[0];
+      const end = points[points.length - 1];
+      const ends = { x1: start.x, y1: start.y, x2: end.x, y2: end.y };
+      if (element.type === "line") return { ...style, type: "line", ...ends };
+      return {
+        ...style,
+        type: "arrow",
+        ...ends,
+        startHead: toArrowHead(element.startArrowhead),
+        endHead: toArrowHead(element.endArrowhead),
+        startBinding: toBinding(element.startBinding),
+        endBinding: toBinding(element.endBinding),
+      };
+    }
+    case "text":
+      return {
+        ...style,
+        type: "text",
+        x: element.x,
+        y: element.y,
+        width: element.width,
+        height: element.height,
+        text: element.text ?? "",
+        fontSize: element.fontSize ?? 20,
+      };
+    default:
+      return null;
+  }
+}
+
+// Gives every imported shape a fresh id, so that importing the same file twice
+// adds a second copy instead of overwriting the first, and keeps bindings intact.
+function withFreshIds(shapes: Shape[]): Shape[] {
+  const ids = new Map(shapes.map((shape) => [shape.id, generateId()]));
+  const rebind = (binding: ShapeBinding | undefined) => {
+    const shapeId = binding && ids.get(binding.shapeId);
+    return shapeId ? { shapeId } : undefined;
+  };
+
+  return shapes.map((shape) => {
+    const next = { ...shape, id: ids.get(shape.id)! };
+    if (isConnector(next)) {
+      const startBinding = rebind(next.startBinding);
+      const endBinding = rebind(next.endBinding);
+      delete next.startBinding;
+      delete next.endBinding;
+      if (startBinding) next.startBinding = startBinding;
+      if (endBinding) next.endBinding = endBinding;
+    }
+    return next;
+  });
+}
+
+// Accepts our own JSON export or an upstream .excalidraw file
+export function parseScene(text: string): Shape[] {
+  let scene: unknown;
+  try {
+    scene = JSON.parse(text);
+  } catch {
+    throw new SceneImportError("This file isn't valid JSON.");
+  }
+  if (!scene || typeof scene !== "object") {
+    throw new SceneImportError("This file doesn't contain a scene.");
+  }
+
+  const { type, shapes, elements } = scene as { type?: unknown; shapes?: unknown; elements?: unknown };
+  let imported: Shape[];
+  // Shapes that are malformed are skipped, since every client would draw them
+  if (type === SCENE_TYPE && Array.isArray(shapes)) {
+    imported = shapes.flatMap((shape) => {
+      const parsed = shapeDataSchema.safeParse(shape);
+      return parsed.success ? [parsed.data as Shape] : [];
+    });
+  } else if (type === "excalidraw" && Array.isArray(elements)) {
+    imported = elements.flatMap((element) => {
+      const parsed = excalidrawElementSchema.safeParse(element);
+      return parsed.success && !parsed.data.isDeleted ? (fromExcalidrawElement(parsed.data) ?? []) : [];
+    });
+  } else {
+    throw new SceneImportError("Unsupported file: expected an exported board or a .excalidraw file.");
+  }
+
+  if (imported.length === 0) {
+    throw new SceneImportError("There is nothing in this file that can be imported.");
+  }
+  return withFreshIds(imported);
+}
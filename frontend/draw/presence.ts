@@ -0,0 +1,29 @@
+export interface Participant {
+  userId: string;
+  name: string;
+}
+
+export interface RemoteCursor extends Participant {
+  x: number;
+  y: number;
+}
+
+// Minimum gap between cursor updates we send, in ms
+export const CURSOR_THROTTLE_MS = 50;
+
+const USER_COLORS = ["#e03131", "#1971c2", "#2f9e44", "#f08c00", "#9c36b5", "#0c8599", "#c2255c", "#5c940d"];
+
+// Stable per user so everyone sees the same person in the same color
+export function getUserColor(userId: string): string {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  }
+  return USER_COLORS[Math.abs(hash) % USER_COLORS.length];
+}
+
+export function getInitials(name: string): string {
+  const parts = name.trim().split(/\s+/).filter(Boolean);
+  if (parts.length === 0) return "?";
+  return (parts[0][0] + (parts.length > 1 ? parts[parts.length - 1][0] : "")).toUpperCase();
+}
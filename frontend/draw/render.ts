@@ -0,0 +1,190 @@
+import type { ArrowHead, Shape, ShapeStyle } from "./Game";
+import { getShapeBounds } from "./geometry";
+
+export const FONT_FAMILY = "Arial, Helvetica, sans-serif";
+export const LINE_HEIGHT = 1.25;
+export const STICKY_PADDING = 12;
+
+export function getDashPattern(shape: ShapeStyle): number[] {
+  if (shape.strokeStyle === "dashed") return [shape.lineWidth * 4, shape.lineWidth * 3];
+  if (shape.strokeStyle === "dotted") return [1, shape.lineWidth * 2.5];
+  return [];
+}
+
+// The color to fill a closed shape with, or null when it is see-through
+export function getFillColor(shape: ShapeStyle): string | null {
+  if (!shape.fillStyle || shape.fillStyle === "none" || !shape.fillColor || shape.fillColor === "transparent") return null;
+  return shape.fillColor;
+}
+
+// Draws one shape in canvas coordinates; shared by the live canvas and exports
+export function renderShape(ctx: CanvasRenderingContext2D, shape: Shape) {
+  ctx.save();
+
+  if (shape.type !== "eraser") {
+    ctx.strokeStyle = shape.color;
+    ctx.lineWidth = shape.lineWidth;
+    ctx.globalAlpha = shape.opacity ?? 1;
+    ctx.setLineDash(getDashPattern(shape));
+    if (shape.strokeStyle === "dotted") ctx.lineCap = "round";
+  }
+
+  if (shape.type === "rect" || shape.type === "circle" || shape.type === "diamond") {
+    const path = getOutlinePath(shape);
+    fillShape(ctx, shape, path);
+    ctx.stroke(path);
+  } else if (shape.type === "pencil") {
+    if (shape.points.length > 0) {
+      ctx.beginPath();
+      ctx.moveTo(shape.points[0].x, shape.points[0].y);
+      shape.points.forEach((point) => ctx.lineTo(point.x, point.y));
+      ctx.stroke();
+      ctx.closePath();
+    }
+  } else if (shape.type === "line" || shape.type === "arrow") {
+    ctx.lineCap = "round";
+    ctx.beginPath();
+    ctx.moveTo(shape.x1, shape.y1);
+    ctx.lineTo(shape.x2, shape.y2);
+    ctx.stroke();
+    if (shape.type === "arrow") {
+      drawArrowhead(ctx, shape.x2, shape.y2, shape.x1, shape.y1, shape.endHead, shape.lineWidth);
+      drawArrowhead(ctx, shape.x1, shape.y1, shape.x2, shape.y2, shape.startHead, shape.lineWidth);
+    }
+  } else if (shape.type === "text") {
+    ctx.fillStyle = shape.color;
+    drawTextLines(ctx, shape.text.split("\n"), shape.x, shape.y, shape.fontSize);
+  } else if (shape.type === "sticky") {
+    ctx.shadowColor = "rgba(0, 0, 0, 0.15)";
+    ctx.shadowBlur = 8;
+    ctx.shadowOffsetY = 2;
+    ctx.fillStyle = shape.fill;
+    ctx.fillRect(shape.x, shape.y, shape.width, shape.height);
+    ctx.shadowColor = "transparent";
+    ctx.fillStyle = shape.color;
+    ctx.font = `${shape.fontSize}px ${FONT_FAMILY}`;
+    const lines = wrapText(ctx, shape.text, shape.width - STICKY_PADDING * 2);
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(shape.x, shape.y, shape.width, shape.height);
+    ctx.clip();
+    drawTextLines(ctx, lines, shape.x + STICKY_PADDING, shape.y + STICKY_PADDING, shape.fontSize);
+    ctx.restore();
+  }
+
+  ctx.restore();
+}
+
+export function getOutlinePath(shape: Shape & { type: "rect" | "circle" | "diamond" }): Path2D {
+  const path = new Path2D();
+  if (shape.type === "rect") {
+    const radius = Math.min(shape.cornerRadius ?? 0, Math.abs(shape.width) / 2, Math.abs(shape.height) / 2);
+    if (radius > 0) {
+      path.roundRect(shape.x, shape.y, shape.width, shape.height, radius);
+    } else {
+      path.rect(shape.x, shape.y, shape.width, shape.height);
+    }
+  } else if (shape.type === "circle") {
+    path.ellipse(
+      shape.centerX,
+      shape.centerY,
+      Math.abs(shape.radiusX),
+      Math.abs(shape.radiusY),
+      0,
+      0,
+      Math.PI * 2
+    );
+  } else {
+    const cx = shape.x + shape.width / 2;
+    const cy = shape.y + shape.height / 2;
+    path.moveTo(cx, shape.y);
+    path.lineTo(shape.x + shape.width, cy);
+    path.lineTo(cx, shape.y + shape.height);
+    path.lineTo(shape.x, cy);
+    path.closePath();
+  }
+  return path;
+}
+
+function fillShape(ctx: CanvasRenderingContext2D, shape: Shape & ShapeStyle, path: Path2D) {
+  const fillColor = getFillColor(shape);
+  if (!fillColor) return;
+
+  ctx.save();
+  ctx.setLineDash([]);
+  if (shape.fillStyle === "solid") {
+    ctx.fillStyle = fillColor;
+    ctx.fill(path);
+  } else {
+    // Hachure: diagonal strokes clipped to the outline
+    const b = getShapeBounds(shape);
+    const gap = getHachureGap(shape);
+    ctx.clip(path);
+    ctx.strokeStyle = fillColor;
+    ctx.lineWidth = Math.max(1, shape.lineWidth / 2);
+    ctx.beginPath();
+    for (let d = -b.height; d < b.width; d += gap) {
+      ctx.moveTo(b.x + d, b.y + b.height);
+      ctx.lineTo(b.x + d + b.height, b.y);
+    }
+    ctx.stroke();
+  }
+  ctx.restore();
+}
+
+export function getHachureGap(shape: ShapeStyle): number {
+  return Math.max(6, shape.lineWidth * 3);
+}
+
+// The two barb ends of a head at (x, y) for a line coming from (fromX, fromY)
+export function getArrowheadPoints(x: number, y: number, fromX: number, fromY: number, lineWidth: number) {
+  const angle = Math.atan2(y - fromY, x - fromX);
+  const size = Math.max(10, lineWidth * 3);
+  const spread = Math.PI / 7;
+  return {
+    left: { x: x - size * Math.cos(angle - spread), y: y - size * Math.sin(angle - spread) },
+    right: { x: x - size * Math.cos(angle + spread), y: y - size * Math.sin(angle + spread) },
+  };
+}
+
+function drawArrowhead(ctx: CanvasRenderingContext2D, x: number, y: number, fromX: number, fromY: number, head: ArrowHead, lineWidth: number) {
+  if (head === "none") return;
+  const { left, right } = getArrowheadPoints(x, y, fromX, fromY, lineWidth);
+
+  ctx.beginPath();
+  ctx.moveTo(left.x, left.y);
+  ctx.lineTo(x, y);
+  ctx.lineTo(right.x, right.y);
+  ctx.setLineDash([]);
+  if (head === "triangle") {
+    ctx.closePath();
+    ctx.fillStyle = ctx.strokeStyle;
+    ctx.fill();
+  }
+  ctx.stroke();
+}
+
+function drawTextLines(ctx: CanvasRenderingContext2D, lines: string[], x: number, y: number, fontSize: number) {
+  ctx.font = `${fontSize}px ${FONT_FAMILY}`;
+  ctx.textBaseline = "top";
+  lines.forEach((line, i) => ctx.fillText(line, x, y + i * fontSize * LINE_HEIGHT));
+}
+
+// Greedy word wrap for sticky notes; expects ctx.font to be set
+export function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  return text.split("\n").flatMap((paragraph) => {
+    const lines: string[] = [];
+    let line = "";
+    paragraph.split(" ").forEach((word) => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && ctx.measureText(candidate).width > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    });
+    lines.push(line);
+    return lines;
+  });
+}
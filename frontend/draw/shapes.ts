@@ -0,0 +1,47 @@
+import type { Shape } from "./Game";
+
+export type ShapeOperation =
+  | { type: "shape_add"; shapes: Shape[] }
+  | { type: "shape_update"; shapes: Shape[] }
+  | { type: "shape_delete"; ids: string[] };
+
+// Whether two shapes hold the same data. Key order doesn't count, since shapes come
+// back from the database with their keys reordered, and neither do keys set to
+// undefined, which don't survive being sent as JSON.
+export function shapesEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => shapesEqual(item, b[i]));
+  }
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+  return [...keys].every((key) => shapesEqual(left[key], right[key]));
+}
+
+// Adds are upserts so that replaying one twice (e.g. a retried send) never
+// duplicates a shape. Updates only touch shapes we still have, matching the
+// server, which only updates elements that exist and aren't deleted.
+export function applyShapeOperation(shapes: Shape[], operation: ShapeOperation): Shape[] {
+  switch (operation.type) {
+    case "shape_add":
+    case "shape_update": {
+      const next = [...shapes];
+      operation.shapes.forEach((shape) => {
+        const index = next.findIndex((s) => s.id === shape.id);
+        if (index !== -1) {
+          next[index] = shape;
+        } else if (operation.type === "shape_add") {
+          next.push(shape);
+        }
+      });
+      return next;
+    }
+    case "shape_delete": {
+      const ids = new Set(operation.ids);
+      return shapes.filter((shape) => !ids.has(shape.id));
+    }
+  }
+}
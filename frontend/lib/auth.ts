@@ -0,0 +1,23 @@
+// Reads the user id out of our JWT without verifying it; the servers do that.
+// Only use it for display decisions such as marking "you" in a list.
+export function getUserIdFromToken(token: string | null): string | null {
+  if (!token) return null;
+  try {
+    const payload = token.split(".")[1];
+    const json = atob(payload.replace(/-/g, "+").replace(/_/g, "/"));
+    const { userid } = JSON.parse(json);
+    return typeof userid === "string" ? userid : null;
+  } catch {
+    return null;
+  }
+}
+
+export function getCurrentUserId(): string | null {
+  if (typeof window === "undefined") return null;
+  return getUserIdFromToken(localStorage.getItem("token"));
+}
+
+export function authHeaders(): { Authorization: string } | Record<string, never> {
+  const token = typeof window === "undefined" ? null : localStorage.getItem("token");
+  return token ? { Authorization: token } : {};
+}
@@ -0,0 +1,71 @@
+import { HTTP_Backend } from "@/config";
+import axios from "axios";
+import { authHeaders } from "./auth";
+import { ChatMessage, MENTION_PATTERN } from "./protocol";
+import type { Participant } from "@/draw/presence";
+
+export const CHAT_PAGE_SIZE = 50;
+
+export interface ChatPage {
+  messages: ChatMessage[];
+  hasMore: boolean;
+}
+
+// The page of messages right before `before`, or the latest page, oldest first.
+// With a parentId the page holds replies in that thread instead of top-level messages.
+export async function getChatHistory(
+  roomId: string,
+  { before, parentId }: { before?: number; parentId?: number } = {}
+): Promise<ChatPage> {
+  const res = await axios.get(`${HTTP_Backend}/rooms/${roomId}/messages`, {
+    params: { before, parentId, limit: CHAT_PAGE_SIZE },
+    headers: authHeaders(),
+  });
+  return res.data;
+}
+
+export async function getMentionablePeople(roomId: string): Promise<Participant[]> {
+  const res = await axios.get(`${HTTP_Backend}/rooms/${roomId}/people`, { headers: authHeaders() });
+  return res.data.people;
+}
+
+export function mergeMessages(current: ChatMessage[], incoming: ChatMessage[]): ChatMessage[] {
+  const byId = new Map(current.map((message) => [message.id, message]));
+  incoming.forEach((message) => byId.set(message.id, message));
+  return [...byId.values()].sort((a, b) => a.id - b.id);
+}
+
+// Replaces a message that is already in the list, leaving the list alone otherwise
+export function replaceMessage(current: ChatMessage[], updated: ChatMessage): ChatMessage[] {
+  return current.some((message) => message.id === updated.id)
+    ? current.map((message) => (message.id === updated.id ? updated : message))
+    : current;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// The composer shows mentions as @Name; they are sent as <@userId> so that renames
+// and duplicate names can't point a mention at the wrong person
+export function encodeMentions(text: string, mentioned: Participant[]): string {
+  return [...mentioned]
+    .sort((a, b) => b.name.length - a.name.length)
+    .reduce(
+      (result, { userId, name }) =>
+        result.replace(new RegExp(`(^|\\s)@${escapeRegExp(name)}(?=$|[\\s.,!?:;])`, "g"), `$1<@${userId}>`),
+      text
+    );
+}
+
+export function decodeMentions(body: string, mentions: Participant[]): string {
+  const names = new Map(mentions.map((mention) => [mention.userId, mention.name]));
+  return body.replace(MENTION_PATTERN, (token, userId: string) => {
+    const name = names.get(userId);
+    return name ? `@${name}` : token;
+  });
+}
+
+export function isMentioned(message: ChatMessage, userId: string | null): boolean {
+  return !!userId && message.mentions.some((mention) => mention.userId === userId);
+}
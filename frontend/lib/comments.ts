@@ -0,0 +1,13 @@
+import { HTTP_Backend } from "@/config";
+import axios from "axios";
+import { authHeaders } from "./auth";
+import { CommentPin } from "./protocol";
+
+export async function getCommentPins(roomId: string): Promise<CommentPin[]> {
+  const res = await axios.get(`${HTTP_Backend}/rooms/${roomId}/comments`, { headers: authHeaders() });
+  return res.data.pins;
+}
+
+export function upsertCommentPin(pins: CommentPin[], pin: CommentPin): CommentPin[] {
+  return pins.some((p) => p.id === pin.id) ? pins.map((p) => (p.id === pin.id ? pin : p)) : [...pins, pin];
+}
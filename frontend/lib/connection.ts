@@ -0,0 +1,192 @@
+import { ClientMessage, ServerMessage, serverMessageSchema } from "./protocol";
+
+export type ConnectionStatus = "connecting" | "connected" | "reconnecting";
+
+export type ServerMessageOf<T extends ServerMessage["type"]> = Extract<ServerMessage, { type: T }>;
+type MessageListener = (message: ServerMessage) => void;
+
+const INITIAL_RETRY_MS = 500;
+const MAX_RETRY_MS = 10000;
+// Past this the board stops taking edits until the queue has been sent. Nothing queued
+// is ever dropped, since losing a shape's add would lose the shape.
+const MAX_QUEUED_MESSAGES = 500;
+
+interface QueuedMessage {
+  data: string;
+  dedupeKey?: string;
+}
+
+// One websocket per room page that survives drops: it reconnects with backoff,
+// joins the room again, and sends what was queued while offline once the server
+// has confirmed the join. Incoming messages are validated and handed to the
+// listeners registered for their type.
+export class RoomConnection {
+  readonly roomId: string;
+  private url: string;
+  private ws: WebSocket | null = null;
+  private status: ConnectionStatus = "connecting";
+  private queue: QueuedMessage[] = [];
+  private attempts = 0;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private hasJoined = false;
+  private closed = false;
+  private messageListeners = new Map<ServerMessage["type"], Set<MessageListener>>();
+  private statusListeners = new Set<() => void>();
+  private resyncListeners = new Set<() => void>();
+
+  constructor(url: string, roomId: string) {
+    this.url = url;
+    this.roomId = roomId;
+    window.addEventListener("online", this.handleOnline);
+    this.connect();
+  }
+
+  getStatus(): ConnectionStatus {
+    return this.status;
+  }
+
+  getQueuedCount(): number {
+    return this.queue.length;
+  }
+
+  isQueueFull(): boolean {
+    return this.queue.length >= MAX_QUEUED_MESSAGES;
+  }
+
+  // Sends now or queues until the room is rejoined. Returns whether it went out
+  // immediately. A queued message with the same dedupeKey is replaced, for state
+  // like editor contents where only the latest value matters.
+  send(message: ClientMessage, dedupeKey?: string): boolean {
+    const data = JSON.stringify(message);
+    if (this.isJoined()) {
+      this.ws!.send(data);
+      return true;
+    }
+
+    if (dedupeKey) this.queue = this.queue.filter((queued) => queued.dedupeKey !== dedupeKey);
+    this.queue.push({ data, dedupeKey });
+    this.notifyStatus();
+    return false;
+  }
+
+  // For messages that are useless once stale, like cursor positions and call signaling
+  sendVolatile(message: ClientMessage): boolean {
+    if (!this.isJoined()) return false;
+    this.ws!.send(JSON.stringify(message));
+    return true;
+  }
+
+  // Messages for other rooms never reach listeners
+  on<T extends ServerMessage["type"]>(type: T, listener: (message: ServerMessageOf<T>) => void): () => void {
+    const listeners = this.messageListeners.get(type) ?? new Set<MessageListener>();
+    this.messageListeners.set(type, listeners);
+    const untyped = listener as MessageListener;
+    listeners.add(untyped);
+    return () => {
+      listeners.delete(untyped);
+    };
+  }
+
+  onStatusChange(listener: () => void): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  // Called after every rejoin but the first, once the queue has been flushed
+  onResync(listener: () => void): () => void {
+    this.resyncListeners.add(listener);
+    return () => {
+      this.resyncListeners.delete(listener);
+    };
+  }
+
+  close() {
+    this.closed = true;
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    window.removeEventListener("online", this.handleOnline);
+    this.ws?.close();
+    this.ws = null;
+  }
+
+  private isJoined() {
+    return this.status === "connected" && this.ws?.readyState === WebSocket.OPEN;
+  }
+
+  private connect() {
+    this.retryTimer = null;
+    const ws = new WebSocket(this.url);
+    this.ws = ws;
+
+    ws.onopen = () => {
+      ws.send(JSON.stringify({ type: "join_room", roomId: this.roomId } satisfies ClientMessage));
+    };
+
+    ws.onmessage = (event) => this.dispatch(event.data);
+
+    ws.onclose = () => {
+      if (this.ws !== ws) return;
+      this.ws = null;
+      this.scheduleReconnect();
+    };
+  }
+
+  private dispatch(data: string) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(data);
+    } catch {
+      console.warn("Ignoring a message that isn't JSON:", data);
+      return;
+    }
+
+    const parsed = serverMessageSchema.safeParse(raw);
+    if (!parsed.success) {
+      console.warn("Ignoring an invalid message:", parsed.error.issues);
+      return;
+    }
+
+    const message = parsed.data;
+    if ("roomId" in message && message.roomId !== this.roomId) return;
+    if (message.type === "error") console.warn("The server rejected a message:", message.msg);
+    if (message.type === "joined") this.handleJoined();
+    this.messageListeners.get(message.type)?.forEach((listener) => listener(message));
+  }
+
+  private handleJoined() {
+    this.attempts = 0;
+    const queue = this.queue;
+    this.queue = [];
+    queue.forEach(({ data }) => this.ws?.send(data));
+
+    const isRejoin = this.hasJoined;
+    this.hasJoined = true;
+    this.setStatus("connected");
+    if (isRejoin) this.resyncListeners.forEach((listener) => listener());
+  }
+
+  private scheduleReconnect() {
+    if (this.closed) return;
+    this.setStatus(this.hasJoined ? "reconnecting" : "connecting");
+    // Exponential backoff with jitter so a restarted server isn't hit by everyone at once
+    const delay = Math.min(MAX_RETRY_MS, INITIAL_RETRY_MS * 2 ** this.attempts) * (0.5 + Math.random() / 2);
+    this.attempts++;
+    this.retryTimer = setTimeout(() => this.connect(), delay);
+  }
+
+  private handleOnline = () => {
+    if (!this.retryTimer) return;
+    clearTimeout(this.retryTimer);
+    this.connect();
+  };
+
+  private setStatus(status: ConnectionStatus) {
+    this.status = status;
+    this.notifyStatus();
+  }
+
+  private notifyStatus() {
+    this.statusListeners.forEach((listener) => listener());
+  }
+}
@@ -0,0 +1,8 @@
+// Ids for things created in the browser, like shapes and project files
+export function generateId(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  // crypto.randomUUID is only exposed in secure contexts, so plain HTTP falls back to this
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
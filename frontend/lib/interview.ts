@@ -0,0 +1,37 @@
+import { HTTP_Backend } from "@/config";
+import axios from "axios";
+import { authHeaders } from "./auth";
+import { InterviewProblem, InterviewReport } from "./protocol";
+
+// How many past reports the interviewer sees; http-backend sends the same number
+export const REPORT_HISTORY_SIZE = 20;
+
+// Hidden tests are only included for the room's owner
+export async function getInterviewProblem(roomId: string): Promise<InterviewProblem | null> {
+  const res = await axios.get(`${HTTP_Backend}/rooms/${roomId}/interview`, { headers: authHeaders() });
+  return res.data.problem;
+}
+
+// Newest first; only the room's owner may read them
+export async function getInterviewReports(roomId: string): Promise<InterviewReport[]> {
+  const res = await axios.get(`${HTTP_Backend}/rooms/${roomId}/interview/reports`, { headers: authHeaders() });
+  return res.data.reports;
+}
+
+export function upsertInterviewReport(reports: InterviewReport[], report: InterviewReport): InterviewReport[] {
+  if (!reports.some((r) => r.id === report.id)) {
+    return [report, ...reports].sort((a, b) => b.id - a.id).slice(0, REPORT_HISTORY_SIZE);
+  }
+  return reports.map((r) => (r.id === report.id ? report : r));
+}
+
+export function describeReport(report: InterviewReport): string {
+  const passed = report.results.filter((result) => result.status === "passed").length;
+  const total = report.results.length;
+  if (report.status === "running") {
+    const done = report.results.filter((result) => result.status !== "pending").length;
+    return `Judging… ${done} of ${total} done`;
+  }
+  if (report.status === "failed") return report.error ?? "Judging failed";
+  return `${passed} of ${total} passed`;
+}
@@ -0,0 +1,47 @@
+import { HTTP_Backend } from "@/config";
+import axios from "axios";
+
+// A language as http-backend's registry describes it
+export interface LanguageInfo {
+  id: string;
+  label: string;
+  // The language Monaco highlights files with
+  monacoId: string;
+  // The first one is used for new files
+  extensions: string[];
+  // What a new file starts with; {name} becomes its name without the extension
+  template: string;
+  // The code runner's installed version, or null when it can't run this language
+  version: string | null;
+}
+
+// Files of no known language; they can be edited but not run
+export const PLAIN_TEXT: LanguageInfo = {
+  id: "plaintext",
+  label: "Plain text",
+  monacoId: "plaintext",
+  extensions: ["txt"],
+  template: "",
+  version: null,
+};
+
+let languages: Promise<LanguageInfo[]> | null = null;
+
+// Fetched once per page; plain text is always last. If the backend can't be reached
+// only plain text is known, and the next call asks again.
+export function getLanguages(): Promise<LanguageInfo[]> {
+  languages ??= axios
+    .get(`${HTTP_Backend}/languages`)
+    .then((res) => [...(res.data.languages as LanguageInfo[]), PLAIN_TEXT])
+    .catch(() => {
+      languages = null;
+      return [PLAIN_TEXT];
+    });
+  return languages;
+}
+
+// A file can name a language the registry doesn't list, e.g. before it has loaded;
+// it is highlighted as plain text and shown by its id
+export function findLanguage(languages: LanguageInfo[], id: string): LanguageInfo {
+  return languages.find((language) => language.id === id) ?? { ...PLAIN_TEXT, id, label: id };
+}
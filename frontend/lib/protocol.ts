@@ -0,0 +1,331 @@
+import { z } from "zod";
+import type { Shape } from "@/draw/Game";
+
+// Every message that goes over the room websocket, in both directions.
+// Kept in step with websocket-backend/src/protocol.ts
+
+// Row ids are Postgres integers, so anything past int32 can't name a row
+const MAX_ID = 2 ** 31 - 1;
+const idSchema = z.number().int().min(1).max(MAX_ID);
+
+// Room ids are strings on the wire, but older clients sent numbers
+const roomIdSchema = z
+  .union([z.string().regex(/^\d+$/), idSchema])
+  .transform(String)
+  .refine((id) => Number(id) >= 1 && Number(id) <= MAX_ID, "Invalid room id");
+
+const coordinate = z.number().finite();
+const pointSchema = z.object({ x: coordinate, y: coordinate });
+const bindingSchema = z.object({ shapeId: z.string() });
+const styleFields = {
+  id: z.string(),
+  color: z.string(),
+  lineWidth: coordinate,
+  strokeStyle: z.enum(["solid", "dashed", "dotted"]).optional(),
+  fillStyle: z.enum(["none", "solid", "hachure"]).optional(),
+  fillColor: z.string().optional(),
+  opacity: z.number().min(0).max(1).optional(),
+};
+const boxFields = { x: coordinate, y: coordinate, width: coordinate, height: coordinate };
+const lineFields = {
+  x1: coordinate,
+  y1: coordinate,
+  x2: coordinate,
+  y2: coordinate,
+  startBinding: bindingSchema.optional(),
+  endBinding: bindingSchema.optional(),
+};
+const arrowHeadSchema = z.enum(["none", "arrow", "triangle"]);
+
+// Every field a shape of each type needs to be drawn and hit-tested; anything else
+// is dropped. Erasers are never sent or stored. The server rejects shapes that don't
+// match, since one every client fails to draw would break the board for good.
+export const shapeDataSchema = z.discriminatedUnion("type", [
+  z.object({ ...styleFields, ...boxFields, type: z.literal("rect"), cornerRadius: coordinate.optional() }),
+  z.object({
+    ...styleFields,
+    type: z.literal("circle"),
+    centerX: coordinate,
+    centerY: coordinate,
+    radiusX: coordinate,
+    radiusY: coordinate,
+  }),
+  z.object({ ...styleFields, type: z.literal("pencil"), points: z.array(pointSchema).min(1) }),
+  z.object({ ...styleFields, ...lineFields, type: z.literal("line") }),
+  z.object({ ...styleFields, ...lineFields, type: z.literal("arrow"), startHead: arrowHeadSchema, endHead: arrowHeadSchema }),
+  z.object({ ...styleFields, ...boxFields, type: z.literal("diamond") }),
+  z.object({ ...styleFields, ...boxFields, type: z.literal("text"), text: z.string(), fontSize: coordinate }),
+  z.object({ ...styleFields, ...boxFields, type: z.literal("sticky"), text: z.string(), fontSize: coordinate, fill: z.string() }),
+]);
+
+// Checked against shapeDataSchema, but passed on as the Shape the rest of the app uses
+export const shapeSchema = z.custom<Shape>((value) => shapeDataSchema.safeParse(value).success);
+
+const sessionDescriptionSchema = z.object({
+  type: z.enum(["answer", "offer", "pranswer", "rollback"]),
+  sdp: z.string().optional(),
+});
+
+const iceCandidateSchema = z.object({
+  candidate: z.string().optional(),
+  sdpMid: z.string().nullish(),
+  sdpMLineIndex: z.number().nullish(),
+  usernameFragment: z.string().nullish(),
+});
+
+const participantSchema = z.object({ userId: z.string(), name: z.string() });
+
+// Yjs updates, state vectors and relative positions travel base64-encoded
+const encodedSchema = z.string().max(4_000_000);
+
+// A selection in the shared code, as Yjs relative positions so it survives concurrent edits
+const codeSelectionSchema = z.object({ anchor: encodedSchema, head: encodedSchema });
+
+// Mentions are written into a message body as <@userId>
+export const MENTION_PATTERN = /<@([\w-]+)>/g;
+
+// A spot on the board a message points at: the sender's view (center and zoom),
+// plus the shape they meant when one was selected
+export const chatAnchorSchema = z.object({
+  x: z.number().finite(),
+  y: z.number().finite(),
+  scale: z.number().positive().finite(),
+  shapeId: z.string().optional(),
+});
+
+// Names come from accounts, never from the sender. Deleted messages keep their
+// place in the list with an empty body.
+export const chatMessageSchema = z.object({
+  id: z.number(),
+  userId: z.string(),
+  name: z.string(),
+  body: z.string(),
+  createdAt: z.string(),
+  editedAt: z.string().nullable(),
+  deleted: z.boolean(),
+  parentId: z.number().nullable(),
+  anchor: chatAnchorSchema.nullable(),
+  mentions: z.array(participantSchema),
+  reactions: z.array(z.object({ emoji: z.string(), userIds: z.array(z.string()) })),
+  replyCount: z.number(),
+});
+
+const chatBodySchema = z.string().trim().min(1).max(4000);
+
+// A comment pinned to a point on the board, with its whole discussion; the first
+// reply is the comment itself
+export const commentPinSchema = z.object({
+  id: z.number(),
+  x: z.number(),
+  y: z.number(),
+  userId: z.string(),
+  name: z.string(),
+  createdAt: z.string(),
+  resolvedAt: z.string().nullable(),
+  resolvedBy: participantSchema.nullable(),
+  replies: z.array(
+    z.object({ id: z.number(), userId: z.string(), name: z.string(), body: z.string(), createdAt: z.string() })
+  ),
+});
+
+export const runOutputChunkSchema = z.object({ stream: z.enum(["stdout", "stderr"]), text: z.string() });
+
+// One press of "Run Code", shared by the whole room. Output arrives in pieces while
+// it runs and is only carried in full once the run is over.
+export const codeRunSchema = z.object({
+  id: z.number(),
+  userId: z.string(),
+  name: z.string(),
+  language: z.string(),
+  entry: z.string(),
+  stdin: z.string(),
+  status: z.enum(["queued", "running", "finished", "failed"]),
+  exit: z
+    .object({
+      stage: z.enum(["compile", "run"]),
+      code: z.number().nullable(),
+      signal: z.string().nullable(),
+      timedOut: z.boolean(),
+      durationMs: z.number(),
+    })
+    .nullable(),
+  error: z.string().nullable(),
+  output: z.array(runOutputChunkSchema),
+  createdAt: z.string(),
+});
+
+const interviewTestSchema = z.object({
+  // Fed to the program on stdin
+  input: z.string().max(100_000),
+  expectedOutput: z.string().max(100_000),
+  hidden: z.boolean(),
+});
+
+// What the interviewer saves; the tests are replaced as a whole each time
+export const interviewProblemInputSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+  description: z.string().max(20_000),
+  tests: z.array(interviewTestSchema).max(50),
+});
+
+// The room's interview problem as the recipient may see it: candidates get only the
+// visible tests, and are told how many more there are
+export const interviewProblemSchema = z.object({
+  title: z.string(),
+  description: z.string(),
+  tests: z.array(interviewTestSchema.extend({ id: z.number() })),
+  hiddenTestCount: z.number(),
+  updatedAt: z.string(),
+});
+
+export const interviewResultSchema = z.object({
+  testId: z.number(),
+  hidden: z.boolean(),
+  input: z.string(),
+  expectedOutput: z.string(),
+  status: z.enum(["pending", "passed", "failed", "timeout", "error"]),
+  output: z.string(),
+  stderr: z.string(),
+  durationMs: z.number().nullable(),
+  error: z.string().nullable(),
+});
+
+// One judging of the project against every test, kept with the code it judged. Only
+// the interviewer gets these.
+export const interviewReportSchema = z.object({
+  id: z.number(),
+  userId: z.string(),
+  name: z.string(),
+  title: z.string(),
+  language: z.string(),
+  entry: z.string(),
+  files: z.array(z.object({ path: z.string(), content: z.string() })),
+  status: z.enum(["running", "finished", "failed"]),
+  results: z.array(interviewResultSchema),
+  error: z.string().nullable(),
+  createdAt: z.string(),
+  finishedAt: z.string().nullable(),
+});
+
+export const REACTION_EMOJIS = ["👍", "❤️", "😂", "🎉", "👀", "🚀"] as const;
+
+export const clientMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("join_room"), roomId: roomIdSchema }),
+  z.object({ type: z.literal("leave_room"), roomId: roomIdSchema }),
+  z.object({ type: z.literal("presence_request"), roomId: roomIdSchema }),
+  z.object({ type: z.literal("cursor"), roomId: roomIdSchema, x: z.number(), y: z.number() }),
+  z.object({ type: z.literal("offer"), roomId: roomIdSchema, offer: sessionDescriptionSchema }),
+  z.object({ type: z.literal("answer"), roomId: roomIdSchema, answer: sessionDescriptionSchema }),
+  z.object({ type: z.literal("ice-candidate"), roomId: roomIdSchema, candidate: iceCandidateSchema }),
+  // Sends what the client has; the server answers with what it's missing
+  z.object({ type: z.literal("code_sync"), roomId: roomIdSchema, stateVector: encodedSchema }),
+  z.object({ type: z.literal("code_update"), roomId: roomIdSchema, update: encodedSchema }),
+  z.object({ type: z.literal("code_cursor"), roomId: roomIdSchema, selection: codeSelectionSchema.nullable() }),
+  // Runs the room's project as it is on the server, starting from one of its files
+  z.object({
+    type: z.literal("code_run"),
+    roomId: roomIdSchema,
+    fileId: z.string().max(100),
+    stdin: z.string().max(100_000),
+  }),
+  // Interviewer only: sets the problem, takes it away, or judges the project from one of its files
+  z.object({ type: z.literal("interview_save"), roomId: roomIdSchema, problem: interviewProblemInputSchema }),
+  z.object({ type: z.literal("interview_delete"), roomId: roomIdSchema }),
+  z.object({ type: z.literal("interview_judge"), roomId: roomIdSchema, fileId: z.string().max(100) }),
+  z.object({
+    type: z.literal("messages"),
+    roomId: roomIdSchema,
+    msg: chatBodySchema,
+    parentId: idSchema.optional(),
+    anchor: chatAnchorSchema.optional(),
+  }),
+  z.object({ type: z.literal("chat_edit"), roomId: roomIdSchema, messageId: idSchema, msg: chatBodySchema }),
+  z.object({ type: z.literal("chat_delete"), roomId: roomIdSchema, messageId: idSchema }),
+  z.object({
+    type: z.literal("chat_react"),
+    roomId: roomIdSchema,
+    messageId: idSchema,
+    emoji: z.enum(REACTION_EMOJIS),
+    active: z.boolean(),
+  }),
+  z.object({
+    type: z.literal("comment_create"),
+    roomId: roomIdSchema,
+    x: z.number().finite(),
+    y: z.number().finite(),
+    body: chatBodySchema,
+  }),
+  z.object({ type: z.literal("comment_reply"), roomId: roomIdSchema, pinId: idSchema, body: chatBodySchema }),
+  z.object({ type: z.literal("comment_resolve"), roomId: roomIdSchema, pinId: idSchema, resolved: z.boolean() }),
+  z.object({ type: z.literal("clear_canvas"), roomId: roomIdSchema }),
+  z.object({ type: z.literal("restore_clear"), roomId: roomIdSchema, clearId: idSchema }),
+  z.object({ type: z.literal("restore_version"), roomId: roomIdSchema, versionId: idSchema }),
+  z.object({ type: z.literal("shape_add"), roomId: roomIdSchema, shapes: z.array(shapeSchema) }),
+  z.object({ type: z.literal("shape_update"), roomId: roomIdSchema, shapes: z.array(shapeSchema) }),
+  z.object({ type: z.literal("shape_delete"), roomId: roomIdSchema, ids: z.array(z.string()) }),
+]);
+
+export const serverMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("joined"), roomId: z.string() }),
+  z.object({ type: z.literal("access_denied"), roomId: z.string(), action: z.enum(["join", "edit"]), msg: z.string() }),
+  z.object({ type: z.literal("presence"), roomId: z.string(), users: z.array(participantSchema) }),
+  z.object({ type: z.literal("cursor"), roomId: z.string(), userId: z.string(), name: z.string(), x: z.number(), y: z.number() }),
+  z.object({ type: z.literal("offer"), roomId: z.string(), offer: sessionDescriptionSchema }),
+  z.object({ type: z.literal("answer"), roomId: z.string(), answer: sessionDescriptionSchema }),
+  z.object({ type: z.literal("ice-candidate"), roomId: z.string(), candidate: iceCandidateSchema }),
+  // The updates the client lacks, plus the server's state vector so it can send back what the server lacks
+  z.object({ type: z.literal("code_sync"), roomId: z.string(), update: encodedSchema, stateVector: encodedSchema }),
+  z.object({ type: z.literal("code_update"), roomId: z.string(), update: encodedSchema }),
+  z.object({
+    type: z.literal("code_cursor"),
+    roomId: z.string(),
+    userId: z.string(),
+    name: z.string(),
+    selection: codeSelectionSchema.nullable(),
+  }),
+  // A run was queued, started or ended
+  z.object({ type: z.literal("code_run_updated"), roomId: z.string(), run: codeRunSchema }),
+  z.object({
+    type: z.literal("code_run_output"),
+    roomId: z.string(),
+    runId: z.number(),
+    stream: runOutputChunkSchema.shape.stream,
+    data: z.string(),
+  }),
+  // Sent to each connection as its role may see it; null once there's no problem
+  z.object({ type: z.literal("interview_updated"), roomId: z.string(), problem: interviewProblemSchema.nullable() }),
+  // A judging started, finished a test or ended; only sent to the interviewer
+  z.object({ type: z.literal("interview_report_updated"), roomId: z.string(), report: interviewReportSchema }),
+  z.object({ type: z.literal("messages"), roomId: z.string(), message: chatMessageSchema }),
+  // An edit, delete or reaction; carries the whole message as it now is
+  z.object({ type: z.literal("chat_updated"), roomId: z.string(), message: chatMessageSchema }),
+  // A new comment, a reply or a change of resolved state; carries the whole pin
+  z.object({ type: z.literal("comment_updated"), roomId: z.string(), pin: commentPinSchema }),
+  z.object({
+    type: z.literal("canvas_cleared"),
+    roomId: z.string(),
+    clearId: z.number().nullable(),
+    userId: z.string(),
+    name: z.string(),
+  }),
+  z.object({ type: z.literal("restore_failed"), roomId: z.string(), clearId: z.number(), msg: z.string() }),
+  z.object({ type: z.literal("version_restore_failed"), roomId: z.string(), versionId: z.number(), msg: z.string() }),
+  z.object({ type: z.literal("shape_add"), roomId: z.string(), shapes: z.array(shapeSchema) }),
+  z.object({ type: z.literal("shape_update"), roomId: z.string(), shapes: z.array(shapeSchema) }),
+  z.object({ type: z.literal("shape_delete"), roomId: z.string(), ids: z.array(z.string()) }),
+  // A message the server couldn't read or didn't understand
+  z.object({ type: z.literal("error"), msg: z.string() }),
+]);
+
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
+export type ServerMessage = z.infer<typeof serverMessageSchema>;
+export type ChatMessage = z.infer<typeof chatMessageSchema>;
+export type ChatAnchor = z.infer<typeof chatAnchorSchema>;
+export type CommentPin = z.infer<typeof commentPinSchema>;
+export type CodeRun = z.infer<typeof codeRunSchema>;
+export type RunOutputChunk = z.infer<typeof runOutputChunkSchema>;
+export type InterviewProblemInput = z.infer<typeof interviewProblemInputSchema>;
+export type InterviewProblem = z.infer<typeof interviewProblemSchema>;
+export type InterviewResult = z.infer<typeof interviewResultSchema>;
+export type InterviewReport = z.infer<typeof interviewReportSchema>;
+export type ReactionEmoji = (typeof REACTION_EMOJIS)[number];
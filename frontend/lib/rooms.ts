@@ -0,0 +1,87 @@
+import { HTTP_Backend } from "@/config";
+import axios from "axios";
+import { authHeaders } from "./auth";
+import type { Shape } from "@/draw/Game";
+
+export type RoomRole = "owner" | "editor" | "viewer";
+export type RoomVisibility = "public" | "private";
+
+export interface RoomAccess {
+  role: RoomRole;
+  visibility: RoomVisibility;
+}
+
+export interface RoomMember {
+  userId: string;
+  name: string;
+  role: RoomRole;
+}
+
+export async function getRoomAccess(roomId: string): Promise<RoomAccess> {
+  const res = await axios.get(`${HTTP_Backend}/rooms/${roomId}/access`, { headers: authHeaders() });
+  return res.data;
+}
+
+export async function setRoomVisibility(roomId: string, visibility: RoomVisibility): Promise<void> {
+  await axios.patch(`${HTTP_Backend}/rooms/${roomId}`, { visibility }, { headers: authHeaders() });
+}
+
+export async function getRoomMembers(roomId: string): Promise<RoomMember[]> {
+  const res = await axios.get(`${HTTP_Backend}/rooms/${roomId}/members`, { headers: authHeaders() });
+  return res.data.members;
+}
+
+export async function setMemberRole(roomId: string, userId: string, role: Exclude<RoomRole, "owner">): Promise<void> {
+  await axios.patch(`${HTTP_Backend}/rooms/${roomId}/members/${userId}`, { role }, { headers: authHeaders() });
+}
+
+export async function removeMember(roomId: string, userId: string): Promise<void> {
+  await axios.delete(`${HTTP_Backend}/rooms/${roomId}/members/${userId}`, { headers: authHeaders() });
+}
+
+// Returns a link to the invite page, which redeems the signed token after sign-in
+export async function createInviteLink(roomId: string, role: Exclude<RoomRole, "owner">): Promise<string> {
+  const res = await axios.post(`${HTTP_Backend}/rooms/${roomId}/invites`, { role }, { headers: authHeaders() });
+  return `${window.location.origin}/invite/${res.data.token}`;
+}
+
+export async function acceptInvite(token: string): Promise<string> {
+  const res = await axios.post(`${HTTP_Backend}/invites/accept`, { token }, { headers: authHeaders() });
+  return String(res.data.roomId);
+}
+
+export interface RecentClear {
+  id: number;
+  createdAt: string;
+  name: string;
+  shapeCount: number;
+}
+
+export async function getRecentClears(roomId: string): Promise<RecentClear[]> {
+  const res = await axios.get(`${HTTP_Backend}/rooms/${roomId}/clears`, { headers: authHeaders() });
+  return res.data.clears;
+}
+
+export interface BoardVersionSummary {
+  id: number;
+  name: string | null;
+  automatic: boolean;
+  createdAt: string;
+  author: string;
+  shapeCount: number;
+}
+
+export async function getBoardVersions(roomId: string): Promise<BoardVersionSummary[]> {
+  const res = await axios.get(`${HTTP_Backend}/rooms/${roomId}/versions`, { headers: authHeaders() });
+  return res.data.versions;
+}
+
+export async function getBoardVersionShapes(roomId: string, versionId: number): Promise<Shape[]> {
+  const res = await axios.get(`${HTTP_Backend}/rooms/${roomId}/versions/${versionId}`, { headers: authHeaders() });
+  return res.data.shapes;
+}
+
+export async function saveBoardVersion(roomId: string, name: string): Promise<BoardVersionSummary> {
+  const res = await axios.post(`${HTTP_Backend}/rooms/${roomId}/versions`, { name }, { headers: authHeaders() });
+  return res.data.version;
+}
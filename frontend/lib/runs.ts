@@ -0,0 +1,45 @@
+import { HTTP_Backend } from "@/config";
+import axios from "axios";
+import { authHeaders } from "./auth";
+import { CodeRun, RunOutputChunk } from "./protocol";
+
+// How many past runs a room shows; http-backend sends the same number
+export const RUN_HISTORY_SIZE = 20;
+
+// Newest first
+export async function getCodeRuns(roomId: string): Promise<CodeRun[]> {
+  const res = await axios.get(`${HTTP_Backend}/rooms/${roomId}/runs`, { headers: authHeaders() });
+  return res.data.runs;
+}
+
+// Runs still in progress arrive without output, so what has streamed in so far is kept
+export function upsertCodeRun(runs: CodeRun[], run: CodeRun): CodeRun[] {
+  const existing = runs.find((r) => r.id === run.id);
+  if (!existing) return [run, ...runs].sort((a, b) => b.id - a.id).slice(0, RUN_HISTORY_SIZE);
+  const output = run.status === "queued" || run.status === "running" ? existing.output : run.output;
+  return runs.map((r) => (r.id === run.id ? { ...run, output } : r));
+}
+
+export function appendRunOutput(runs: CodeRun[], runId: number, chunk: RunOutputChunk): CodeRun[] {
+  return runs.map((run) => {
+    if (run.id !== runId) return run;
+    const last = run.output[run.output.length - 1];
+    const output =
+      last?.stream === chunk.stream
+        ? [...run.output.slice(0, -1), { ...last, text: last.text + chunk.text }]
+        : [...run.output, chunk];
+    return { ...run, output };
+  });
+}
+
+export function describeRun(run: CodeRun): string {
+  if (run.status === "queued") return "Queued";
+  if (run.status === "running") return "Running…";
+  if (!run.exit) return run.error ?? "Failed";
+
+  const seconds = (run.exit.durationMs / 1000).toFixed(2);
+  if (run.exit.timedOut) return `Timed out after ${seconds}s`;
+  if (run.exit.stage === "compile") return "Compilation failed";
+  if (run.exit.signal) return `Killed (${run.exit.signal}) after ${seconds}s`;
+  return `Exited with code ${run.exit.code} in ${seconds}s`;
+}
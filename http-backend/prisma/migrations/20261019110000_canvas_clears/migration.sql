@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "CanvasClear" (
+    "id" SERIAL NOT NULL,
+    "roomId" INTEGER NOT NULL,
+    "userId" TEXT NOT NULL,
+    "shapes" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "restoredAt" TIMESTAMP(3),
+
+    CONSTRAINT "CanvasClear_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CanvasClear_roomId_createdAt_idx" ON "CanvasClear"("roomId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "CanvasClear" ADD CONSTRAINT "CanvasClear_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CanvasClear" ADD CONSTRAINT "CanvasClear_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
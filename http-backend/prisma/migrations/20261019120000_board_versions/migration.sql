@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "BoardVersion" (
+    "id" SERIAL NOT NULL,
+    "roomId" INTEGER NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT,
+    "automatic" BOOLEAN NOT NULL DEFAULT false,
+    "shapes" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BoardVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BoardVersion_roomId_createdAt_idx" ON "BoardVersion"("roomId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "BoardVersion" ADD CONSTRAINT "BoardVersion_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "BoardVersion" ADD CONSTRAINT "BoardVersion_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
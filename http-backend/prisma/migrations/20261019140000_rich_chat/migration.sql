@@ -0,0 +1,30 @@
+-- DropIndex
+DROP INDEX "ChatMessage_roomId_id_idx";
+
+-- AlterTable
+ALTER TABLE "ChatMessage" ADD COLUMN     "deletedAt" TIMESTAMP(3),
+ADD COLUMN     "editedAt" TIMESTAMP(3),
+ADD COLUMN     "mentions" TEXT[],
+ADD COLUMN     "parentId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "ChatReaction" (
+    "messageId" INTEGER NOT NULL,
+    "userId" TEXT NOT NULL,
+    "emoji" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ChatReaction_pkey" PRIMARY KEY ("messageId","userId","emoji")
+);
+
+-- CreateIndex
+CREATE INDEX "ChatMessage_roomId_parentId_id_idx" ON "ChatMessage"("roomId", "parentId", "id");
+
+-- AddForeignKey
+ALTER TABLE "ChatMessage" ADD CONSTRAINT "ChatMessage_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "ChatMessage"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ChatReaction" ADD CONSTRAINT "ChatReaction_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "ChatMessage"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ChatReaction" ADD CONSTRAINT "ChatReaction_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "CodeRun" (
+    "id" SERIAL NOT NULL,
+    "roomId" INTEGER NOT NULL,
+    "userId" TEXT NOT NULL,
+    "language" TEXT NOT NULL,
+    "stdin" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "exit" JSONB,
+    "error" TEXT,
+    "output" JSONB NOT NULL DEFAULT '[]',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "CodeRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CodeRun_roomId_id_idx" ON "CodeRun"("roomId", "id");
+
+-- AddForeignKey
+ALTER TABLE "CodeRun" ADD CONSTRAINT "CodeRun_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CodeRun" ADD CONSTRAINT "CodeRun_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "CodeRun" ADD COLUMN     "entry" TEXT NOT NULL DEFAULT '';
@@ -0,0 +1,57 @@
+-- CreateTable
+CREATE TABLE "InterviewProblem" (
+    "roomId" INTEGER NOT NULL,
+    "title" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "InterviewProblem_pkey" PRIMARY KEY ("roomId")
+);
+
+-- CreateTable
+CREATE TABLE "InterviewTest" (
+    "id" SERIAL NOT NULL,
+    "roomId" INTEGER NOT NULL,
+    "position" INTEGER NOT NULL,
+    "input" TEXT NOT NULL,
+    "expectedOutput" TEXT NOT NULL,
+    "hidden" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "InterviewTest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "InterviewReport" (
+    "id" SERIAL NOT NULL,
+    "roomId" INTEGER NOT NULL,
+    "userId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "language" TEXT NOT NULL,
+    "entry" TEXT NOT NULL,
+    "files" JSONB NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "results" JSONB NOT NULL DEFAULT '[]',
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "InterviewReport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "InterviewTest_roomId_position_idx" ON "InterviewTest"("roomId", "position");
+
+-- CreateIndex
+CREATE INDEX "InterviewReport_roomId_id_idx" ON "InterviewReport"("roomId", "id");
+
+-- AddForeignKey
+ALTER TABLE "InterviewProblem" ADD CONSTRAINT "InterviewProblem_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InterviewTest" ADD CONSTRAINT "InterviewTest_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "InterviewProblem"("roomId") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InterviewReport" ADD CONSTRAINT "InterviewReport_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InterviewReport" ADD CONSTRAINT "InterviewReport_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
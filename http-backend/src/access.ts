@@ -0,0 +1,68 @@
+import type { RoomRole } from "@prisma/client";
+import { NextFunction, Request, Response } from "express";
+import { prismaClient } from "./db";
+
+const ROLE_RANK: Record<RoomRole, number> = {
+    viewer: 1,
+    editor: 2,
+    owner: 3
+};
+
+export const MAX_ID = 2 ** 31 - 1;
+
+// Ids in routes are Postgres ints; anything else is rejected before it reaches a query
+export function parseId(value: unknown): number | null {
+    const id = typeof value === "string" && /^\d+$/.test(value) ? Number(value) : NaN;
+    return Number.isSafeInteger(id) && id > 0 && id <= MAX_ID ? id : null;
+}
+
+export function hasRole(role: RoomRole | null, required: RoomRole): boolean {
+    return role !== null && ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+// Members keep their stored role; anyone else can edit a public room and has
+// no access at all to a private one.
+export async function getRoomRole(roomId: number, userId: string): Promise<RoomRole | null> {
+    if (!Number.isInteger(roomId) || roomId <= 0 || roomId > MAX_ID) return null;
+
+    const room = await prismaClient.room.findUnique({
+        where: { id: roomId },
+        select: {
+            adminId: true,
+            visibility: true,
+            members: { where: { userId }, select: { role: true } }
+        }
+    });
+    if (!room) return null;
+
+    if (room.adminId === userId) return "owner";
+    if (room.members[0]) return room.members[0].role;
+    return room.visibility === "public" ? "editor" : null;
+}
+
+// Rejects the request unless the signed-in user has at least `required` in the
+// room named by the :roomId route parameter. Must run after `middleware`.
+export function requireRoomRole(required: RoomRole) {
+    return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        const roomId = parseId(req.params.roomId);
+        if (roomId === null) {
+            res.status(400).json({ msg: "Invalid room id" });
+            return;
+        }
+
+        // Express 4 doesn't see rejected promises, so errors are handed on explicitly
+        let role: RoomRole | null;
+        try {
+            role = await getRoomRole(roomId, req.userId!);
+        } catch (e) {
+            next(e);
+            return;
+        }
+        if (!hasRole(role, required)) {
+            res.status(403).json({ msg: "You don't have access to this room" });
+            return;
+        }
+        req.roomRole = role;
+        next();
+    };
+}
@@ -0,0 +1,59 @@
+import type { Prisma } from "@prisma/client";
+import { z } from "zod";
+import { prismaClient } from "./db";
+
+// The relations every DevTalk message is sent with. Kept in step with websocket-backend/src/chat.ts
+export const chatMessageInclude = {
+    user: { select: { name: true } },
+    reactions: { select: { emoji: true, userId: true }, orderBy: { createdAt: "asc" } },
+    _count: { select: { replies: true } }
+} satisfies Prisma.ChatMessageInclude;
+
+// Mirrors chatAnchorSchema in websocket-backend/src/protocol.ts
+const ChatAnchorSchema = z.object({
+    x: z.number(),
+    y: z.number(),
+    scale: z.number().positive(),
+    shapeId: z.string().optional()
+});
+
+type ChatMessageRow = Prisma.ChatMessageGetPayload<{ include: typeof chatMessageInclude }>;
+
+// Same shape as the websocket server sends, with mention names looked up in one query per page
+export async function serializeChatMessages(rows: ChatMessageRow[]) {
+    const mentionIds = [...new Set(rows.flatMap((row) => row.deletedAt ? [] : row.mentions))];
+    const mentioned = mentionIds.length === 0
+        ? []
+        : await prismaClient.user.findMany({
+            where: { id: { in: mentionIds } },
+            select: { id: true, name: true }
+        });
+    const names = new Map(mentioned.map((user) => [user.id, user.name]));
+
+    return rows.map((row) => {
+        const reactions = new Map<string, string[]>();
+        row.reactions.forEach(({ emoji, userId }) => {
+            reactions.set(emoji, [...(reactions.get(emoji) ?? []), userId]);
+        });
+
+        return {
+            id: row.id,
+            userId: row.userId,
+            name: row.user.name,
+            body: row.deletedAt ? "" : row.body,
+            createdAt: row.createdAt.toISOString(),
+            editedAt: row.editedAt?.toISOString() ?? null,
+            deleted: !!row.deletedAt,
+            parentId: row.parentId,
+            anchor: row.deletedAt ? null : ChatAnchorSchema.safeParse(row.anchor).data ?? null,
+            mentions: row.deletedAt
+                ? []
+                : row.mentions.flatMap((userId) => {
+                    const name = names.get(userId);
+                    return name === undefined ? [] : [{ userId, name }];
+                }),
+            reactions: [...reactions].map(([emoji, userIds]) => ({ emoji, userIds })),
+            replyCount: row._count.replies
+        };
+    });
+}
@@ -0,0 +1,30 @@
+import type { Prisma } from "@prisma/client";
+
+// Everything a pin is sent with. Kept in step with websocket-backend/src/comments.ts
+export const commentPinInclude = {
+    user: { select: { name: true } },
+    resolvedBy: { select: { id: true, name: true } },
+    replies: { include: { user: { select: { name: true } } }, orderBy: { id: "asc" } }
+} satisfies Prisma.CommentPinInclude;
+
+type CommentPinRow = Prisma.CommentPinGetPayload<{ include: typeof commentPinInclude }>;
+
+export function serializeCommentPin(row: CommentPinRow) {
+    return {
+        id: row.id,
+        x: row.x,
+        y: row.y,
+        userId: row.userId,
+        name: row.user.name,
+        createdAt: row.createdAt.toISOString(),
+        resolvedAt: row.resolvedAt?.toISOString() ?? null,
+        resolvedBy: row.resolvedBy && { userId: row.resolvedBy.id, name: row.resolvedBy.name },
+        replies: row.replies.map((reply) => ({
+            id: reply.id,
+            userId: reply.userId,
+            name: reply.user.name,
+            body: reply.body,
+            createdAt: reply.createdAt.toISOString()
+        }))
+    };
+}
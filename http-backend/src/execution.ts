@@ -0,0 +1,225 @@
+import { spawn } from "child_process";
+import { mkdir, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { Language } from "./languages";
+import dotenv from 'dotenv';
+dotenv.config({ path: './config.env' });
+
+function numberFromEnv(name: string, fallback: number): number {
+    const value = Number(process.env[name]);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// Every run gets these limits; each can be changed in config.env
+const limits = {
+    wallTimeMs: numberFromEnv("EXECUTION_TIME_LIMIT_MS", 10_000),
+    cpuSeconds: numberFromEnv("EXECUTION_CPU_LIMIT_SECONDS", 5),
+    memoryMb: numberFromEnv("EXECUTION_MEMORY_LIMIT_MB", 256),
+    outputBytes: numberFromEnv("EXECUTION_OUTPUT_LIMIT_BYTES", 64 * 1024),
+    compileTimeMs: numberFromEnv("EXECUTION_COMPILE_TIME_LIMIT_MS", 20_000),
+    // Counted across every process of the user programs run as, threads included
+    processes: numberFromEnv("EXECUTION_PROCESS_LIMIT", 128),
+    concurrentRuns: numberFromEnv("EXECUTION_MAX_CONCURRENT_RUNS", 2)
+};
+
+// Isolation wrapped around every compiler and program, e.g. a bwrap or nsjail
+// invocation; {dir} becomes the run's directory. Without one nothing is run, since
+// programs would otherwise see everything the server can.
+const sandboxPrefix = (process.env.EXECUTION_SANDBOX_COMMAND ?? "").split(/\s+/).filter(Boolean);
+
+export function isExecutionSandboxed(): boolean {
+    return sandboxPrefix.length > 0;
+}
+
+export interface ProjectFile {
+    path: string;
+    content: string;
+}
+
+// Relative paths of plain names only, so nothing is written outside the run's directory
+export function isSafeProjectPath(filePath: string): boolean {
+    return filePath.split("/").every((segment) => /^[\w\- .]+$/.test(segment) && segment !== "." && segment !== "..");
+}
+
+export type ExecutionEvent =
+    | { type: "stdout" | "stderr"; data: string }
+    | {
+        type: "exit";
+        stage: "compile" | "run";
+        code: number | null;
+        signal: string | null;
+        timedOut: boolean;
+        durationMs: number;
+    };
+
+interface ProcessOptions {
+    cwd: string;
+    stdin: string;
+    timeMs: number;
+    compiling: boolean;
+    addressSpaceMb: number | null;
+    env: Record<string, string>;
+    signal?: AbortSignal;
+}
+
+// Where toolchains installed per user, like rustup's, find themselves once HOME has moved
+const TOOLCHAIN_VARIABLES = ["RUSTUP_HOME", "CARGO_HOME", "GOROOT", "JAVA_HOME", "PYENV_ROOT", "RBENV_ROOT"];
+
+function toolchainEnv(): Record<string, string> {
+    return Object.fromEntries(
+        TOOLCHAIN_VARIABLES.flatMap((name) => (process.env[name] ? [[name, process.env[name]!]] : []))
+    );
+}
+
+let activeRuns = 0;
+
+export function isExecutionBusy(): boolean {
+    return activeRuns >= limits.concurrentRuns;
+}
+
+// Limits are set with ulimit in a shell that then execs the program, so they
+// apply to it and anything it spawns
+function limitedCommand(argv: string[], options: ProcessOptions): string[] {
+    // Compilers get their time limit's worth of CPU and can write caches, which for
+    // Go can be far larger than anything a program should write
+    const cpuSeconds = options.compiling ? Math.ceil(options.timeMs / 1000) : limits.cpuSeconds;
+    const ulimits = [
+        `ulimit -t ${cpuSeconds}`,
+        // bash calls the process limit -u and dash -p
+        `{ ulimit -u ${limits.processes} 2>/dev/null || ulimit -p ${limits.processes}; }`,
+        "ulimit -n 256",
+        // Caps files the program writes, at 10-20 MB depending on the shell's block size
+        ...(options.compiling ? [] : ["ulimit -f 20480"]),
+        ...(options.addressSpaceMb === null ? [] : [`ulimit -v ${options.addressSpaceMb * 1024}`])
+    ];
+    const script = `${ulimits.join(" && ")} && exec "$@"`;
+    const sandbox = sandboxPrefix.map((arg) => arg.replace(/\{dir\}/g, options.cwd));
+    return [...sandbox, "sh", "-c", script, "sandbox", ...argv];
+}
+
+function runProcess(argv: string[], options: ProcessOptions, onEvent: (event: ExecutionEvent) => void) {
+    return new Promise<{ code: number | null; signal: string | null; timedOut: boolean; durationMs: number }>((resolve, reject) => {
+        const [command, ...args] = limitedCommand(argv, options);
+        const startedAt = Date.now();
+        const child = spawn(command, args, {
+            cwd: options.cwd,
+            // Nothing from our environment, like DATABASE_URL or JWT_SECRET, leaks in.
+            // Temporary files go in the run's directory too, so they're removed with it
+            // and the next run, maybe judging hidden tests, can't find them.
+            env: {
+                ...toolchainEnv(),
+                ...options.env,
+                PATH: process.env.PATH ?? "/usr/bin:/bin",
+                HOME: options.cwd,
+                TMPDIR: options.cwd,
+                LANG: "C.UTF-8"
+            },
+            // Its own process group, so the whole tree can be killed at once. Anything
+            // that starts its own session leaves the group, which is why the sandbox
+            // needs its own PID namespace: everything in it dies with the program.
+            detached: true,
+            stdio: ["pipe", "pipe", "pipe"]
+        });
+
+        let timedOut = false;
+        let outputBytes = 0;
+        const kill = () => {
+            if (child.pid && child.exitCode === null) {
+                try {
+                    process.kill(-child.pid, "SIGKILL");
+                } catch {
+                    // Already gone
+                }
+            }
+        };
+        const timer = setTimeout(() => {
+            timedOut = true;
+            kill();
+        }, options.timeMs);
+        options.signal?.addEventListener("abort", kill);
+
+        const forward = (type: "stdout" | "stderr") => (chunk: Buffer) => {
+            if (outputBytes >= limits.outputBytes) return;
+            outputBytes += chunk.length;
+            onEvent({ type, data: chunk.toString("utf8") });
+            if (outputBytes >= limits.outputBytes) {
+                onEvent({ type: "stderr", data: "\n[output limit reached, program stopped]\n" });
+                kill();
+            }
+        };
+        child.stdout.on("data", forward("stdout"));
+        child.stderr.on("data", forward("stderr"));
+        // The program may exit without reading its input
+        child.stdin.on("error", () => {});
+        child.stdin.end(options.stdin);
+
+        child.on("error", (e) => {
+            clearTimeout(timer);
+            reject(e);
+        });
+        child.on("close", (code, signal) => {
+            clearTimeout(timer);
+            options.signal?.removeEventListener("abort", kill);
+            resolve({ code, signal, timedOut, durationMs: Date.now() - startedAt });
+        });
+    });
+}
+
+// Writes the project to a fresh temporary directory, compiles it if the language
+// needs it and runs the entry file, reporting output as it arrives and ending with
+// an exit event
+export async function execute(
+    language: Language,
+    files: ProjectFile[],
+    entry: string,
+    stdin: string,
+    onEvent: (event: ExecutionEvent) => void,
+    signal?: AbortSignal
+) {
+    activeRuns++;
+    let dir: string | null = null;
+    try {
+        // Created readable by its owner only
+        dir = await mkdtemp(path.join(tmpdir(), "run-"));
+        for (const file of files) {
+            const target = path.join(dir, file.path);
+            await mkdir(path.dirname(target), { recursive: true });
+            await writeFile(target, file.content);
+        }
+
+        if (language.compile) {
+            // Compilers need more memory than programs get, but are sandboxed all the
+            // same since project files can make them read any path they're given
+            const result = await runProcess(language.compile(files.map((file) => file.path), entry), {
+                cwd: dir,
+                stdin: "",
+                timeMs: limits.compileTimeMs,
+                compiling: true,
+                addressSpaceMb: null,
+                env: {},
+                signal
+            }, onEvent);
+            if (result.code !== 0) {
+                onEvent({ type: "exit", stage: "compile", ...result });
+                return;
+            }
+        }
+
+        const context = { memoryMb: limits.memoryMb };
+        const overheadMb = language.addressSpaceOverheadMb;
+        const result = await runProcess(language.run(entry, context), {
+            cwd: dir,
+            stdin,
+            timeMs: limits.wallTimeMs,
+            compiling: false,
+            addressSpaceMb: overheadMb === null ? null : limits.memoryMb + overheadMb,
+            env: language.env?.(context) ?? {},
+            signal
+        }, onEvent);
+        onEvent({ type: "exit", stage: "run", ...result });
+    } finally {
+        activeRuns--;
+        if (dir) await rm(dir, { recursive: true, force: true });
+    }
+}
@@ -1,15 +1,20 @@
 import express from "express";
 
-import pkg from "@prisma/client";
-const { PrismaClient } = pkg;
+import { prismaClient } from "./db";
 
-const prismaClient = new PrismaClient();
 
-
-import { Request, Response } from 'express';
+import { NextFunction, Request, Response } from 'express';
 import jwt from "jsonwebtoken";
 import bcrypt from "bcrypt";
-import { middleware } from "./middleware";
+import { randomUUID } from "crypto";
+import { internalOnly, middleware } from "./middleware";
+import { hasRole, MAX_ID, parseId, requireRoomRole } from "./access";
+import { chatMessageInclude, serializeChatMessages } from "./chat";
+import { commentPinInclude, serializeCommentPin } from "./comments";
+import { execute, isExecutionBusy, isExecutionSandboxed, isSafeProjectPath } from "./execution";
+import { findLanguage, getLanguageVersions, LANGUAGES } from "./languages";
+import { codeRunInclude, serializeCodeRun } from "./runs";
+import { interviewProblemInclude, interviewReportInclude, serializeInterviewProblem, serializeInterviewReport } from "./interview";
 import cors from 'cors';
 
 import { z } from "zod";
@@ -27,8 +32,43 @@ export const SigninSchema = z.object({
 
 export const CreateRoomSchema = z.object({
     name: z.string().min(3).max(20),
+    visibility: z.enum(["public", "private"]).optional(),
 })
 
+export const UpdateRoomSchema = z.object({
+    visibility: z.enum(["public", "private"]),
+})
+
+// Ownership can't be handed out through invites or role changes
+export const MemberRoleSchema = z.object({
+    role: z.enum(["editor", "viewer"]),
+})
+
+export const AcceptInviteSchema = z.object({
+    token: z.string(),
+})
+
+export const ChatHistoryQuerySchema = z.object({
+    before: z.coerce.number().int().positive().max(MAX_ID).optional(),
+    parentId: z.coerce.number().int().positive().max(MAX_ID).optional(),
+    limit: z.coerce.number().int().min(1).max(100).default(50),
+})
+
+export const SaveVersionSchema = z.object({
+    name: z.string().trim().min(1).max(60),
+})
+
+export const ExecuteSchema = z.object({
+    language: z.string(),
+    files: z.array(z.object({
+        path: z.string().min(1).max(200).refine(isSafeProjectPath),
+        content: z.string().max(100_000),
+    })).min(1).max(100),
+    // The file that is run; compiled languages build every file instead
+    entry: z.string(),
+    stdin: z.string().max(100_000).default(""),
+}).refine((data) => data.files.some((file) => file.path === data.entry))
+
 
 const app = express();
 
@@ -41,6 +81,7 @@ declare global {
     namespace Express {
       interface Request {
         userId?: string | null;
+        roomRole?: "owner" | "editor" | "viewer" | null;
       }
     }
 }
@@ -143,7 +184,11 @@ app.post('/room', middleware, async (req: Request,res: Response): Promise<void>
         const room = await prismaClient.room.create({
             data: {
                 slug: parsedData.data.name,
-                adminId: userId
+                adminId: userId,
+                visibility: parsedData.data.visibility,
+                members: {
+                    create: { userId, role: "owner" }
+                }
             }
         })
         res.status(200).json({
@@ -154,7 +199,7 @@ app.post('/room', middleware, async (req: Request,res: Response): Promise<void>
     }
 })
 
-app.get('/chats/:roomId', async (req,res) => {
+app.get('/chats/:roomId', middleware, requireRoomRole("viewer"), async (req,res) => {
     const roomId = Number(req.params.roomId);
     
     try {
@@ -176,6 +221,91 @@ app.get('/chats/:roomId', async (req,res) => {
     }
 })
 
+interface LegacyShape {
+    id?: string;
+    [key: string]: unknown;
+}
+
+// Rooms drawn before the Element store kept their scene as a log of JSON rows in Chat.
+// Replay that log once so those boards don't come back empty.
+async function importLegacyShapes(roomId: number) {
+    const rows = await prismaClient.chat.findMany({
+        where: { roomId },
+        orderBy: { id: "asc" }
+    });
+
+    const shapes = new Map<string, { shape: LegacyShape, userId: string }>();
+    const withId = (shape: LegacyShape) => ({ ...shape, id: shape.id || randomUUID() });
+
+    rows.forEach((row) => {
+        try {
+            const data = JSON.parse(row.message);
+            if (data.type === "update" && Array.isArray(data.shapes)) {
+                shapes.clear();
+                data.shapes.forEach((shape: LegacyShape) => {
+                    const s = withId(shape);
+                    shapes.set(s.id, { shape: s, userId: row.userId });
+                });
+            } else if ((data.type === "shape_add" || data.type === "shape_update") && Array.isArray(data.shapes)) {
+                data.shapes.forEach((shape: LegacyShape) => {
+                    if (shape.id && (data.type === "shape_add" || shapes.has(shape.id))) {
+                        shapes.set(shape.id, { shape, userId: row.userId });
+                    }
+                });
+            } else if (data.type === "shape_delete" && Array.isArray(data.ids)) {
+                data.ids.forEach((id: string) => shapes.delete(id));
+            } else if (data.shape) {
+                const s = withId(data.shape);
+                shapes.set(s.id, { shape: s, userId: row.userId });
+            }
+        } catch (e) {
+            // Not every Chat row is drawing data
+        }
+    });
+
+    await prismaClient.element.createMany({
+        data: [...shapes.values()].map(({ shape, userId }) => ({
+            id: shape.id as string,
+            roomId,
+            data: shape as object,
+            userId
+        })),
+        skipDuplicates: true
+    });
+}
+
+app.get('/elements/:roomId', middleware, requireRoomRole("viewer"), async (req, res) => {
+    const roomId = Number(req.params.roomId);
+
+    try {
+        const count = await prismaClient.element.count({ where: { roomId } });
+        if (count === 0) {
+            await importLegacyShapes(roomId);
+        }
+
+        const elements = await prismaClient.element.findMany({
+            where: {
+                roomId,
+                deleted: false
+            },
+            orderBy: {
+                createdAt: "asc"
+            },
+            select: {
+                id: true,
+                data: true,
+                version: true
+            }
+        });
+
+        res.json({
+            elements
+        })
+    } catch (e) {
+        res.status(411).json({msg: "Room doesn't exist"})
+    }
+})
+
 app.get('/room/:slug', async (req,res) => {
     const slug = req.params.slug;
     const room = await prismaClient.room.findFirst({
@@ -189,19 +319,491 @@ app.get('/room/:slug', async (req,res) => {
     })
 })
 
-app.post('/clear', async (req, res) => {
-    const roomId = req.body.roomId;
+// Clearing happens over the websocket so every client sees it; this lists what can still be restored
+const CLEAR_RETENTION_MS = 24 * 60 * 60 * 1000;
 
-    const room = await prismaClient.chat.deleteMany({
-        where: {
-            roomId
+app.get('/rooms/:roomId/clears', middleware, requireRoomRole("editor"), async (req, res, next) => {
+    try {
+        const clears = await prismaClient.canvasClear.findMany({
+            where: {
+                roomId: Number(req.params.roomId),
+                restoredAt: null,
+                createdAt: { gt: new Date(Date.now() - CLEAR_RETENTION_MS) }
+            },
+            orderBy: { createdAt: "desc" },
+            select: {
+                id: true,
+                createdAt: true,
+                shapeCount: true,
+                user: { select: { name: true } }
+            }
+        });
+
+        res.json({
+            clears: clears.map(({ id, createdAt, shapeCount, user }) => ({
+                id,
+                createdAt,
+                name: user.name,
+                shapeCount
+            }))
+        })
+    } catch (e) {
+        next(e);
+    }
+})
+
+// Pages backwards through DevTalk history: each page holds the messages right before
+// `before`, oldest first, so the panel can prepend it while scrolling up. Without a
+// parentId it lists the room's top-level messages, with one the replies in that thread.
+app.get('/rooms/:roomId/messages', middleware, requireRoomRole("viewer"), async (req, res, next) => {
+    const parsedQuery = ChatHistoryQuerySchema.safeParse(req.query);
+    if (!parsedQuery.success) {
+        res.status(400).json({ msg: "Incorrect Inputs" });
+        return;
+    }
+
+    const { before, parentId, limit } = parsedQuery.data;
+    try {
+        const rows = await prismaClient.chatMessage.findMany({
+            where: {
+                roomId: Number(req.params.roomId),
+                parentId: parentId ?? null,
+                ...(before ? { id: { lt: before } } : {})
+            },
+            orderBy: { id: "desc" },
+            take: limit + 1,
+            include: chatMessageInclude
+        });
+
+        res.json({
+            messages: await serializeChatMessages(rows.slice(0, limit).reverse()),
+            hasMore: rows.length > limit
+        })
+    } catch (e) {
+        next(e);
+    }
+})
+
+// Who can be @mentioned: the room's members and anyone who has chatted in it
+app.get('/rooms/:roomId/people', middleware, requireRoomRole("viewer"), async (req, res, next) => {
+    try {
+        const roomId = Number(req.params.roomId);
+        const people = await prismaClient.user.findMany({
+            where: {
+                OR: [
+                    { memberships: { some: { roomId } } },
+                    { chatMessages: { some: { roomId } } }
+                ]
+            },
+            select: { id: true, name: true },
+            orderBy: { name: "asc" }
+        });
+
+        res.json({
+            people: people.map(({ id, name }) => ({ userId: id, name }))
+        })
+    } catch (e) {
+        next(e);
+    }
+})
+
+// Every pin in the room, resolved ones included; the client decides what to show
+app.get('/rooms/:roomId/comments', middleware, requireRoomRole("viewer"), async (req, res, next) => {
+    try {
+        const pins = await prismaClient.commentPin.findMany({
+            where: { roomId: Number(req.params.roomId) },
+            orderBy: { id: "asc" },
+            include: commentPinInclude
+        });
+
+        res.json({
+            pins: pins.map(serializeCommentPin)
+        })
+    } catch (e) {
+        next(e);
+    }
+})
+
+// The room's most recent runs, newest first, with their output
+app.get('/rooms/:roomId/runs', middleware, requireRoomRole("viewer"), async (req, res, next) => {
+    try {
+        const runs = await prismaClient.codeRun.findMany({
+            where: { roomId: Number(req.params.roomId) },
+            orderBy: { id: "desc" },
+            take: 20,
+            include: codeRunInclude
+        });
+
+        res.json({
+            runs: runs.map(serializeCodeRun)
+        })
+    } catch (e) {
+        next(e);
+    }
+})
+
+// The room's interview problem, or null; only the owner gets the hidden tests
+app.get('/rooms/:roomId/interview', middleware, requireRoomRole("viewer"), async (req, res, next) => {
+    try {
+        const problem = await prismaClient.interviewProblem.findUnique({
+            where: { roomId: Number(req.params.roomId) },
+            include: interviewProblemInclude
+        });
+
+        res.json({
+            problem: problem && serializeInterviewProblem(problem, hasRole(req.roomRole ?? null, "owner"))
+        })
+    } catch (e) {
+        next(e);
+    }
+})
+
+// Judgings of the room's code, newest first; they show the hidden tests, so only the interviewer sees them
+app.get('/rooms/:roomId/interview/reports', middleware, requireRoomRole("owner"), async (req, res, next) => {
+    try {
+        const reports = await prismaClient.interviewReport.findMany({
+            where: { roomId: Number(req.params.roomId) },
+            orderBy: { id: "desc" },
+            take: 20,
+            include: interviewReportInclude
+        });
+
+        res.json({
+            reports: reports.map(serializeInterviewReport)
+        })
+    } catch (e) {
+        next(e);
+    }
+})
+
+app.get('/rooms/:roomId/versions', middleware, requireRoomRole("viewer"), async (req, res, next) => {
+    try {
+        const versions = await prismaClient.boardVersion.findMany({
+            where: { roomId: Number(req.params.roomId) },
+            orderBy: { createdAt: "desc" },
+            take: 100,
+            select: {
+                id: true,
+                name: true,
+                automatic: true,
+                createdAt: true,
+                shapeCount: true,
+                user: { select: { name: true } }
+            }
+        });
+
+        res.json({
+            versions: versions.map(({ user, ...version }) => ({
+                ...version,
+                author: user.name
+            }))
+        })
+    } catch (e) {
+        next(e);
+    }
+})
+
+app.get('/rooms/:roomId/versions/:versionId', middleware, requireRoomRole("viewer"), async (req, res, next) => {
+    const versionId = parseId(req.params.versionId);
+    if (versionId === null) {
+        res.status(400).json({ msg: "Invalid version id" });
+        return;
+    }
+
+    try {
+        const version = await prismaClient.boardVersion.findUnique({ where: { id: versionId } });
+        if (!version || version.roomId !== Number(req.params.roomId)) {
+            res.status(404).json({ msg: "Version not found" });
+            return;
         }
+
+        res.json({ shapes: version.shapes })
+    } catch (e) {
+        next(e);
+    }
+})
+
+// Named snapshots; automatic versions are recorded by the websocket server as people draw
+app.post('/rooms/:roomId/versions', middleware, requireRoomRole("editor"), async (req, res, next) => {
+    try {
+        const parsedData = SaveVersionSchema.safeParse(req.body);
+        if (!parsedData.success) {
+            res.status(400).json({ msg: "Incorrect Inputs" });
+            return;
+        }
+
+        const roomId = Number(req.params.roomId);
+        const elements = await prismaClient.element.findMany({
+            where: { roomId, deleted: false },
+            orderBy: { createdAt: "asc" },
+            select: { data: true }
+        });
+        const version = await prismaClient.boardVersion.create({
+            data: {
+                roomId,
+                userId: req.userId!,
+                name: parsedData.data.name,
+                shapes: elements.map((element) => element.data as object),
+                shapeCount: elements.length
+            },
+            include: { user: { select: { name: true } } }
+        });
+
+        res.json({
+            version: {
+                id: version.id,
+                name: version.name,
+                automatic: version.automatic,
+                createdAt: version.createdAt,
+                author: version.user.name,
+                shapeCount: elements.length
+            }
+        })
+    } catch (e) {
+        next(e);
+    }
+})
+
+app.get('/rooms/:roomId/access', middleware, requireRoomRole("viewer"), async (req, res, next) => {
+    try {
+        const room = await prismaClient.room.findUnique({
+            where: { id: Number(req.params.roomId) },
+            select: { visibility: true }
+        });
+
+        res.json({
+            role: req.roomRole,
+            visibility: room?.visibility
+        })
+    } catch (e) {
+        next(e);
+    }
+})
+
+app.patch('/rooms/:roomId', middleware, requireRoomRole("owner"), async (req, res, next) => {
+    try {
+        const parsedData = UpdateRoomSchema.safeParse(req.body);
+        if (!parsedData.success) {
+            res.status(400).json({ msg: "Incorrect Inputs" });
+            return;
+        }
+
+        const room = await prismaClient.room.update({
+            where: { id: Number(req.params.roomId) },
+            data: { visibility: parsedData.data.visibility }
+        });
+
+        res.json({
+            visibility: room.visibility
+        })
+    } catch (e) {
+        next(e);
+    }
+})
+
+app.get('/rooms/:roomId/members', middleware, requireRoomRole("owner"), async (req, res, next) => {
+    try {
+        const members = await prismaClient.roomMember.findMany({
+            where: { roomId: Number(req.params.roomId) },
+            orderBy: { createdAt: "asc" },
+            select: {
+                userId: true,
+                role: true,
+                user: { select: { name: true } }
+            }
+        });
+
+        res.json({
+            members: members.map(({ userId, role, user }) => ({ userId, role, name: user.name }))
+        })
+    } catch (e) {
+        next(e);
+    }
+})
+
+app.patch('/rooms/:roomId/members/:userId', middleware, requireRoomRole("owner"), async (req, res, next) => {
+    const parsedData = MemberRoleSchema.safeParse(req.body);
+    if (!parsedData.success) {
+        res.status(400).json({ msg: "Incorrect Inputs" });
+        return;
+    }
+
+    const roomId = Number(req.params.roomId);
+    const { userId } = req.params;
+    try {
+        const room = await prismaClient.room.findUnique({ where: { id: roomId } });
+        if (room?.adminId === userId) {
+            res.status(400).json({ msg: "The room owner's role can't be changed" });
+            return;
+        }
+
+        const { count } = await prismaClient.roomMember.updateMany({
+            where: { roomId, userId },
+            data: { role: parsedData.data.role }
+        });
+        if (count === 0) {
+            res.status(404).json({ msg: "Member not found" })
+            return;
+        }
+        res.json({ userId, role: parsedData.data.role })
+    } catch (e) {
+        next(e);
+    }
+})
+
+app.delete('/rooms/:roomId/members/:userId', middleware, requireRoomRole("owner"), async (req, res, next) => {
+    try {
+        const roomId = Number(req.params.roomId);
+        const { userId } = req.params;
+        const room = await prismaClient.room.findUnique({ where: { id: roomId } });
+        if (room?.adminId === userId) {
+            res.status(400).json({ msg: "The room owner can't be removed" });
+            return;
+        }
+
+        await prismaClient.roomMember.deleteMany({
+            where: { roomId, userId }
+        });
+
+        res.status(200).json({ msg: "Member removed" })
+    } catch (e) {
+        next(e);
+    }
+})
+
+const INVITE_EXPIRY = "7d";
+
+// Invites are stateless: a signed room id and role that anyone holding the link can redeem
+app.post('/rooms/:roomId/invites', middleware, requireRoomRole("owner"), async (req, res) => {
+    const parsedData = MemberRoleSchema.safeParse(req.body);
+    if (!parsedData.success) {
+        res.status(400).json({ msg: "Incorrect Inputs" });
+        return;
+    }
+
+    const token = jwt.sign(
+        { purpose: "invite", roomId: Number(req.params.roomId), role: parsedData.data.role },
+        JWT_SECRET,
+        { expiresIn: INVITE_EXPIRY }
+    );
+
+    res.status(201).json({
+        token
     })
+})
+
+app.post('/invites/accept', middleware, async (req, res, next) => {
+    const parsedData = AcceptInviteSchema.safeParse(req.body);
+    if (!parsedData.success) {
+        res.status(400).json({ msg: "Incorrect Inputs" });
+        return;
+    }
+
+    let invite: jwt.JwtPayload;
+    try {
+        invite = jwt.verify(parsedData.data.token, JWT_SECRET) as jwt.JwtPayload;
+    } catch (e) {
+        res.status(410).json({ msg: "This invite link is invalid or has expired" });
+        return;
+    }
+
+    const invitedRole = MemberRoleSchema.safeParse(invite);
+    if (invite.purpose !== "invite" || typeof invite.roomId !== "number" || !invitedRole.success) {
+        res.status(410).json({ msg: "This invite link is invalid or has expired" });
+        return;
+    }
+
+    const roomId = invite.roomId;
+    const userId = req.userId!;
+    try {
+        const membership = await prismaClient.roomMember.findUnique({
+            where: { roomId_userId: { roomId, userId } }
+        });
+
+        // An invite never downgrades someone who already has more access
+        if (!membership || !hasRole(membership.role, invitedRole.data.role)) {
+            await prismaClient.roomMember.upsert({
+                where: { roomId_userId: { roomId, userId } },
+                create: { roomId, userId, role: invitedRole.data.role },
+                update: { role: invitedRole.data.role }
+            });
+        }
+
+        res.json({
+            roomId
+        })
+    } catch (e) {
+        next(e);
+    }
+})
 
-    res.status(200).json({msg: "Cleared Canvas"})
+
+// What the editor can offer, with the version installed here or null when a language
+// can't be run on this machine, which is every language until a sandbox is set up
+app.get('/languages', async (req, res) => {
+    const versions = isExecutionSandboxed() ? await getLanguageVersions() : new Map<string, string | null>();
+    res.json({
+        languages: LANGUAGES.map(({ id, label, monacoId, extensions, template }) => ({
+            id,
+            label,
+            monacoId,
+            extensions,
+            template,
+            version: versions.get(id) ?? null
+        }))
+    })
 })
 
+// Runs code on this machine and streams newline-delimited JSON events: output as it
+// arrives, then a single exit event. Only the WebSocket backend calls this, once it
+// has checked that whoever asked can edit the room.
+app.post('/execute', internalOnly, async (req, res) => {
+    if (!isExecutionSandboxed()) {
+        res.status(503).json({ msg: "Running code is turned off until the server has a sandbox" });
+        return;
+    }
+    const parsedData = ExecuteSchema.safeParse(req.body);
+    if (!parsedData.success) {
+        res.status(400).json({ msg: "Incorrect Inputs" });
+        return;
+    }
+    const language = findLanguage(parsedData.data.language);
+    if (!language || !(await getLanguageVersions()).get(language.id)) {
+        res.status(400).json({ msg: `${language?.label ?? "That language"} can't be run here` });
+        return;
+    }
+    if (isExecutionBusy()) {
+        res.status(429).json({ msg: "Too many programs are running, try again in a moment" });
+        return;
+    }
+
+    res.setHeader("Content-Type", "application/x-ndjson");
+    res.setHeader("Cache-Control", "no-cache");
+    res.flushHeaders();
+
+    // Stops the program when the caller goes away
+    const abort = new AbortController();
+    res.on("close", () => abort.abort());
 
+    const { files, entry, stdin } = parsedData.data;
+    try {
+        await execute(language, files, entry, stdin, (event) => res.write(JSON.stringify(event) + "\n"), abort.signal);
+    } catch (e) {
+        console.log("Execution failed:", e);
+        res.write(JSON.stringify({ type: "error", msg: "Couldn't run the program" }) + "\n");
+    }
+    res.end();
+})
+
+// Errors handed on by middleware; the details stay in the log
+app.use((err: unknown, req: Request, res: Response, next: NextFunction) => {
+    console.log(`${req.method} ${req.path} failed:`, err);
+    if (res.headersSent) {
+        next(err);
+        return;
+    }
+    res.status(500).json({ msg: "Something went wrong" });
+});
 
 app.listen(3002, () => {
     console.log("Server is running on port 3002");
@@ -0,0 +1,42 @@
+import type { Prisma } from "@prisma/client";
+
+// Everything a problem and a report are sent with. Kept in step with websocket-backend/src/interview.ts
+export const interviewProblemInclude = {
+    tests: { orderBy: { position: "asc" } }
+} satisfies Prisma.InterviewProblemInclude;
+
+export const interviewReportInclude = {
+    user: { select: { name: true } }
+} satisfies Prisma.InterviewReportInclude;
+
+type InterviewProblemRow = Prisma.InterviewProblemGetPayload<{ include: typeof interviewProblemInclude }>;
+type InterviewReportRow = Prisma.InterviewReportGetPayload<{ include: typeof interviewReportInclude }>;
+
+// Hidden tests are left out unless the recipient is the interviewer
+export function serializeInterviewProblem(row: InterviewProblemRow, includeHidden: boolean) {
+    const tests = row.tests.filter((test) => includeHidden || !test.hidden);
+    return {
+        title: row.title,
+        description: row.description,
+        tests: tests.map(({ id, input, expectedOutput, hidden }) => ({ id, input, expectedOutput, hidden })),
+        hiddenTestCount: row.tests.length - tests.length,
+        updatedAt: row.updatedAt.toISOString()
+    };
+}
+
+export function serializeInterviewReport(row: InterviewReportRow) {
+    return {
+        id: row.id,
+        userId: row.userId,
+        name: row.user.name,
+        title: row.title,
+        language: row.language,
+        entry: row.entry,
+        files: row.files,
+        status: row.status,
+        results: row.results,
+        error: row.error,
+        createdAt: row.createdAt.toISOString(),
+        finishedAt: row.finishedAt?.toISOString() ?? null
+    };
+}
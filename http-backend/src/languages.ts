@@ -0,0 +1,197 @@
+import { execFile } from "child_process";
+
+// The compiled program, named so that it can't clash with a project file
+const PROGRAM = ".program";
+// Where languages that compile to files rather than one program put their output
+const BUILD_DIR = ".build";
+
+export interface RunContext {
+    memoryMb: number;
+}
+
+// Everything the editor and the executor know about a language. The frontend gets
+// all but the commands from GET /languages, so adding a language here is enough for
+// it to show up in the editor.
+export interface Language {
+    id: string;
+    label: string;
+    // The language Monaco highlights files with
+    monacoId: string;
+    // The first one is used for new files
+    extensions: string[];
+    // What a new file starts with; {name} becomes its name without the extension
+    template: string;
+    // Prints the installed version; a language whose command fails can't be run
+    versionCommand: string[];
+    // Builds the program from every file in the project, for languages that need it
+    compile?: (paths: string[], entry: string) => string[];
+    run: (entry: string, context: RunContext) => string[];
+    // Extra environment for the program, like a runtime's own memory limit
+    env?: (context: RunContext) => Record<string, string>;
+    // Programs get the memory limit plus this much address space, for what the runtime
+    // reserves up front. Runtimes that reserve too much for that to work, or reserve it
+    // unpredictably, have null and are given a heap limit through run or env instead.
+    addressSpaceOverheadMb: number | null;
+}
+
+function withExtensions(paths: string[], extensions: string[]): string[] {
+    return paths.filter((file) => extensions.some((extension) => file.endsWith(`.${extension}`)));
+}
+
+function withoutExtension(path: string): string {
+    return path.replace(/\.[^./]+$/, "");
+}
+
+export const LANGUAGES: Language[] = [
+    {
+        id: "javascript",
+        label: "JavaScript",
+        monacoId: "javascript",
+        extensions: ["js", "mjs", "cjs"],
+        template: 'console.log("Hello, world!");\n',
+        versionCommand: ["node", "--version"],
+        run: (entry, { memoryMb }) => ["node", `--max-old-space-size=${memoryMb}`, entry],
+        addressSpaceOverheadMb: null
+    },
+    {
+        id: "typescript",
+        label: "TypeScript",
+        monacoId: "typescript",
+        extensions: ["ts"],
+        template: 'const greeting: string = "Hello, world!";\nconsole.log(greeting);\n',
+        versionCommand: ["tsc", "--version"],
+        compile: (paths) => [
+            "tsc", "--rootDir", ".", "--outDir", BUILD_DIR, "--module", "commonjs", "--target", "es2020",
+            "--strict", "--skipLibCheck", ...withExtensions(paths, ["ts"])
+        ],
+        run: (entry, { memoryMb }) => [
+            "node", `--max-old-space-size=${memoryMb}`, `${BUILD_DIR}/${withoutExtension(entry)}.js`
+        ],
+        addressSpaceOverheadMb: null
+    },
+    {
+        id: "python",
+        label: "Python",
+        monacoId: "python",
+        extensions: ["py"],
+        template: 'print("Hello, world!")\n',
+        versionCommand: ["python3", "--version"],
+        // Like -I, but keeps the entry's folder on sys.path so the project's modules import
+        run: (entry) => ["python3", "-E", "-s", "-u", entry],
+        addressSpaceOverheadMb: 0
+    },
+    {
+        id: "java",
+        label: "Java",
+        monacoId: "java",
+        extensions: ["java"],
+        template: 'public class {name} {\n    public static void main(String[] args) {\n        System.out.println("Hello, world!");\n    }\n}\n',
+        versionCommand: ["javac", "-version"],
+        compile: (paths) => ["javac", "-d", BUILD_DIR, ...withExtensions(paths, ["java"])],
+        // Folders are packages, so src/app/Main.java is the class src.app.Main
+        run: (entry, { memoryMb }) => [
+            "java", `-Xmx${memoryMb}m`, "-cp", BUILD_DIR, withoutExtension(entry).replace(/\//g, ".")
+        ],
+        addressSpaceOverheadMb: null
+    },
+    {
+        id: "go",
+        label: "Go",
+        monacoId: "go",
+        extensions: ["go"],
+        template: 'package main\n\nimport "fmt"\n\nfunc main() {\n\tfmt.Println("Hello, world!")\n}\n',
+        versionCommand: ["go", "version"],
+        // With a go.mod the project can have packages; without one, the top-level files are the program
+        compile: (paths) => [
+            "go", "build", "-o", PROGRAM,
+            ...(paths.includes("go.mod") ? ["."] : withExtensions(paths.filter((file) => !file.includes("/")), ["go"]))
+        ],
+        run: () => [`./${PROGRAM}`],
+        // A soft limit: the garbage collector works harder to stay under it
+        env: ({ memoryMb }) => ({ GOMEMLIMIT: `${memoryMb}MiB` }),
+        addressSpaceOverheadMb: null
+    },
+    {
+        id: "rust",
+        label: "Rust",
+        monacoId: "rust",
+        extensions: ["rs"],
+        template: 'fn main() {\n    println!("Hello, world!");\n}\n',
+        versionCommand: ["rustc", "--version"],
+        // rustc finds the other files through the entry's mod declarations
+        compile: (_paths, entry) => ["rustc", "-O", "-o", PROGRAM, entry],
+        run: () => [`./${PROGRAM}`],
+        addressSpaceOverheadMb: 0
+    },
+    {
+        id: "c",
+        label: "C",
+        monacoId: "c",
+        extensions: ["c"],
+        template: '#include <stdio.h>\n\nint main(void) {\n    printf("Hello, world!\\n");\n    return 0;\n}\n',
+        versionCommand: ["gcc", "--version"],
+        compile: (paths) => ["gcc", "-O2", "-std=c17", "-I", ".", "-o", PROGRAM, ...withExtensions(paths, ["c"]), "-lm"],
+        run: () => [`./${PROGRAM}`],
+        addressSpaceOverheadMb: 0
+    },
+    {
+        id: "cpp",
+        label: "C++",
+        monacoId: "cpp",
+        extensions: ["cpp", "cc", "cxx", "h", "hh", "hpp"],
+        template: '#include <iostream>\n\nint main() {\n    std::cout << "Hello, world!" << std::endl;\n    return 0;\n}\n',
+        versionCommand: ["g++", "--version"],
+        compile: (paths) => [
+            "g++", "-O2", "-std=c++17", "-I", ".", "-o", PROGRAM, ...withExtensions(paths, ["cpp", "cc", "cxx"])
+        ],
+        run: () => [`./${PROGRAM}`],
+        addressSpaceOverheadMb: 0
+    },
+    {
+        id: "ruby",
+        label: "Ruby",
+        monacoId: "ruby",
+        extensions: ["rb"],
+        template: 'puts "Hello, world!"\n',
+        versionCommand: ["ruby", "--version"],
+        run: (entry) => ["ruby", entry],
+        // Ruby maps large thread stacks up front and crashes with less
+        addressSpaceOverheadMb: 512
+    },
+    {
+        id: "sql",
+        label: "SQL",
+        monacoId: "sql",
+        extensions: ["sql"],
+        template: "CREATE TABLE greetings (message TEXT);\nINSERT INTO greetings VALUES ('Hello, world!');\nSELECT * FROM greetings;\n",
+        versionCommand: ["sqlite3", "--version"],
+        // Runs against a fresh in-memory SQLite database
+        run: (entry) => ["sqlite3", "-bail", "-header", "-column", ":memory:", `.read "${entry}"`],
+        addressSpaceOverheadMb: 0
+    }
+];
+
+export function findLanguage(id: string): Language | undefined {
+    return LANGUAGES.find((language) => language.id === id);
+}
+
+function detectVersion(language: Language): Promise<string | null> {
+    const [command, ...args] = language.versionCommand;
+    return new Promise((resolve) => {
+        execFile(command, args, { timeout: 10_000 }, (error, stdout, stderr) => {
+            // javac prints its version to stderr
+            const output = `${stdout}${stderr}`.trim().split("\n")[0];
+            resolve(error || !output ? null : output);
+        });
+    });
+}
+
+let versions: Promise<Map<string, string | null>> | null = null;
+
+// Installed versions, looked up once; null for languages whose toolchain is missing
+export function getLanguageVersions(): Promise<Map<string, string | null>> {
+    versions ??= Promise.all(
+        LANGUAGES.map(async (language) => [language.id, await detectVersion(language)] as const)
+    ).then((entries) => new Map(entries));
+    return versions;
+}
@@ -1,9 +1,12 @@
+import { createHash, timingSafeEqual } from "crypto";
 import { NextFunction, Request, Response } from "express";
 import jwt, { JwtPayload } from "jsonwebtoken";
 import dotenv from 'dotenv';
 dotenv.config({ path: './config.env' });
 
 const JWT_SECRET = process.env.JWT_SECRET || "123123";
+// Known only to the WebSocket backend; without one, internal routes are closed
+const EXECUTION_SECRET = process.env.EXECUTION_SECRET ?? "";
 
 export function middleware(req: Request, res: Response, next: NextFunction): void {
     const token = req.headers["authorization"];
@@ -26,4 +29,17 @@ export function middleware(req: Request, res: Response, next: NextFunction): voi
     } catch (error) {
         res.status(401).json({ message: "Unauthorized: Invalid token" });
     }
+}
+
+// For routes only the WebSocket backend calls. Both sides are hashed so they can be
+// compared in constant time whatever their lengths.
+export function internalOnly(req: Request, res: Response, next: NextFunction): void {
+    const secret = req.headers["x-execution-secret"];
+    const digest = (value: string) => createHash("sha256").update(value).digest();
+
+    if (!EXECUTION_SECRET || typeof secret !== "string" || !timingSafeEqual(digest(secret), digest(EXECUTION_SECRET))) {
+        res.status(403).json({ msg: "Only the WebSocket backend can run code" });
+        return;
+    }
+    next();
 }
\ No newline at end of file
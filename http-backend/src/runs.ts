@@ -0,0 +1,24 @@
+import type { Prisma } from "@prisma/client";
+
+// Everything a run is sent with. Kept in step with websocket-backend/src/runs.ts
+export const codeRunInclude = {
+    user: { select: { name: true } }
+} satisfies Prisma.CodeRunInclude;
+
+type CodeRunRow = Prisma.CodeRunGetPayload<{ include: typeof codeRunInclude }>;
+
+export function serializeCodeRun(row: CodeRunRow) {
+    return {
+        id: row.id,
+        userId: row.userId,
+        name: row.user.name,
+        language: row.language,
+        entry: row.entry,
+        stdin: row.stdin,
+        status: row.status,
+        exit: row.exit,
+        error: row.error,
+        output: row.output,
+        createdAt: row.createdAt.toISOString()
+    };
+}
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "Element" (
+    "id" TEXT NOT NULL,
+    "roomId" INTEGER NOT NULL,
+    "data" JSONB NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "deleted" BOOLEAN NOT NULL DEFAULT false,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Element_pkey" PRIMARY KEY ("roomId","id")
+);
+
+-- AddForeignKey
+ALTER TABLE "Element" ADD CONSTRAINT "Element_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Element" ADD CONSTRAINT "Element_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
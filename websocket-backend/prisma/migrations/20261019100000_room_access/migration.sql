@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "RoomVisibility" AS ENUM ('public', 'private');
+
+-- CreateEnum
+CREATE TYPE "RoomRole" AS ENUM ('owner', 'editor', 'viewer');
+
+-- AlterTable
+ALTER TABLE "Room" ADD COLUMN "visibility" "RoomVisibility" NOT NULL DEFAULT 'public';
+
+-- CreateTable
+CREATE TABLE "RoomMember" (
+    "roomId" INTEGER NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" "RoomRole" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RoomMember_pkey" PRIMARY KEY ("roomId","userId")
+);
+
+-- AddForeignKey
+ALTER TABLE "RoomMember" ADD CONSTRAINT "RoomMember_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RoomMember" ADD CONSTRAINT "RoomMember_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Existing rooms are owned by whoever created them
+INSERT INTO "RoomMember" ("roomId", "userId", "role")
+SELECT "id", "adminId", 'owner' FROM "Room";
@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE "CodeDocument" (
+    "roomId" INTEGER NOT NULL,
+    "state" BYTEA NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CodeDocument_pkey" PRIMARY KEY ("roomId")
+);
+
+-- AddForeignKey
+ALTER TABLE "CodeDocument" ADD CONSTRAINT "CodeDocument_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "CanvasClear" ADD COLUMN     "shapeCount" INTEGER NOT NULL DEFAULT 0;
+
+-- Backfill
+UPDATE "CanvasClear" SET "shapeCount" = jsonb_array_length("shapes") WHERE jsonb_typeof("shapes") = 'array';
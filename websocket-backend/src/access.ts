@@ -0,0 +1,34 @@
+import type { RoomRole } from "@prisma/client";
+import { prismaClient } from "./db";
+
+// Kept in step with http-backend/src/access.ts
+
+const ROLE_RANK: Record<RoomRole, number> = {
+  viewer: 1,
+  editor: 2,
+  owner: 3
+};
+
+export function hasRole(role: RoomRole | null, required: RoomRole): boolean {
+  return role !== null && ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+// Members keep their stored role; anyone else can edit a public room and has
+// no access at all to a private one.
+export async function getRoomRole(roomId: number, userId: string): Promise<RoomRole | null> {
+  if (!Number.isInteger(roomId)) return null;
+
+  const room = await prismaClient.room.findUnique({
+    where: { id: roomId },
+    select: {
+      adminId: true,
+      visibility: true,
+      members: { where: { userId }, select: { role: true } }
+    }
+  });
+  if (!room) return null;
+
+  if (room.adminId === userId) return "owner";
+  if (room.members[0]) return room.members[0].role;
+  return room.visibility === "public" ? "editor" : null;
+}
@@ -0,0 +1,142 @@
+import type { Prisma } from "@prisma/client";
+import { prismaClient } from "./db";
+import { getRoomRole } from "./access";
+import { ChatAnchor, chatAnchorSchema, ChatMessage, MENTION_PATTERN, REACTION_EMOJIS } from "./protocol";
+
+// The relations every DevTalk message is sent with. Kept in step with http-backend/src/chat.ts
+const chatMessageInclude = {
+  user: { select: { name: true } },
+  reactions: { select: { emoji: true, userId: true }, orderBy: { createdAt: "asc" } },
+  _count: { select: { replies: true } }
+} satisfies Prisma.ChatMessageInclude;
+
+type ChatMessageRow = Prisma.ChatMessageGetPayload<{ include: typeof chatMessageInclude }>;
+
+function parseAnchor(anchor: Prisma.JsonValue): ChatAnchor | null {
+  const parsed = chatAnchorSchema.safeParse(anchor);
+  return parsed.success ? parsed.data : null;
+}
+
+async function serializeChatMessage(row: ChatMessageRow): Promise<ChatMessage> {
+  const mentioned = row.deletedAt || row.mentions.length === 0
+    ? []
+    : await prismaClient.user.findMany({
+      where: { id: { in: row.mentions } },
+      select: { id: true, name: true }
+    });
+
+  const reactions = new Map<string, string[]>();
+  row.reactions.forEach(({ emoji, userId }) => {
+    reactions.set(emoji, [...(reactions.get(emoji) ?? []), userId]);
+  });
+
+  return {
+    id: row.id,
+    userId: row.userId,
+    name: row.user.name,
+    body: row.deletedAt ? "" : row.body,
+    createdAt: row.createdAt.toISOString(),
+    editedAt: row.editedAt?.toISOString() ?? null,
+    deleted: !!row.deletedAt,
+    parentId: row.parentId,
+    anchor: row.deletedAt ? null : parseAnchor(row.anchor),
+    mentions: mentioned.map(({ id, name }) => ({ userId: id, name })),
+    reactions: [...reactions].map(([emoji, userIds]) => ({ emoji, userIds })),
+    replyCount: row._count.replies
+  };
+}
+
+async function loadChatMessage(roomId: number, messageId: number) {
+  const row = await prismaClient.chatMessage.findUnique({
+    where: { id: messageId },
+    include: chatMessageInclude
+  });
+  return row && row.roomId === roomId ? row : null;
+}
+
+// Only people who can open the room can be mentioned in it
+async function getMentionedIds(roomId: number, body: string) {
+  const ids = [...new Set([...body.matchAll(MENTION_PATTERN)].map((match) => match[1]))];
+  const roles = await Promise.all(ids.map((id) => getRoomRole(roomId, id)));
+  return ids.filter((_, i) => roles[i] !== null);
+}
+
+// Returns the new message, plus the thread's first message when its reply count changed
+export async function postChatMessage(
+  roomId: number,
+  userId: string,
+  body: string,
+  parentId?: number,
+  anchor?: ChatAnchor
+) {
+  let threadId: number | null = null;
+  if (parentId !== undefined) {
+    const parent = await loadChatMessage(roomId, parentId);
+    if (!parent || parent.deletedAt) return null;
+    // Threads are one level deep; replying to a reply joins the same thread
+    threadId = parent.parentId ?? parent.id;
+  }
+
+  const row = await prismaClient.chatMessage.create({
+    data: { roomId, userId, body, parentId: threadId, anchor, mentions: await getMentionedIds(roomId, body) },
+    include: chatMessageInclude
+  });
+  const thread = threadId === null ? null : await loadChatMessage(roomId, threadId);
+  return {
+    message: await serializeChatMessage(row),
+    thread: thread && await serializeChatMessage(thread)
+  };
+}
+
+export async function editChatMessage(roomId: number, userId: string, messageId: number, body: string) {
+  const existing = await loadChatMessage(roomId, messageId);
+  if (!existing || existing.userId !== userId || existing.deletedAt) return null;
+
+  const row = await prismaClient.chatMessage.update({
+    where: { id: messageId },
+    data: { body, editedAt: new Date(), mentions: await getMentionedIds(roomId, body) },
+    include: chatMessageInclude
+  });
+  return serializeChatMessage(row);
+}
+
+// Authors can delete their own messages and room owners can delete anyone's
+export async function deleteChatMessage(roomId: number, userId: string, messageId: number) {
+  const existing = await loadChatMessage(roomId, messageId);
+  if (!existing || existing.deletedAt) return null;
+  if (existing.userId !== userId && (await getRoomRole(roomId, userId)) !== "owner") return null;
+
+  const [, row] = await prismaClient.$transaction([
+    prismaClient.chatReaction.deleteMany({ where: { messageId } }),
+    prismaClient.chatMessage.update({
+      where: { id: messageId },
+      data: { deletedAt: new Date(), mentions: [] },
+      include: chatMessageInclude
+    })
+  ]);
+  return serializeChatMessage(row);
+}
+
+export async function reactToChatMessage(
+  roomId: number,
+  userId: string,
+  messageId: number,
+  emoji: (typeof REACTION_EMOJIS)[number],
+  active: boolean
+) {
+  const existing = await loadChatMessage(roomId, messageId);
+  if (!existing || existing.deletedAt) return null;
+
+  if (active) {
+    await prismaClient.chatReaction.upsert({
+      where: { messageId_userId_emoji: { messageId, userId, emoji } },
+      create: { messageId, userId, emoji },
+      update: {}
+    });
+  } else {
+    await prismaClient.chatReaction.deleteMany({ where: { messageId, userId, emoji } });
+  }
+
+  const row = await loadChatMessage(roomId, messageId);
+  return row && serializeChatMessage(row);
+}
@@ -0,0 +1,138 @@
+import { randomUUID } from "crypto";
+import * as Y from "yjs";
+import { prismaClient } from "./db";
+
+// Edits are written back at most this often while people type
+const SAVE_DELAY_MS = 2000;
+
+interface LoadedDocument {
+  doc: Y.Doc;
+  saveTimer: NodeJS.Timeout | null;
+}
+
+// Documents stay in memory while anyone is in the room; loads are shared so two
+// joins at once can't create two copies
+const documents = new Map<number, Promise<LoadedDocument>>();
+
+function encode(data: Uint8Array): string {
+  return Buffer.from(data).toString("base64");
+}
+
+function decode(data: string): Uint8Array {
+  return new Uint8Array(Buffer.from(data, "base64"));
+}
+
+// The document holds the room's project. "files" maps a file id to a map of its
+// path, language and content (a Y.Text); "folders" maps every folder's path to true
+// so that empty ones survive. Kept in step with frontend/app/editor-comp/project.ts
+export interface ProjectFile {
+  id: string;
+  path: string;
+  language: string;
+  content: string;
+}
+
+function readProjectFiles(doc: Y.Doc): ProjectFile[] {
+  const files: ProjectFile[] = [];
+  doc.getMap<Y.Map<unknown>>("files").forEach((file, id) => {
+    const path = file.get("path");
+    const language = file.get("language");
+    const content = file.get("content");
+    // Clients write the document, so anything malformed is skipped rather than trusted
+    if (typeof path === "string" && typeof language === "string" && content instanceof Y.Text) {
+      files.push({ id, path, language, content: content.toString() });
+    }
+  });
+  return files;
+}
+
+// Every room starts with one file; rooms from before projects get their single
+// unnamed buffer as that file
+function createFirstFile(doc: Y.Doc) {
+  const file = new Y.Map<unknown>();
+  file.set("path", "main.js");
+  file.set("language", "javascript");
+  file.set("content", new Y.Text(doc.getText("code").toString()));
+  doc.getMap("files").set(randomUUID(), file);
+}
+
+async function loadDocument(roomId: number): Promise<LoadedDocument> {
+  const doc = new Y.Doc();
+  const stored = await prismaClient.codeDocument.findUnique({ where: { roomId } });
+  if (stored) Y.applyUpdate(doc, stored.state);
+
+  const loaded: LoadedDocument = { doc, saveTimer: null };
+  if (doc.getMap("files").size === 0) {
+    createFirstFile(doc);
+    scheduleSave(roomId, loaded);
+  }
+  return loaded;
+}
+
+function getDocument(roomId: number): Promise<LoadedDocument> {
+  let loaded = documents.get(roomId);
+  if (!loaded) {
+    loaded = loadDocument(roomId);
+    documents.set(roomId, loaded);
+    // Let the next join retry instead of reusing a failed load
+    loaded.catch(() => documents.delete(roomId));
+  }
+  return loaded;
+}
+
+async function saveDocument(roomId: number, loaded: LoadedDocument) {
+  if (loaded.saveTimer) clearTimeout(loaded.saveTimer);
+  loaded.saveTimer = null;
+  const state = Y.encodeStateAsUpdate(loaded.doc);
+  await prismaClient.codeDocument.upsert({
+    where: { roomId },
+    create: { roomId, state },
+    update: { state }
+  });
+}
+
+function scheduleSave(roomId: number, loaded: LoadedDocument) {
+  if (loaded.saveTimer) return;
+  loaded.saveTimer = setTimeout(() => {
+    saveDocument(roomId, loaded).catch((e) => console.log(`Failed to save code for room ${roomId}:`, e));
+  }, SAVE_DELAY_MS);
+}
+
+// What a client with the given state vector is missing, and what we have so it can send the rest
+export async function syncCodeDocument(roomId: number, stateVector: string) {
+  const { doc } = await getDocument(roomId);
+  return {
+    update: encode(Y.encodeStateAsUpdate(doc, decode(stateVector))),
+    stateVector: encode(Y.encodeStateVector(doc))
+  };
+}
+
+// The project as it is now, for running
+export async function getProjectFiles(roomId: number): Promise<ProjectFile[]> {
+  const { doc } = await getDocument(roomId);
+  return readProjectFiles(doc);
+}
+
+// Returns false for data that isn't a Yjs update
+export async function applyCodeUpdate(roomId: number, update: string): Promise<boolean> {
+  const loaded = await getDocument(roomId);
+  try {
+    Y.applyUpdate(loaded.doc, decode(update));
+  } catch (e) {
+    console.log(`Rejected code update for room ${roomId}:`, e);
+    return false;
+  }
+
+  scheduleSave(roomId, loaded);
+  return true;
+}
+
+// Saves and forgets a room's document once the last person has left
+export async function unloadCodeDocument(roomId: number, isRoomEmpty: () => boolean) {
+  const loaded = documents.get(roomId);
+  if (!loaded) return;
+  const document = await loaded;
+  if (document.saveTimer) await saveDocument(roomId, document);
+  // Someone may have come back while we were saving
+  if (isRoomEmpty() && documents.get(roomId) === loaded) documents.delete(roomId);
+}
@@ -0,0 +1,74 @@
+import type { Prisma } from "@prisma/client";
+import { prismaClient } from "./db";
+import { getRoomRole, hasRole } from "./access";
+import { CommentPin } from "./protocol";
+
+// Everything a pin is sent with. Kept in step with http-backend/src/comments.ts
+const commentPinInclude = {
+  user: { select: { name: true } },
+  resolvedBy: { select: { id: true, name: true } },
+  replies: { include: { user: { select: { name: true } } }, orderBy: { id: "asc" } }
+} satisfies Prisma.CommentPinInclude;
+
+type CommentPinRow = Prisma.CommentPinGetPayload<{ include: typeof commentPinInclude }>;
+
+function serializeCommentPin(row: CommentPinRow): CommentPin {
+  return {
+    id: row.id,
+    x: row.x,
+    y: row.y,
+    userId: row.userId,
+    name: row.user.name,
+    createdAt: row.createdAt.toISOString(),
+    resolvedAt: row.resolvedAt?.toISOString() ?? null,
+    resolvedBy: row.resolvedBy && { userId: row.resolvedBy.id, name: row.resolvedBy.name },
+    replies: row.replies.map((reply) => ({
+      id: reply.id,
+      userId: reply.userId,
+      name: reply.user.name,
+      body: reply.body,
+      createdAt: reply.createdAt.toISOString()
+    }))
+  };
+}
+
+async function loadCommentPin(roomId: number, pinId: number) {
+  const row = await prismaClient.commentPin.findUnique({
+    where: { id: pinId },
+    include: commentPinInclude
+  });
+  return row && row.roomId === roomId ? row : null;
+}
+
+export async function createCommentPin(roomId: number, userId: string, x: number, y: number, body: string) {
+  const row = await prismaClient.commentPin.create({
+    data: { roomId, userId, x, y, replies: { create: { userId, body } } },
+    include: commentPinInclude
+  });
+  return serializeCommentPin(row);
+}
+
+export async function replyToCommentPin(roomId: number, userId: string, pinId: number, body: string) {
+  const existing = await loadCommentPin(roomId, pinId);
+  if (!existing) return null;
+
+  await prismaClient.commentReply.create({ data: { pinId, userId, body } });
+  const row = await loadCommentPin(roomId, pinId);
+  return row && serializeCommentPin(row);
+}
+
+// The pin's author and anyone who can edit the room can resolve or reopen it
+export async function setCommentPinResolved(roomId: number, userId: string, pinId: number, resolved: boolean) {
+  const existing = await loadCommentPin(roomId, pinId);
+  if (!existing) return null;
+  if (existing.userId !== userId && !hasRole(await getRoomRole(roomId, userId), "editor")) return null;
+
+  const row = await prismaClient.commentPin.update({
+    where: { id: pinId },
+    data: resolved
+      ? { resolvedAt: new Date(), resolvedById: userId }
+      : { resolvedAt: null, resolvedById: null },
+    include: commentPinInclude
+  });
+  return serializeCommentPin(row);
+}
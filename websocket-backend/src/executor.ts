@@ -0,0 +1,78 @@
+import dotenv from 'dotenv';
+dotenv.config({ path: './config.env' });
+
+// The execution endpoint, served by http-backend unless run elsewhere
+const EXECUTION_URL = process.env.EXECUTION_URL || "http://localhost:3002";
+// Shared with the executor, which runs code for nobody else
+const EXECUTION_SECRET = process.env.EXECUTION_SECRET ?? "";
+
+// How long to wait before asking again while the executor is busy with other rooms,
+// and how many times to ask before giving up
+const BUSY_RETRY_MS = 1000;
+const MAX_BUSY_RETRIES = 60;
+
+export interface ExecutionRequest {
+  language: string;
+  files: { path: string; content: string }[];
+  entry: string;
+  stdin: string;
+}
+
+// What http-backend's /execute streams, one per line
+export type ExecutionEvent =
+  | { type: "stdout" | "stderr"; data: string }
+  | {
+      type: "exit";
+      stage: "compile" | "run";
+      code: number | null;
+      signal: string | null;
+      timedOut: boolean;
+      durationMs: number;
+    }
+  | { type: "error"; msg: string };
+
+// Waits out a busy executor, so whatever asked stays queued until it actually starts.
+// If it stays busy, its last answer is returned and the run fails with its reason.
+async function startExecution(request: ExecutionRequest): Promise<Response> {
+  const { language, files, entry, stdin } = request;
+  for (let attempt = 0; ; attempt++) {
+    const res = await fetch(`${EXECUTION_URL}/execute`, {
+      method: "POST",
+      headers: { "X-Execution-Secret": EXECUTION_SECRET, "Content-Type": "application/json" },
+      body: JSON.stringify({ language, files, entry, stdin })
+    });
+    if (res.status !== 429 || attempt === MAX_BUSY_RETRIES) return res;
+    await res.body?.cancel();
+    await new Promise((resolve) => setTimeout(resolve, BUSY_RETRY_MS));
+  }
+}
+
+// Runs a project on the executor, calling onStart once it has begun and onEvent for
+// everything it reports. Resolves with the executor's reason if it refused the run,
+// or null once the run is over; throws if the executor can't be reached.
+export async function execute(
+  request: ExecutionRequest,
+  onStart: () => Promise<void>,
+  onEvent: (event: ExecutionEvent) => void
+): Promise<string | null> {
+  const res = await startExecution(request);
+  if (!res.ok || !res.body) {
+    const data = await res.json().catch(() => null);
+    return data?.msg ?? "Couldn't run the program";
+  }
+  await onStart();
+
+  // One JSON event per line; a chunk can end partway through a line
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffered += decoder.decode(value, { stream: true });
+    const lines = buffered.split("\n");
+    buffered = lines.pop()!;
+    lines.filter(Boolean).forEach((line) => onEvent(JSON.parse(line)));
+  }
+  return null;
+}
@@ -1,9 +1,22 @@
-import { WebSocket, WebSocketServer } from 'ws';
+import { RawData, WebSocket, WebSocketServer } from 'ws';
+import type { RoomRole } from "@prisma/client";
 import jwt, { JwtPayload } from "jsonwebtoken";
 // import { JWT_SECRET } from '@repo/backend-common/config';
-import { PrismaClient } from "@prisma/client";
-
-const prismaClient = new PrismaClient(); // Note the .js extension  // Adjust if necessary based on the folder structure
+import { prismaClient } from "./db";
+import { getRoomRole, hasRole } from "./access";
+import { clientMessageSchema, InterviewReport, ServerMessage, Shape, shapeSchema } from "./protocol";
+import { deleteChatMessage, editChatMessage, postChatMessage, reactToChatMessage } from "./chat";
+import { createCommentPin, replyToCommentPin, setCommentPinResolved } from "./comments";
+import { applyCodeUpdate, getProjectFiles, syncCodeDocument, unloadCodeDocument } from "./code";
+import { failInterruptedRuns, queueCodeRun } from "./runs";
+import {
+  deleteInterviewProblem,
+  failInterruptedReports,
+  getInterviewProblem,
+  judgeProject,
+  saveInterviewProblem,
+  serializeInterviewProblem
+} from "./interview";
 
 
 import dotenv from 'dotenv';
@@ -15,6 +28,7 @@ interface User {
   ws: WebSocket;
   rooms: string[];
   userId: string;
+  name: string;
 }
 
 interface Room {
@@ -43,6 +57,271 @@ function checkUser(token: string): string | null {
   }
 }
 
+type ShapeOperation =
+  | { type: "shape_add" | "shape_update"; shapes: Shape[] }
+  | { type: "shape_delete"; ids: string[] };
+
+// Each shape is its own Element row; updates bump the version and deletes are soft.
+// Updates only touch rows that exist and aren't deleted, so a late "update" for an
+// erased or never-added shape can't create or resurrect it.
+async function persistShapeOperation(roomId: number, userId: string, operation: ShapeOperation) {
+  if (operation.type === "shape_delete") {
+    await prismaClient.element.updateMany({
+      where: { roomId, id: { in: operation.ids } },
+      data: { deleted: true, version: { increment: 1 }, userId }
+    });
+    return;
+  }
+
+  if (operation.type === "shape_update") {
+    await prismaClient.$transaction(
+      operation.shapes.map((shape) => prismaClient.element.updateMany({
+        where: { roomId, id: shape.id, deleted: false },
+        data: { data: shape as object, version: { increment: 1 }, userId }
+      }))
+    );
+    return;
+  }
+
+  await prismaClient.$transaction(
+    operation.shapes.map((shape) => prismaClient.element.upsert({
+      where: { roomId_id: { roomId, id: shape.id } },
+      create: { id: shape.id, roomId, data: shape as object, userId },
+      update: { data: shape as object, version: { increment: 1 }, userId, deleted: false }
+    }))
+  );
+}
+
+// Snapshots can hold shapes saved before every shape was checked; any that couldn't
+// be drawn are left out
+function storedShapes(value: unknown): Shape[] {
+  return Array.isArray(value)
+    ? value.flatMap((shape) => {
+        const parsed = shapeSchema.safeParse(shape);
+        return parsed.success ? [parsed.data] : [];
+      })
+    : [];
+}
+
+// How long a cleared canvas can be restored; http-backend lists clears for the same window
+const CLEAR_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+// Soft-deletes every element and keeps a snapshot of them for restoring
+async function clearRoom(roomId: number, userId: string) {
+  return prismaClient.$transaction(async (tx) => {
+    const elements = await tx.element.findMany({
+      where: { roomId, deleted: false },
+      orderBy: { createdAt: "asc" },
+      select: { data: true }
+    });
+    if (elements.length === 0) return null;
+
+    const snapshot = await tx.canvasClear.create({
+      data: { roomId, userId, shapes: elements.map((element) => element.data as object), shapeCount: elements.length }
+    });
+    await tx.element.updateMany({
+      where: { roomId, deleted: false },
+      data: { deleted: true, version: { increment: 1 }, userId }
+    });
+    return snapshot;
+  });
+}
+
+// Brings back the shapes of a recent clear; returns them, or null if the clear can't be restored
+async function restoreClear(roomId: number, clearId: number, userId: string) {
+  const snapshot = await prismaClient.canvasClear.findUnique({ where: { id: clearId } });
+  if (
+    !snapshot ||
+    snapshot.roomId !== roomId ||
+    snapshot.restoredAt ||
+    Date.now() - snapshot.createdAt.getTime() > CLEAR_RETENTION_MS
+  ) {
+    return null;
+  }
+
+  const shapes = storedShapes(snapshot.shapes);
+  await prismaClient.$transaction([
+    ...shapes.map((shape) => prismaClient.element.upsert({
+      where: { roomId_id: { roomId, id: shape.id } },
+      create: { id: shape.id, roomId, data: shape as object, userId },
+      update: { data: shape as object, deleted: false, version: { increment: 1 }, userId }
+    })),
+    prismaClient.canvasClear.update({
+      where: { id: clearId },
+      data: { restoredAt: new Date() }
+    })
+  ]);
+  return shapes;
+}
+
+// Minimum gap between automatic versions of a room while people keep drawing
+const AUTO_VERSION_INTERVAL_MS = 10 * 60 * 1000;
+const lastAutoVersionAt = new Map<number, number>();
+// Automatic versions a room keeps; older ones are deleted as new ones are recorded
+const MAX_AUTO_VERSIONS = 50;
+
+async function snapshotRoom(roomId: number, userId: string, name: string | null, automatic: boolean) {
+  const elements = await prismaClient.element.findMany({
+    where: { roomId, deleted: false },
+    orderBy: { createdAt: "asc" },
+    select: { data: true }
+  });
+  const version = await prismaClient.boardVersion.create({
+    data: {
+      roomId,
+      userId,
+      name,
+      automatic,
+      shapes: elements.map((element) => element.data as object),
+      shapeCount: elements.length
+    }
+  });
+  if (automatic) await pruneAutoVersions(roomId);
+  return version;
+}
+
+// Named versions are always kept; automatic ones only up to a limit per room
+async function pruneAutoVersions(roomId: number) {
+  const stale = await prismaClient.boardVersion.findMany({
+    where: { roomId, automatic: true },
+    orderBy: { createdAt: "desc" },
+    skip: MAX_AUTO_VERSIONS,
+    select: { id: true }
+  });
+  if (stale.length === 0) return;
+  await prismaClient.boardVersion.deleteMany({ where: { id: { in: stale.map((version) => version.id) } } });
+}
+
+async function maybeRecordAutoVersion(roomId: number, userId: string) {
+  let last = lastAutoVersionAt.get(roomId);
+  if (last === undefined) {
+    const latest = await prismaClient.boardVersion.findFirst({
+      where: { roomId, automatic: true },
+      orderBy: { createdAt: "desc" },
+      select: { createdAt: true }
+    });
+    last = latest?.createdAt.getTime() ?? 0;
+  }
+
+  const now = Date.now();
+  if (now - last < AUTO_VERSION_INTERVAL_MS) {
+    lastAutoVersionAt.set(roomId, last);
+    return;
+  }
+  // Claim the slot before awaiting so concurrent operations don't each record one
+  lastAutoVersionAt.set(roomId, now);
+  await snapshotRoom(roomId, userId, null, true);
+}
+
+// Makes the room's scene match a saved version. The current scene is saved first so
+// that the restore itself can be undone from the history panel.
+async function restoreVersion(roomId: number, versionId: number, userId: string) {
+  const version = await prismaClient.boardVersion.findUnique({ where: { id: versionId } });
+  if (!version || version.roomId !== roomId) return null;
+
+  await snapshotRoom(roomId, userId, "Before restore", true);
+
+  const shapes = storedShapes(version.shapes);
+  const keep = new Set(shapes.map((shape) => shape.id));
+  const current = await prismaClient.element.findMany({
+    where: { roomId, deleted: false },
+    select: { id: true }
+  });
+  const removedIds = current.map((element) => element.id).filter((id) => !keep.has(id));
+
+  await prismaClient.$transaction([
+    prismaClient.element.updateMany({
+      where: { roomId, id: { in: removedIds } },
+      data: { deleted: true, version: { increment: 1 }, userId }
+    }),
+    ...shapes.map((shape) => prismaClient.element.upsert({
+      where: { roomId_id: { roomId, id: shape.id } },
+      create: { id: shape.id, roomId, data: shape as object, userId },
+      update: { data: shape as object, deleted: false, version: { increment: 1 }, userId }
+    }))
+  ]);
+  return { shapes, removedIds };
+}
+
+// Everyone connected to a room, once per user even with several tabs open
+function getParticipants(roomId: string) {
+  const participants = new Map<string, { userId: string; name: string }>();
+  users.forEach((user) => {
+    if (user.rooms.includes(roomId)) {
+      participants.set(user.userId, { userId: user.userId, name: user.name });
+    }
+  });
+  return [...participants.values()];
+}
+
+function send(socket: WebSocket, message: ServerMessage) {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+// Sends to every connection in the room, including the one the change came from
+function broadcast(roomId: string, message: ServerMessage) {
+  users.forEach((user) => {
+    if (user.rooms.includes(roomId)) send(user.ws, message);
+  });
+}
+
+// Sends every connection in the room what its user's role may see, or nothing when
+// the message is null
+async function broadcastByRole(roomId: string, message: (role: RoomRole | null) => ServerMessage | null) {
+  const inRoom = users.filter((user) => user.rooms.includes(roomId));
+  const roles = new Map<string, RoomRole | null>();
+  for (const { userId } of inRoom) {
+    if (!roles.has(userId)) roles.set(userId, await getRoomRole(Number(roomId), userId));
+  }
+  inRoom.forEach((user) => {
+    const roleMessage = message(roles.get(user.userId) ?? null);
+    if (roleMessage) send(user.ws, roleMessage);
+  });
+}
+
+// The interviewer sees the hidden tests; everyone else only learns how many there are
+async function broadcastInterviewProblem(roomId: string) {
+  const problem = await getInterviewProblem(Number(roomId));
+  await broadcastByRole(roomId, (role) => ({
+    type: "interview_updated",
+    roomId,
+    problem: problem && serializeInterviewProblem(problem, hasRole(role, "owner"))
+  }));
+}
+
+function broadcastPresence(roomId: string) {
+  const message = JSON.stringify({ type: "presence", roomId, users: getParticipants(roomId) } satisfies ServerMessage);
+  users.forEach((user) => {
+    if (user.rooms.includes(roomId) && user.ws.readyState === WebSocket.OPEN) {
+      user.ws.send(message);
+    }
+  });
+}
+
+function leaveRoom(user: User, roomId: string) {
+  user.rooms = user.rooms.filter((x) => x !== roomId);
+
+  const room = rooms.get(roomId);
+  if (!room) return;
+  room.clients.delete(user.ws);
+  // Another tab of the same user may still be in the room
+  if (!users.some((u) => u.userId === user.userId && u.rooms.includes(roomId))) {
+    room.users.delete(user.userId);
+  }
+  if (room.clients.size === 0) {
+    rooms.delete(roomId);
+    unloadCodeDocument(Number(roomId), () => !rooms.has(roomId))
+      .catch((e) => console.log(`Failed to save code for room ${roomId}:`, e));
+  }
+  console.log(`Client ${user.userId} left room ${roomId}. Total clients: ${room.clients.size}`);
+  broadcastPresence(roomId);
+}
+
+failInterruptedRuns().catch((e) => console.log("Failed to close interrupted runs:", e));
+failInterruptedReports().catch((e) => console.log("Failed to close interrupted interview reports:", e));
+
 const wss = new WebSocketServer({ port: 8080 });
 
 wss.on("connection", function connection(ws, request) {
@@ -62,23 +341,70 @@ wss.on("connection", function connection(ws, request) {
     userId,
     rooms: [],
     ws,
+    name: "Anonymous",
   });
 
-  ws.on("message", async function message(data) {
-    let parsedData;
-    if (typeof data !== "string") {
-      parsedData = JSON.parse(data.toString());
-    } else {
-      parsedData = JSON.parse(data);
+  // Only sockets that passed the join_room check may talk to a room
+  const isInRoom = (roomId: string) => {
+    const user = users.find((x) => x.ws === ws);
+    return !!user && user.rooms.includes(roomId);
+  };
+
+  // Roles are looked up again for every change so that a demotion takes effect
+  // without the user having to reconnect
+  const canEdit = async (roomId: string) => {
+    if (!isInRoom(roomId)) return false;
+    if (hasRole(await getRoomRole(Number(roomId), userId), "editor")) return true;
+
+    console.log(`Rejected change from user ${userId} in room ${roomId}: not an editor`);
+    send(ws, { type: "access_denied", roomId, action: "edit", msg: "You can only view this room" });
+    return false;
+  };
+
+  // The room's owner runs its interview
+  const isInterviewer = async (roomId: string) => {
+    if (!isInRoom(roomId)) return false;
+    if (hasRole(await getRoomRole(Number(roomId), userId), "owner")) return true;
+
+    send(ws, { type: "error", msg: "Only the interviewer can do that" });
+    return false;
+  };
+
+  const handleMessage = async (data: RawData) => {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(data.toString());
+    } catch {
+      send(ws, { type: "error", msg: "Messages must be JSON" });
+      return;
     }
 
-    const { type, roomId } = parsedData;
+    const parsed = clientMessageSchema.safeParse(raw);
+    if (!parsed.success) {
+      console.log(`Invalid message from user ${userId}:`, parsed.error.issues);
+      send(ws, { type: "error", msg: "Invalid message" });
+      return;
+    }
 
-    switch (type) {
+    const parsedData = parsed.data;
+    const { roomId } = parsedData;
+
+    switch (parsedData.type) {
       case "join_room": {
+        const role = await getRoomRole(Number(roomId), userId);
+        if (!role) {
+          send(ws, { type: "access_denied", roomId, action: "join", msg: "You don't have access to this room" });
+          return;
+        }
+
         const user = users.find((x) => x.ws === ws);
         if (user) {
-          user.rooms.push(roomId);
+          const dbUser = await prismaClient.user.findUnique({
+            where: { id: userId },
+            select: { name: true }
+          });
+          if (dbUser) user.name = dbUser.name;
+          if (!user.rooms.includes(roomId)) user.rooms.push(roomId);
         }
 
         if (!rooms.has(roomId)) {
@@ -92,124 +418,315 @@ wss.on("connection", function connection(ws, request) {
         room.users.add(userId);
 
         console.log(`Client ${userId} joined room ${roomId}. Total clients: ${room.clients.size}`);
+        // Clients hold back queued messages until this arrives, since they'd be refused before the join
+        send(ws, { type: "joined", roomId });
+        broadcastPresence(roomId);
         break;
       }
 
       case "leave_room": {
         const user = users.find((x) => x.ws === ws);
         if (!user) return;
-        user.rooms = user.rooms.filter((x) => x !== roomId);
+        leaveRoom(user, roomId);
+        break;
+      }
 
-        const room = rooms.get(roomId);
-        if (room) {
-          room.clients.delete(ws);
-          room.users.delete(userId);
-          if (room.clients.size === 0) {
-            rooms.delete(roomId);
+      // Lets a client that mounted after joining catch up on who is here
+      case "presence_request": {
+        if (!isInRoom(roomId)) return;
+        send(ws, { type: "presence", roomId, users: getParticipants(roomId) });
+        break;
+      }
+
+      case "cursor": {
+        const user = users.find((x) => x.ws === ws);
+        if (!user || !user.rooms.includes(roomId)) return;
+
+        const { x, y } = parsedData;
+        users.forEach((u) => {
+          if (u.rooms.includes(roomId) && u.userId !== userId) {
+            send(u.ws, { type: "cursor", roomId, userId, name: user.name, x, y });
           }
-        }
+        });
         break;
       }
 
       case "offer":
       case "answer":
       case "ice-candidate": {
+        if (!isInRoom(roomId)) return;
         const room = rooms.get(roomId);
         if (room) {
           room.clients.forEach((client) => {
-            if (client !== ws && client.readyState === WebSocket.OPEN) {
-              console.log(`Relaying ${type} to peer in room ${roomId}`);
-              client.send(JSON.stringify(parsedData));
+            if (client !== ws) {
+              console.log(`Relaying ${parsedData.type} to peer in room ${roomId}`);
+              send(client, parsedData);
             }
           });
         }
         break;
       }
 
-      case "code_change": {
-        const { code } = parsedData;
+      case "code_sync": {
+        if (!isInRoom(roomId)) return;
+        const { update, stateVector } = await syncCodeDocument(Number(roomId), parsedData.stateVector);
+        send(ws, { type: "code_sync", roomId, update, stateVector });
+        break;
+      }
+
+      case "code_update": {
+        if (!(await canEdit(roomId))) return;
+        const { update } = parsedData;
+        if (!(await applyCodeUpdate(Number(roomId), update))) {
+          send(ws, { type: "error", msg: "Invalid code update" });
+          return;
+        }
+
+        users.forEach((u) => {
+          if (u.rooms.includes(roomId) && u.ws !== ws) {
+            send(u.ws, { type: "code_update", roomId, update });
+          }
+        });
+        break;
+      }
+
+      case "code_cursor": {
+        const user = users.find((x) => x.ws === ws);
+        if (!user || !user.rooms.includes(roomId)) return;
+
+        const { selection } = parsedData;
         users.forEach((u) => {
           if (u.rooms.includes(roomId) && u.ws !== ws) {
-            u.ws.send(JSON.stringify({ type: "code_change", code, roomId }));
+            send(u.ws, { type: "code_cursor", roomId, userId, name: user.name, selection });
           }
         });
         break;
       }
 
+      // Everyone in the room watches a run queue, stream its output and finish
+      case "code_run": {
+        if (!(await canEdit(roomId))) return;
+        const files = await getProjectFiles(Number(roomId));
+        const entry = files.find((file) => file.id === parsedData.fileId);
+        if (!entry || entry.language === "plaintext") {
+          send(ws, { type: "error", msg: "That file can't be run" });
+          return;
+        }
+
+        const run = await queueCodeRun(
+          Number(roomId),
+          userId,
+          files,
+          entry,
+          parsedData.stdin,
+          (message) => broadcast(roomId, message)
+        );
+        if (!run) {
+          send(ws, { type: "error", msg: "Too many runs are waiting in this room" });
+          return;
+        }
+
+        broadcast(roomId, { type: "code_run_updated", roomId, run });
+        break;
+      }
+
+      case "interview_save": {
+        if (!(await isInterviewer(roomId))) return;
+        await saveInterviewProblem(Number(roomId), parsedData.problem);
+        await broadcastInterviewProblem(roomId);
+        break;
+      }
+
+      case "interview_delete": {
+        if (!(await isInterviewer(roomId))) return;
+        await deleteInterviewProblem(Number(roomId));
+        await broadcastInterviewProblem(roomId);
+        break;
+      }
+
+      // Judges the project as it is now; progress goes to the interviewer only, since
+      // it shows the hidden tests
+      case "interview_judge": {
+        if (!(await isInterviewer(roomId))) return;
+        const problem = await getInterviewProblem(Number(roomId));
+        if (!problem || problem.tests.length === 0) {
+          send(ws, { type: "error", msg: "Add tests to the problem before judging" });
+          return;
+        }
+        const files = await getProjectFiles(Number(roomId));
+        const entry = files.find((file) => file.id === parsedData.fileId);
+        if (!entry || entry.language === "plaintext") {
+          send(ws, { type: "error", msg: "That file can't be run" });
+          return;
+        }
+
+        const toInterviewer = (report: InterviewReport) => {
+          broadcastByRole(roomId, (role) =>
+            hasRole(role, "owner") ? { type: "interview_report_updated", roomId, report } : null
+          ).catch((e) => console.log(`Failed to send an interview report in room ${roomId}:`, e));
+        };
+        const report = await judgeProject(Number(roomId), userId, problem, files, entry, toInterviewer);
+        if (!report) {
+          send(ws, { type: "error", msg: "This room's code is already being judged" });
+          return;
+        }
+
+        toInterviewer(report);
+        break;
+      }
+
       case "messages": {
-        users.forEach(user => {
-            try {
-                if (user.rooms.includes(roomId)) {
-                    const messagePayload = {
-                        type: "messages",
-                        status: user.ws === ws ? "sent" : "received",
-                        username: user.ws === ws ? "me" : parsedData.username,
-                        msg: parsedData.msg,
-                        roomId
-                    };
-                    user.ws.send(JSON.stringify(messagePayload));
-                }
-            } catch (error) {
-                console.error("Error sending message to user:", user, error);
-            }
+        if (!isInRoom(roomId)) return;
+        const posted = await postChatMessage(
+          Number(roomId),
+          userId,
+          parsedData.msg,
+          parsedData.parentId,
+          parsedData.anchor
+        );
+        if (!posted) {
+          send(ws, { type: "error", msg: "That thread no longer exists" });
+          return;
+        }
+
+        // The sender gets it back too, which confirms it was stored
+        broadcast(roomId, { type: "messages", roomId, message: posted.message });
+        if (posted.thread) broadcast(roomId, { type: "chat_updated", roomId, message: posted.thread });
+        break;
+      }
+
+      case "chat_edit":
+      case "chat_delete":
+      case "chat_react": {
+        if (!isInRoom(roomId)) return;
+        const { messageId } = parsedData;
+        const updated = parsedData.type === "chat_edit"
+          ? await editChatMessage(Number(roomId), userId, messageId, parsedData.msg)
+          : parsedData.type === "chat_delete"
+            ? await deleteChatMessage(Number(roomId), userId, messageId)
+            : await reactToChatMessage(Number(roomId), userId, messageId, parsedData.emoji, parsedData.active);
+        if (!updated) {
+          send(ws, { type: "error", msg: "You can't change that message" });
+          return;
+        }
+
+        broadcast(roomId, { type: "chat_updated", roomId, message: updated });
+        break;
+      }
+
+      // Pinning a comment puts something on the board, so it takes edit access;
+      // anyone in the room can join the discussion
+      case "comment_create": {
+        if (!(await canEdit(roomId))) return;
+        const pin = await createCommentPin(Number(roomId), userId, parsedData.x, parsedData.y, parsedData.body);
+        broadcast(roomId, { type: "comment_updated", roomId, pin });
+        break;
+      }
+
+      case "comment_reply":
+      case "comment_resolve": {
+        if (!isInRoom(roomId)) return;
+        const { pinId } = parsedData;
+        const pin = parsedData.type === "comment_reply"
+          ? await replyToCommentPin(Number(roomId), userId, pinId, parsedData.body)
+          : await setCommentPinResolved(Number(roomId), userId, pinId, parsedData.resolved);
+        if (!pin) {
+          send(ws, { type: "error", msg: "You can't change that comment" });
+          return;
+        }
+
+        broadcast(roomId, { type: "comment_updated", roomId, pin });
+        break;
+      }
+
+      case "clear_canvas": {
+        if (!(await canEdit(roomId))) return;
+        const user = users.find((x) => x.ws === ws)!;
+        const snapshot = await clearRoom(Number(roomId), userId);
+
+        // Everyone including the sender learns the snapshot id to offer a restore
+        users.forEach((u) => {
+          if (u.rooms.includes(roomId)) {
+            send(u.ws, { type: "canvas_cleared", roomId, clearId: snapshot?.id ?? null, userId, name: user.name });
+          }
         });
         break;
-    }
+      }
 
-      case "chat": {
-        const { message } = parsedData;
-        console.log("room id", roomId, "message", message, "user id", userId);
+      case "restore_clear": {
+        if (!(await canEdit(roomId))) return;
+        const { clearId } = parsedData;
+        const shapes = await restoreClear(Number(roomId), clearId, userId);
+        if (!shapes) {
+          send(ws, { type: "restore_failed", roomId, clearId, msg: "This clear can no longer be restored" });
+          return;
+        }
 
-        const existingUser = await prismaClient.user.findUnique({
-          where: { id: userId }
+        users.forEach((u) => {
+          if (u.rooms.includes(roomId)) {
+            send(u.ws, { type: "shape_add", shapes, roomId });
+          }
         });
+        break;
+      }
 
-        if (!existingUser) {
-          console.log("User does not exist, aborting chat creation");
+      case "restore_version": {
+        if (!(await canEdit(roomId))) return;
+        const { versionId } = parsedData;
+        const restored = await restoreVersion(Number(roomId), versionId, userId);
+        if (!restored) {
+          send(ws, { type: "version_restore_failed", roomId, versionId, msg: "This version can't be restored" });
           return;
         }
 
-        await prismaClient.chat.create({
-          data: {
-            roomId: Number(roomId),
-            message,
-            userId
+        // Sent to the restorer too, who hasn't changed anything locally
+        users.forEach((u) => {
+          if (u.rooms.includes(roomId)) {
+            send(u.ws, { type: "shape_delete", ids: restored.removedIds, roomId });
+            send(u.ws, { type: "shape_add", shapes: restored.shapes, roomId });
           }
         });
+        break;
+      }
+
+      case "shape_add":
+      case "shape_update":
+      case "shape_delete": {
+        if (!(await canEdit(roomId))) return;
 
+        await persistShapeOperation(Number(roomId), userId, parsedData);
+        await maybeRecordAutoVersion(Number(roomId), userId);
+
+        // The sender has already applied the operation locally
         users.forEach(user => {
-          if (user.rooms.includes(roomId)) {
-            user.ws.send(JSON.stringify({
-              type: "chat",
-              message: message,
-              roomId
-            }));
+          if (user.rooms.includes(roomId) && user.ws !== ws) {
+            send(user.ws, parsedData);
           }
         });
         break;
       }
     }
+  };
+
+  // Messages are handled one at a time, in the order they were sent, so a delete
+  // queued offline can't be stored before the add it follows. A failed lookup or
+  // write only fails that message; the connection stays open.
+  let handling = Promise.resolve();
+  ws.on("message", (data) => {
+    handling = handling
+      .then(() => handleMessage(data))
+      .catch((e) => {
+        console.log(`Couldn't handle a message from user ${userId}:`, e);
+        send(ws, { type: "error", msg: "Something went wrong" });
+      });
   });
 
   ws.on("close", () => {
-    const user = users.find((x) => x.ws === ws);
-    if (!user) return;
-
-    user.rooms.forEach(roomId => {
-      const room = rooms.get(roomId);
-      if (room) {
-        room.clients.delete(ws);
-        room.users.delete(userId);
-        if (room.clients.size === 0) {
-          rooms.delete(roomId);
-        }
-        console.log(`Client ${userId} left room ${roomId}. Total clients: ${room.clients.size}`);
-      }
-    });
-
     const userIndex = users.findIndex((x) => x.ws === ws);
-    if (userIndex > -1) {
-      users.splice(userIndex, 1);
-    }
+    if (userIndex === -1) return;
+
+    // Drop the connection first so presence no longer lists it
+    const [user] = users.splice(userIndex, 1);
+    user.rooms.forEach((roomId) => leaveRoom(user, roomId));
   });
 });
\ No newline at end of file
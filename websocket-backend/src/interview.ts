@@ -0,0 +1,235 @@
+import type { Prisma } from "@prisma/client";
+import { prismaClient } from "./db";
+import { ProjectFile } from "./code";
+import { execute, ExecutionEvent, ExecutionRequest } from "./executor";
+import { InterviewProblem, InterviewProblemInput, InterviewReport, InterviewResult } from "./protocol";
+
+// Output longer than this is cut short in reports
+const MAX_RESULT_OUTPUT = 10_000;
+
+// Everything a problem and a report are sent with. Kept in step with http-backend/src/interview.ts
+const interviewProblemInclude = {
+  tests: { orderBy: { position: "asc" } }
+} satisfies Prisma.InterviewProblemInclude;
+
+const interviewReportInclude = {
+  user: { select: { name: true } }
+} satisfies Prisma.InterviewReportInclude;
+
+type InterviewProblemRow = Prisma.InterviewProblemGetPayload<{ include: typeof interviewProblemInclude }>;
+type InterviewReportRow = Prisma.InterviewReportGetPayload<{ include: typeof interviewReportInclude }>;
+
+// Hidden tests are left out unless the recipient is the interviewer
+export function serializeInterviewProblem(row: InterviewProblemRow, includeHidden: boolean): InterviewProblem {
+  const tests = row.tests.filter((test) => includeHidden || !test.hidden);
+  return {
+    title: row.title,
+    description: row.description,
+    tests: tests.map(({ id, input, expectedOutput, hidden }) => ({ id, input, expectedOutput, hidden })),
+    hiddenTestCount: row.tests.length - tests.length,
+    updatedAt: row.updatedAt.toISOString()
+  };
+}
+
+function serializeInterviewReport(row: InterviewReportRow): InterviewReport {
+  return {
+    id: row.id,
+    userId: row.userId,
+    name: row.user.name,
+    title: row.title,
+    language: row.language,
+    entry: row.entry,
+    files: row.files as InterviewReport["files"],
+    status: row.status as InterviewReport["status"],
+    results: row.results as InterviewResult[],
+    error: row.error,
+    createdAt: row.createdAt.toISOString(),
+    finishedAt: row.finishedAt?.toISOString() ?? null
+  };
+}
+
+export function getInterviewProblem(roomId: number) {
+  return prismaClient.interviewProblem.findUnique({ where: { roomId }, include: interviewProblemInclude });
+}
+
+// Replaces the problem and all of its tests
+export function saveInterviewProblem(roomId: number, problem: InterviewProblemInput) {
+  const { title, description, tests } = problem;
+  return prismaClient.$transaction(async (tx) => {
+    await tx.interviewProblem.upsert({
+      where: { roomId },
+      create: { roomId, title, description },
+      update: { title, description }
+    });
+    await tx.interviewTest.deleteMany({ where: { roomId } });
+    await tx.interviewTest.createMany({ data: tests.map((test, position) => ({ roomId, position, ...test })) });
+    return tx.interviewProblem.findUniqueOrThrow({ where: { roomId }, include: interviewProblemInclude });
+  });
+}
+
+// Reports are kept, since they carry their own copy of the tests
+export async function deleteInterviewProblem(roomId: number) {
+  await prismaClient.$transaction([
+    prismaClient.interviewTest.deleteMany({ where: { roomId } }),
+    prismaClient.interviewProblem.deleteMany({ where: { roomId } })
+  ]);
+}
+
+// Anything being judged when the server last stopped will never finish
+export async function failInterruptedReports() {
+  await prismaClient.interviewReport.updateMany({
+    where: { status: "running" },
+    data: { status: "failed", error: "The server restarted before judging finished", finishedAt: new Date() }
+  });
+}
+
+// Trailing spaces and newlines don't count, so print and println both pass
+function normalizeOutput(text: string): string {
+  return text
+    .replace(/\r\n/g, "\n")
+    .split("\n")
+    .map((line) => line.trimEnd())
+    .join("\n")
+    .trimEnd();
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_RESULT_OUTPUT ? `${text.slice(0, MAX_RESULT_OUTPUT)}\n… (cut short)` : text;
+}
+
+// Runs the project once with the test's input and fills in its result. Returns why
+// the remaining tests can't run either, e.g. a compile error, or null to carry on.
+async function runTest(request: ExecutionRequest, result: InterviewResult): Promise<string | null> {
+  let stdout = "";
+  let stderr = "";
+  // Declared with `as` since they're only assigned in the callback
+  let exit = null as Extract<ExecutionEvent, { type: "exit" }> | null;
+  let error = null as string | null;
+
+  const refused = await execute({ ...request, stdin: result.input }, async () => {}, (event) => {
+    if (event.type === "stdout") stdout += event.data;
+    else if (event.type === "stderr") stderr += event.data;
+    else if (event.type === "exit") exit = event;
+    else if (event.type === "error") error = event.msg;
+  });
+  result.output = truncate(stdout);
+  result.stderr = truncate(stderr);
+
+  if (refused || error || !exit) {
+    result.status = "error";
+    result.error = refused ?? error ?? "The run ended without a result";
+    return refused;
+  }
+  result.durationMs = exit.durationMs;
+  if (exit.stage === "compile") {
+    result.status = "error";
+    result.error = exit.timedOut ? "Compiling took too long" : "The project didn't compile";
+    return result.error;
+  }
+  if (exit.timedOut) {
+    result.status = "timeout";
+  } else if (exit.code !== 0) {
+    result.status = "error";
+    result.error = exit.signal ? `Stopped by ${exit.signal}` : `Exited with code ${exit.code}`;
+  } else {
+    result.status = normalizeOutput(stdout) === normalizeOutput(result.expectedOutput) ? "passed" : "failed";
+  }
+  return null;
+}
+
+async function runTests(
+  reportId: number,
+  request: ExecutionRequest,
+  results: InterviewResult[],
+  notify: (report: InterviewReport) => void
+) {
+  const update = async (data: Prisma.InterviewReportUpdateInput) => {
+    const row = await prismaClient.interviewReport.update({ where: { id: reportId }, data, include: interviewReportInclude });
+    notify(serializeInterviewReport(row));
+  };
+
+  let error: string | null = null;
+  for (const result of results) {
+    try {
+      error = await runTest(request, result);
+    } catch (e) {
+      console.log(`Couldn't reach the executor for interview report ${reportId}:`, e);
+      error = "Couldn't reach the code runner";
+      result.status = "error";
+      result.error = error;
+    }
+    if (error) {
+      // Whatever stopped this test would stop the rest the same way
+      results
+        .filter((other) => other.status === "pending")
+        .forEach((other) => Object.assign(other, { status: "error", error }));
+    }
+    await update({ results: results as unknown as Prisma.InputJsonValue });
+    if (error) break;
+  }
+  await update({ status: "finished", error, finishedAt: new Date() });
+}
+
+// Rooms with a judging in progress; each room judges one project at a time
+const judging = new Set<number>();
+
+// Runs the project from its entry file against every test, one after another, and
+// reports progress to the interviewer as each finishes. Returns null if the room is
+// already being judged.
+export async function judgeProject(
+  roomId: number,
+  userId: string,
+  problem: InterviewProblemRow,
+  files: ProjectFile[],
+  entry: ProjectFile,
+  notify: (report: InterviewReport) => void
+): Promise<InterviewReport | null> {
+  if (judging.has(roomId)) return null;
+  judging.add(roomId);
+
+  const results: InterviewResult[] = problem.tests.map((test) => ({
+    testId: test.id,
+    hidden: test.hidden,
+    input: test.input,
+    expectedOutput: test.expectedOutput,
+    status: "pending",
+    output: "",
+    stderr: "",
+    durationMs: null,
+    error: null
+  }));
+  const snapshot = files.map((file) => ({ path: file.path, content: file.content }));
+
+  try {
+    const row = await prismaClient.interviewReport.create({
+      data: {
+        roomId,
+        userId,
+        title: problem.title,
+        language: entry.language,
+        entry: entry.path,
+        files: snapshot,
+        results: results as unknown as Prisma.InputJsonValue
+      },
+      include: interviewReportInclude
+    });
+
+    const request: ExecutionRequest = { language: entry.language, files: snapshot, entry: entry.path, stdin: "" };
+    runTests(row.id, request, results, notify)
+      .catch(async (e) => {
+        console.log(`Judging for interview report ${row.id} failed:`, e);
+        const failed = await prismaClient.interviewReport.update({
+          where: { id: row.id },
+          data: { status: "failed", error: "Judging stopped unexpectedly", finishedAt: new Date() },
+          include: interviewReportInclude
+        });
+        notify(serializeInterviewReport(failed));
+      })
+      .catch((e) => console.log(`Couldn't mark interview report ${row.id} as failed:`, e))
+      .finally(() => judging.delete(roomId));
+    return serializeInterviewReport(row);
+  } catch (e) {
+    judging.delete(roomId);
+    throw e;
+  }
+}
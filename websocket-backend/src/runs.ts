@@ -0,0 +1,147 @@
+import type { Prisma } from "@prisma/client";
+import { prismaClient } from "./db";
+import { ProjectFile } from "./code";
+import { execute, ExecutionRequest } from "./executor";
+import { CodeRun, RunOutputChunk, ServerMessage } from "./protocol";
+
+// Runs that can wait in a room behind the one in progress
+const MAX_QUEUED_RUNS = 5;
+
+// Everything a run is sent with. Kept in step with http-backend/src/runs.ts
+const codeRunInclude = {
+  user: { select: { name: true } }
+} satisfies Prisma.CodeRunInclude;
+
+type CodeRunRow = Prisma.CodeRunGetPayload<{ include: typeof codeRunInclude }>;
+
+function serializeCodeRun(row: CodeRunRow): CodeRun {
+  return {
+    id: row.id,
+    userId: row.userId,
+    name: row.user.name,
+    language: row.language,
+    entry: row.entry,
+    stdin: row.stdin,
+    status: row.status as CodeRun["status"],
+    exit: row.exit as CodeRun["exit"],
+    error: row.error,
+    output: row.output as RunOutputChunk[],
+    createdAt: row.createdAt.toISOString()
+  };
+}
+
+// The language is checked by the executor, which knows which ones it has toolchains
+// for; the files are the project as it was when the run was asked for
+interface QueuedRun extends ExecutionRequest {
+  id: number;
+  roomId: number;
+  broadcast: (message: ServerMessage) => void;
+}
+
+// Each room runs one program at a time so everyone watches the same output; the
+// first entry is the one in progress
+const queues = new Map<number, QueuedRun[]>();
+
+// Runs still being stored, which count towards their room's queue until they join it
+const pending = new Map<number, number>();
+
+// Anything the server was doing when it last stopped will never finish
+export async function failInterruptedRuns() {
+  await prismaClient.codeRun.updateMany({
+    where: { status: { in: ["queued", "running"] } },
+    data: { status: "failed", error: "The server restarted before this run finished", finishedAt: new Date() }
+  });
+}
+
+// Queues a run of the project from its entry file; returns null when the room already
+// has too many runs waiting
+export async function queueCodeRun(
+  roomId: number,
+  userId: string,
+  files: ProjectFile[],
+  entry: ProjectFile,
+  stdin: string,
+  broadcast: (message: ServerMessage) => void
+): Promise<CodeRun | null> {
+  const waiting = (queues.get(roomId)?.length ?? 0) + (pending.get(roomId) ?? 0);
+  if (waiting > MAX_QUEUED_RUNS) return null;
+
+  // The slot is taken before anything is awaited, so runs asked for at once can't
+  // all see room for themselves
+  pending.set(roomId, (pending.get(roomId) ?? 0) + 1);
+  const { language, path } = entry;
+  let row: CodeRunRow;
+  try {
+    row = await prismaClient.codeRun.create({
+      data: { roomId, userId, language, entry: path, stdin },
+      include: codeRunInclude
+    });
+  } finally {
+    const count = pending.get(roomId)! - 1;
+    if (count > 0) pending.set(roomId, count);
+    else pending.delete(roomId);
+  }
+  // Looked up again, since the queue may have emptied and gone while we waited
+  const queue = queues.get(roomId) ?? [];
+  queues.set(roomId, queue);
+  queue.push({
+    id: row.id,
+    roomId,
+    language,
+    files: files.map((file) => ({ path: file.path, content: file.content })),
+    entry: path,
+    stdin,
+    broadcast
+  });
+  if (queue.length === 1) processQueue(roomId, queue);
+  return serializeCodeRun(row);
+}
+
+async function processQueue(roomId: number, queue: QueuedRun[]) {
+  while (queue.length > 0) {
+    await performRun(queue[0]).catch((e) => console.log(`Run ${queue[0].id} in room ${roomId} failed:`, e));
+    queue.shift();
+  }
+  queues.delete(roomId);
+}
+
+async function performRun(run: QueuedRun) {
+  const output: RunOutputChunk[] = [];
+  let exit: CodeRun["exit"] = null;
+  let error: string | null = null;
+
+  const update = async (data: Prisma.CodeRunUpdateInput) => {
+    const row = await prismaClient.codeRun.update({ where: { id: run.id }, data, include: codeRunInclude });
+    run.broadcast({ type: "code_run_updated", roomId: String(run.roomId), run: serializeCodeRun(row) });
+  };
+
+  try {
+    const refused = await execute(run, () => update({ status: "running" }), (event) => {
+      if (event.type === "stdout" || event.type === "stderr") {
+        // Consecutive pieces of the same stream are stored as one
+        const last = output[output.length - 1];
+        if (last?.stream === event.type) last.text += event.data;
+        else output.push({ stream: event.type, text: event.data });
+        run.broadcast({ type: "code_run_output", roomId: String(run.roomId), runId: run.id, stream: event.type, data: event.data });
+      } else if (event.type === "exit") {
+        const { stage, code, signal, timedOut, durationMs } = event;
+        exit = { stage, code, signal, timedOut, durationMs };
+      } else if (event.type === "error") {
+        error = event.msg;
+      }
+    });
+    if (refused) error = refused;
+  } catch (e) {
+    console.log(`Couldn't reach the executor for run ${run.id}:`, e);
+    error = "Couldn't reach the code runner";
+  }
+
+  if (!exit && !error) error = "The run ended without a result";
+  await update({
+    status: exit ? "finished" : "failed",
+    exit: exit ?? undefined,
+    error,
+    output: output as unknown as Prisma.InputJsonValue,
+    finishedAt: new Date()
+  });
+}